@@ -10,6 +10,7 @@ import sonarrRoutes from './routes/sonarr.js';
 import settingsRoutes from './routes/settings.js';
 import hardwareRoutes from './routes/hardware.js';
 import processingRoutes from './routes/processing.js';
+import jellyfinRoutes from './routes/jellyfin.js';
 import { initializeFingerprintSchema } from './services/fingerprintPipeline.js';
 import { appLogger } from './services/logger.js';
 
@@ -59,6 +60,7 @@ export function createApp({ db, logger: _logger = appLogger, wss }) {
   app.use('/settings', settingsRoutes);
   app.use('/hardware', hardwareRoutes);
   app.use('/processing', processingRoutes);
+  app.use('/jellyfin', jellyfinRoutes);
 
   // Serve static files from the React build
   const distPath = path.join(__dirname, '..', 'dist');
@@ -77,7 +79,8 @@ export function createApp({ db, logger: _logger = appLogger, wss }) {
         req.path.startsWith('/sonarr') ||
         req.path.startsWith('/settings') ||
         req.path.startsWith('/hardware') ||
-        req.path.startsWith('/processing')) {
+        req.path.startsWith('/processing') ||
+        req.path.startsWith('/jellyfin')) {
       return next();
     }
 
@@ -0,0 +1,149 @@
+// Per-show audio language/track overrides for fingerprinting.
+// Picking a show lists its audio streams so a specific track can be pinned.
+import React, { useState, useEffect, useCallback } from 'react';
+import { Trash2, Plus } from 'lucide-react';
+import { apiClient } from '../integration/api-client';
+import { useToast } from './ToastContext';
+
+const inputClass = 'rounded-lg px-3 py-2 bg-gray-900 text-white border border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const describePreference = (preference) => {
+  if (preference.trackIndex !== null) {
+    return `Track ${preference.trackIndex + 1}`;
+  }
+  return preference.language ? `Language ${preference.language}` : 'Default track';
+};
+
+const describeStream = (stream) =>
+  `${stream.audioIndex + 1}: ${stream.language} ${stream.channelLayout || `${stream.channels}ch`}` +
+  `${stream.title ? ` (${stream.title})` : ''}${stream.isCommentary ? ' [commentary]' : ''}`;
+
+const AudioTrackOverrides = () => {
+  const [overrides, setOverrides] = useState([]);
+  const [shows, setShows] = useState([]);
+  const [streams, setStreams] = useState([]);
+  const [draft, setDraft] = useState({ showId: '', language: '', track_index: '' });
+  const [saving, setSaving] = useState(false);
+  const toast = useToast();
+
+  const loadOverrides = useCallback(async () => {
+    try {
+      const data = await apiClient.getAudioTrackOverrides();
+      setOverrides(data.overrides || []);
+    } catch {
+      toast({ type: 'error', message: 'Failed to load audio track overrides' });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadOverrides();
+    apiClient.getImportedShows()
+      .then((list) => setShows(list || []))
+      .catch(() => setShows([]));
+  }, [loadOverrides]);
+
+  useEffect(() => {
+    setStreams([]);
+    if (!draft.showId) {
+      return;
+    }
+    apiClient.getShowAudioStreams(draft.showId)
+      .then((data) => setStreams(data.streams || []))
+      .catch(() => setStreams([]));
+  }, [draft.showId]);
+
+  const handleAdd = async () => {
+    if (!draft.showId) {
+      return;
+    }
+    setSaving(true);
+    try {
+      await apiClient.setShowAudioTrack(draft.showId, {
+        language: draft.language,
+        track_index: draft.track_index === '' ? null : parseInt(draft.track_index, 10),
+      });
+      setDraft({ showId: '', language: '', track_index: '' });
+      await loadOverrides();
+      toast({ type: 'success', message: 'Audio track override saved' });
+    } catch {
+      toast({ type: 'error', message: 'Failed to save audio track override' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (showId) => {
+    try {
+      await apiClient.deleteShowAudioTrack(showId);
+      await loadOverrides();
+    } catch {
+      toast({ type: 'error', message: 'Failed to remove audio track override' });
+    }
+  };
+
+  return (
+    <div>
+      {overrides.length > 0 && (
+        <ul className="mb-3 divide-y divide-gray-700/50">
+          {overrides.map((override) => (
+            <li key={override.showId} className="flex items-center justify-between py-2">
+              <span className="text-gray-200">{override.title || `Show ${override.showId}`}</span>
+              <div className="flex items-center gap-3">
+                <span className="text-sm text-gray-400">{describePreference(override)}</span>
+                <button
+                  type="button"
+                  className="p-1 text-gray-400 hover:text-red-400"
+                  onClick={() => handleRemove(override.showId)}
+                  title="Use preferred audio language"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          className={inputClass}
+          value={draft.showId}
+          onChange={(e) => setDraft({ showId: e.target.value, language: '', track_index: '' })}
+        >
+          <option value="">Select a show…</option>
+          {shows.map((show) => (
+            <option key={show.id} value={show.id}>{show.title}</option>
+          ))}
+        </select>
+        <input
+          className={`w-20 ${inputClass}`}
+          type="text"
+          value={draft.language}
+          placeholder="eng"
+          onChange={(e) => setDraft((prev) => ({ ...prev, language: e.target.value }))}
+          title="Audio language code"
+        />
+        <select
+          className={inputClass}
+          value={draft.track_index}
+          onChange={(e) => setDraft((prev) => ({ ...prev, track_index: e.target.value }))}
+        >
+          <option value="">Any track</option>
+          {streams.map((stream) => (
+            <option key={stream.audioIndex} value={stream.audioIndex}>{describeStream(stream)}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          className="flex items-center px-3 py-2 rounded-lg bg-blue-700 hover:bg-blue-800 text-white disabled:opacity-50"
+          disabled={!draft.showId || saving}
+          onClick={handleAdd}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Override
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AudioTrackOverrides;
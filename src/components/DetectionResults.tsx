@@ -12,9 +12,33 @@ import {
   Info,
   Eye,
   EyeOff,
+  History,
+  FastForward,
+  Gauge,
+  Radio,
 } from 'lucide-react';
 import { apiClient } from '../integration/api-client';
 
+interface BoundaryRefinement {
+  original: number;
+  refined: number;
+  moved: number;
+  reason: string;
+}
+
+interface SegmentRefinement {
+  label: string;
+  toleranceSec: number;
+  start: BoundaryRefinement;
+  end: BoundaryRefinement;
+}
+
+interface SegmentDemotion {
+  from: 'intro' | 'credits';
+  reason: string;
+  detail: string;
+}
+
 interface Segment {
   id: number;
   start: number;
@@ -24,6 +48,60 @@ interface Segment {
   fingerprintCount: number;
   episodeIds: number[];
   times: number[];
+  refinement?: SegmentRefinement;
+  demotion?: SegmentDemotion;
+}
+
+const REFINEMENT_REASONS: Record<string, string> = {
+  black_and_silence: 'black frame + silence',
+  black_frame: 'black frame',
+  silence: 'silence',
+  file_edge: 'file edge',
+  no_break_in_tolerance: 'no break in range',
+  rejected_collapse: 'rejected (would collapse segment)',
+};
+
+interface CreditsEstimate {
+  start: number | null;
+  end: number | null;
+  confidence: number;
+}
+
+interface CreditsMerge {
+  source: 'audio' | 'video' | 'audio+video';
+  audio: CreditsEstimate;
+  video: CreditsEstimate | null;
+  weight?: number;
+  note?: string;
+}
+
+interface ConfidenceComponent {
+  key: string;
+  label: string;
+  value: number | string | boolean | null;
+  effect: number;
+  detail: string;
+}
+
+interface ConfidenceBreakdown {
+  score: number;
+  base: number;
+  method: string;
+  components: ConfidenceComponent[];
+}
+
+const DETECTION_METHODS: Record<string, string> = {
+  current_season: 'this season',
+  cross_season: 'cross-season fallback',
+  template: 'approved template',
+};
+
+interface IdentOccurrence {
+  identId: number;
+  start: number;
+  end: number;
+  coverage: number;
+  skippable: boolean;
 }
 
 interface DetectionResult {
@@ -33,8 +111,15 @@ interface DetectionResult {
   intro_end: number | null;
   credits_start: number | null;
   credits_end: number | null;
+  recap_start: number | null;
+  recap_end: number | null;
+  preview_start: number | null;
+  preview_end: number | null;
   stingers: Segment[];
+  idents?: IdentOccurrence[];
   segments: Segment[];
+  credits_merge?: CreditsMerge | null;
+  confidence_breakdown?: ConfidenceBreakdown | null;
   confidence_score: number;
   detection_method: string;
   approval_status: string;
@@ -87,6 +172,67 @@ export default function DetectionResults({ showId, seasonNumber }: DetectionResu
     return formatTime(duration);
   };
 
+  const formatShift = (seconds: number) => `${seconds > 0 ? '+' : ''}${seconds.toFixed(2)}s`;
+
+  const findRefinement = (result: DetectionResult, label: string) =>
+    result.segments?.find((segment) => segment.refinement?.label === label)?.refinement;
+
+  const renderRefinement = (refinement?: SegmentRefinement) => {
+    if (!refinement) {
+      return null;
+    }
+    const boundaries: [string, BoundaryRefinement][] = [
+      ['Start', refinement.start],
+      ['End', refinement.end],
+    ];
+
+    return (
+      <div className="mt-2 pt-2 border-t border-gray-700 space-y-1">
+        {boundaries.map(([name, boundary]) => (
+          <div key={name} className="flex justify-between text-xs">
+            <span className="text-gray-400">{name} refinement:</span>
+            <span className={boundary.moved !== 0 ? 'text-blue-300' : 'text-gray-500'}>
+              {boundary.moved !== 0 ?
+                `${formatShift(boundary.moved)} to ${REFINEMENT_REASONS[boundary.reason] || boundary.reason}` :
+                `unchanged (${REFINEMENT_REASONS[boundary.reason] || boundary.reason})`}
+            </span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderConfidenceBreakdown = (breakdown: ConfidenceBreakdown) => (
+    <div>
+      <h4 className="text-sm font-medium text-gray-300 mb-2 flex items-center">
+        <Gauge className="w-4 h-4 mr-2" />
+        Confidence Breakdown
+      </h4>
+      <div className="bg-gray-800/50 rounded-lg p-3 space-y-2">
+        {breakdown.components.map((component) => (
+          <div key={component.key} className="flex justify-between text-sm">
+            <div>
+              <span className="text-gray-300">{component.label}</span>
+              <p className="text-xs text-gray-500">{component.detail}</p>
+            </div>
+            <span
+              className={`font-mono ${component.effect > 0 ? 'text-green-400' :
+                component.effect < 0 ? 'text-red-400' : 'text-gray-500'}`}
+            >
+              {component.effect > 0 ? '+' : ''}{(component.effect * 100).toFixed(0)}%
+            </span>
+          </div>
+        ))}
+        <div className="flex justify-between text-sm pt-2 border-t border-gray-700">
+          <span className="text-gray-400">
+            Total ({DETECTION_METHODS[breakdown.method] || breakdown.method}):
+          </span>
+          <span className="font-mono text-white">{(breakdown.score * 100).toFixed(0)}%</span>
+        </div>
+      </div>
+    </div>
+  );
+
   const getConfidenceColor = (confidence: number) => {
     if (confidence >= 0.8) {
       return 'bg-green-100 text-green-800';
@@ -184,7 +330,15 @@ export default function DetectionResults({ showId, seasonNumber }: DetectionResu
               <span className="text-gray-400">Fingerprints:</span>
               <span className="text-white">{segment.fingerprintCount}</span>
             </div>
+
+            {segment.demotion && (
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-400">Not {segment.demotion.from}:</span>
+                <span className="text-amber-300">{segment.demotion.detail}</span>
+              </div>
+            )}
           </div>
+          {renderRefinement(segment.refinement)}
         </CardContent>
       </Card>
     );
@@ -194,6 +348,7 @@ export default function DetectionResults({ showId, seasonNumber }: DetectionResu
     const hasIntro = result.intro_start !== null && result.intro_end !== null;
     const hasCredits = result.credits_start !== null && result.credits_end !== null;
     const hasStingers = result.stingers && result.stingers.length > 0;
+    const idents = result.idents ?? [];
     const hasSegments = result.segments && result.segments.length > 0;
 
     return (
@@ -215,6 +370,30 @@ export default function DetectionResults({ showId, seasonNumber }: DetectionResu
         </CardHeader>
 
         <CardContent className="space-y-4">
+          {/* Recap */}
+          {result.recap_start !== null && result.recap_end !== null && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-300 mb-2 flex items-center">
+                <History className="w-4 h-4 mr-2" />
+                Recap
+              </h4>
+              <div className="bg-gray-800/50 rounded-lg p-3">
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-400">Time Range:</span>
+                  <span className="text-white">
+                    {formatTime(result.recap_start)} - {formatTime(result.recap_end)}
+                  </span>
+                </div>
+                <div className="flex justify-between text-sm mt-1">
+                  <span className="text-gray-400">Duration:</span>
+                  <span className="text-white">
+                    {formatDuration(result.recap_start, result.recap_end)}
+                  </span>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Intro */}
           {hasIntro && (
             <div>
@@ -235,6 +414,7 @@ export default function DetectionResults({ showId, seasonNumber }: DetectionResu
                     {formatDuration(result.intro_start!, result.intro_end!)}
                   </span>
                 </div>
+                {renderRefinement(findRefinement(result, 'intro'))}
               </div>
             </div>
           )}
@@ -259,6 +439,40 @@ export default function DetectionResults({ showId, seasonNumber }: DetectionResu
                     {formatDuration(result.credits_start!, result.credits_end!)}
                   </span>
                 </div>
+                {result.credits_merge?.video && (
+                  <div className="flex justify-between text-sm mt-1">
+                    <span className="text-gray-400">Source:</span>
+                    <span className="text-white">
+                      {result.credits_merge.source} (video{' '}
+                      {(result.credits_merge.video.confidence * 100).toFixed(0)}%)
+                    </span>
+                  </div>
+                )}
+                {renderRefinement(findRefinement(result, 'credits'))}
+              </div>
+            </div>
+          )}
+
+          {/* Preview */}
+          {result.preview_start !== null && result.preview_end !== null && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-300 mb-2 flex items-center">
+                <FastForward className="w-4 h-4 mr-2" />
+                Next Episode Preview
+              </h4>
+              <div className="bg-gray-800/50 rounded-lg p-3">
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-400">Time Range:</span>
+                  <span className="text-white">
+                    {formatTime(result.preview_start)} - {formatTime(result.preview_end)}
+                  </span>
+                </div>
+                <div className="flex justify-between text-sm mt-1">
+                  <span className="text-gray-400">Duration:</span>
+                  <span className="text-white">
+                    {formatDuration(result.preview_start, result.preview_end)}
+                  </span>
+                </div>
               </div>
             </div>
           )}
@@ -278,6 +492,32 @@ export default function DetectionResults({ showId, seasonNumber }: DetectionResu
             </div>
           )}
 
+          {/* Library idents */}
+          {idents.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-300 mb-2 flex items-center">
+                <Radio className="w-4 h-4 mr-2" />
+                Network Idents ({idents.length})
+              </h4>
+              <div className="space-y-2">
+                {idents.map((ident) => (
+                  <div key={ident.identId} className="bg-gray-800/50 rounded-lg p-3">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-400">Time Range:</span>
+                      <span className="text-white">
+                        {formatTime(ident.start)} - {formatTime(ident.end)}
+                      </span>
+                    </div>
+                    <div className="flex justify-between text-sm mt-1">
+                      <span className="text-gray-400">Skippable:</span>
+                      <span className="text-white">{ident.skippable ? 'Yes' : 'No'}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* All Segments */}
           {hasSegments && (
             <div>
@@ -293,6 +533,10 @@ export default function DetectionResults({ showId, seasonNumber }: DetectionResu
             </div>
           )}
 
+          {/* Confidence Breakdown */}
+          {result.confidence_breakdown && result.confidence_breakdown.components.length > 0 &&
+            renderConfidenceBreakdown(result.confidence_breakdown)}
+
           {/* Processing Notes */}
           {result.processing_notes && (
             <div className="mt-4 p-3 bg-gray-800/50 rounded-lg">
@@ -13,6 +13,8 @@ interface HardwareInfo {
   ffmpeg_version?: string;
   nvenc_support?: boolean;
   qsv_support?: boolean;
+  vce_support?: boolean;
+  vaapi_support?: boolean;
   last_detected?: string;
 }
 
@@ -94,6 +96,8 @@ export default function HardwareDetection({ hardwareInfo, isDetecting, onDetect
             {renderInfoRow('FFmpeg Version', hardwareInfo.ffmpeg_version)}
             {renderInfoRow('NVENC', hardwareInfo.nvenc_support, hardwareInfo.nvenc_support ? 'bg-emerald-100 text-emerald-800' : '')}
             {renderInfoRow('QSV', hardwareInfo.qsv_support, hardwareInfo.qsv_support ? 'bg-emerald-100 text-emerald-800' : '')}
+            {renderInfoRow('AMF', hardwareInfo.vce_support, hardwareInfo.vce_support ? 'bg-emerald-100 text-emerald-800' : '')}
+            {renderInfoRow('VAAPI', hardwareInfo.vaapi_support, hardwareInfo.vaapi_support ? 'bg-emerald-100 text-emerald-800' : '')}
           </div>
         ) : (
           <div className="text-center py-12">
@@ -0,0 +1,95 @@
+// Network idents and studio logos found by the library-wide pass, shared across different shows.
+// Detection runs in the background; removing an ident lets its audio be clustered per show again.
+import React, { useState, useEffect, useCallback } from 'react';
+import { Trash2, RefreshCw } from 'lucide-react';
+import { apiClient } from '../integration/api-client';
+import { useToast } from './ToastContext';
+
+const LibraryIdents = () => {
+  const [idents, setIdents] = useState([]);
+  const [detecting, setDetecting] = useState(false);
+  const toast = useToast();
+
+  const loadIdents = useCallback(async () => {
+    try {
+      const data = await apiClient.getLibraryIdents();
+      setIdents(data.idents || []);
+    } catch {
+      toast({ type: 'error', message: 'Failed to load library idents' });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadIdents();
+  }, [loadIdents]);
+
+  const handleDetect = async () => {
+    setDetecting(true);
+    try {
+      await apiClient.detectLibraryIdents();
+      toast({ type: 'success', message: 'Ident detection started; refresh the list when it finishes' });
+    } catch {
+      toast({ type: 'error', message: 'Failed to start ident detection' });
+    } finally {
+      setDetecting(false);
+    }
+  };
+
+  const handleRemove = async (identId) => {
+    try {
+      await apiClient.deleteLibraryIdent(identId);
+      await loadIdents();
+    } catch {
+      toast({ type: 'error', message: 'Failed to remove ident' });
+    }
+  };
+
+  return (
+    <div>
+      {idents.length > 0 ? (
+        <ul className="mb-3 divide-y divide-gray-700/50">
+          {idents.map((ident) => (
+            <li key={ident.id} className="flex items-center justify-between py-2">
+              <span className="text-gray-200">
+                {ident.duration.toFixed(1)}s ident
+              </span>
+              <div className="flex items-center gap-3">
+                <span className="text-sm text-gray-400">Heard in {ident.show_count} shows</span>
+                <button
+                  type="button"
+                  className="p-1 text-gray-400 hover:text-red-400"
+                  onClick={() => handleRemove(ident.id)}
+                  title="Forget this ident"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mb-3 text-sm text-gray-400">No idents found yet</p>
+      )}
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          className="flex items-center px-3 py-2 rounded-lg bg-blue-700 hover:bg-blue-800 text-white disabled:opacity-50"
+          disabled={detecting}
+          onClick={handleDetect}
+        >
+          <RefreshCw className="w-4 h-4 mr-1" />
+          Detect Idents
+        </button>
+        <button
+          type="button"
+          className="px-3 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-white"
+          onClick={loadIdents}
+        >
+          Refresh
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LibraryIdents;
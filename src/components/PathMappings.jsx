@@ -0,0 +1,224 @@
+// Ordered path mapping rules per integration, turning Sonarr/media server paths into Cliparr paths.
+// The first rule whose prefix matches wins; a test box shows what a given path maps to.
+import React, { useState, useEffect, useCallback } from 'react';
+import { Trash2, Plus, ArrowUp, ArrowDown, CheckCircle, XCircle } from 'lucide-react';
+import { apiClient } from '../integration/api-client';
+import { useToast } from './ToastContext';
+
+const inputClass = 'rounded-lg px-3 py-2 bg-gray-900 text-white border border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const INTEGRATION_LABELS = { sonarr: 'Sonarr', jellyfin: 'Jellyfin', plex: 'Plex', emby: 'Emby' };
+
+const PathMappings = () => {
+  const [integrations, setIntegrations] = useState(Object.keys(INTEGRATION_LABELS));
+  const [mappings, setMappings] = useState({});
+  const [integration, setIntegration] = useState('sonarr');
+  const [draft, setDraft] = useState({ from_prefix: '', to_prefix: '' });
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [testPath, setTestPath] = useState('');
+  const [testResult, setTestResult] = useState(null);
+  const toast = useToast();
+
+  const loadMappings = useCallback(async () => {
+    try {
+      const data = await apiClient.getPathMappings();
+      setIntegrations(data.integrations || Object.keys(INTEGRATION_LABELS));
+      setMappings(data.mappings || {});
+      setDirty(false);
+    } catch {
+      toast({ type: 'error', message: 'Failed to load path mappings' });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadMappings();
+  }, [loadMappings]);
+
+  const rules = mappings[integration] || [];
+
+  const updateRules = (next) => {
+    setMappings((prev) => ({ ...prev, [integration]: next }));
+    setDirty(true);
+    setTestResult(null);
+  };
+
+  const handleAdd = () => {
+    if (!draft.from_prefix.trim() || !draft.to_prefix.trim()) {
+      return;
+    }
+    updateRules([...rules, { from_prefix: draft.from_prefix.trim(), to_prefix: draft.to_prefix.trim() }]);
+    setDraft({ from_prefix: '', to_prefix: '' });
+  };
+
+  const handleMove = (index, offset) => {
+    const next = [...rules];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    updateRules(next);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const data = await apiClient.setPathMappings(integration, rules);
+      setMappings((prev) => ({ ...prev, [integration]: data.rules || rules }));
+      setDirty(false);
+      toast({ type: 'success', message: `${INTEGRATION_LABELS[integration] || integration} path mappings saved` });
+    } catch (err) {
+      toast({ type: 'error', message: err.response?.data?.error || 'Failed to save path mappings' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTest = async () => {
+    if (!testPath.trim()) {
+      return;
+    }
+    try {
+      setTestResult(await apiClient.testPathMapping(integration, testPath.trim()));
+    } catch (err) {
+      setTestResult(null);
+      toast({ type: 'error', message: err.response?.data?.error || 'Failed to test path mapping' });
+    }
+  };
+
+  const describeRule = (rule) => {
+    if (!rule) {
+      return 'No rule matched, path used as is';
+    }
+    return rule.source === 'env' ? 'Matched the environment prefix' : `Matched ${rule.from_prefix} → ${rule.to_prefix}`;
+  };
+
+  return (
+    <div>
+      <select
+        className={`mb-3 ${inputClass}`}
+        value={integration}
+        onChange={(e) => {
+          setIntegration(e.target.value);
+          setTestResult(null);
+        }}
+      >
+        {integrations.map((name) => (
+          <option key={name} value={name}>{INTEGRATION_LABELS[name] || name}</option>
+        ))}
+      </select>
+      {integration === 'jellyfin' && (
+        <p className="mb-3 text-sm text-amber-300">
+          Jellyfin rules map the <code>?path=</code> of requests to Cliparr&apos;s intro-skipper
+          endpoints. Stock intro-skipper clients, which only send a Jellyfin item id, are not
+          supported.
+        </p>
+      )}
+      {rules.length > 0 && (
+        <ol className="mb-3 divide-y divide-gray-700/50">
+          {rules.map((rule, index) => (
+            <li key={`${index}-${rule.from_prefix}`} className="flex items-center justify-between py-2">
+              <span className="text-gray-200 font-mono text-sm break-all">
+                {index + 1}. {rule.from_prefix} → {rule.to_prefix}
+              </span>
+              <div className="flex items-center gap-1">
+                <button
+                  type="button"
+                  className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                  disabled={index === 0}
+                  onClick={() => handleMove(index, -1)}
+                  title="Try this rule earlier"
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                  disabled={index === rules.length - 1}
+                  onClick={() => handleMove(index, 1)}
+                  title="Try this rule later"
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  className="p-1 text-gray-400 hover:text-red-400"
+                  onClick={() => updateRules(rules.filter((_, i) => i !== index))}
+                  title="Remove rule"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          className={`flex-1 min-w-[180px] ${inputClass}`}
+          type="text"
+          value={draft.from_prefix}
+          placeholder={integration === 'sonarr' ? '/tv' : '/data/tv'}
+          onChange={(e) => setDraft((prev) => ({ ...prev, from_prefix: e.target.value }))}
+          title={`Path prefix as ${INTEGRATION_LABELS[integration] || integration} sees it`}
+        />
+        <input
+          className={`flex-1 min-w-[180px] ${inputClass}`}
+          type="text"
+          value={draft.to_prefix}
+          placeholder="/media/tv"
+          onChange={(e) => setDraft((prev) => ({ ...prev, to_prefix: e.target.value }))}
+          title="Path prefix as Cliparr sees it"
+        />
+        <button
+          type="button"
+          className="flex items-center px-3 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-white disabled:opacity-50"
+          disabled={!draft.from_prefix.trim() || !draft.to_prefix.trim()}
+          onClick={handleAdd}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Rule
+        </button>
+        <button
+          type="button"
+          className="px-3 py-2 rounded-lg bg-blue-700 hover:bg-blue-800 text-white disabled:opacity-50"
+          disabled={!dirty || saving}
+          onClick={handleSave}
+        >
+          {saving ? 'Saving…' : 'Save Rules'}
+        </button>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 mt-3">
+        <input
+          className={`flex-1 min-w-[240px] ${inputClass}`}
+          type="text"
+          value={testPath}
+          placeholder="/tv/Show/Season 01/Show - S01E01.mkv"
+          onChange={(e) => setTestPath(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleTest()}
+        />
+        <button
+          type="button"
+          className="px-3 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-white disabled:opacity-50"
+          disabled={!testPath.trim()}
+          onClick={handleTest}
+          title={dirty ? 'Tests the saved rules' : undefined}
+        >
+          Test Path
+        </button>
+      </div>
+      {testResult && (
+        <div className="mt-2 text-sm">
+          <div className="flex items-center gap-2 text-gray-200 font-mono break-all">
+            {testResult.exists ?
+              <CheckCircle className="w-4 h-4 text-green-400 shrink-0" /> :
+              <XCircle className="w-4 h-4 text-red-400 shrink-0" />}
+            {testResult.mapped}
+          </div>
+          <div className="text-gray-400">
+            {describeRule(testResult.rule)}{testResult.exists ? '' : ' · not found from Cliparr'}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PathMappings;
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import type { ProcessingProfile } from '@/components/entities/ProcessingProfile';
+import { ProcessingProfileEntity, type ProcessingProfile } from '@/components/entities/ProcessingProfile';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -8,13 +8,15 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
-import { Settings, Plus, Zap, Monitor } from 'lucide-react';
+import { Settings, Plus, Zap, Monitor, Trash2 } from 'lucide-react';
+import { useToast } from './ToastContext';
 
 // Define the hardware info type
 interface HardwareInfo {
   nvenc_support?: boolean;
   qsv_support?: boolean;
   vce_support?: boolean;
+  vaapi_support?: boolean;
 }
 
 interface ProcessingProfilesProps {
@@ -23,35 +25,57 @@ interface ProcessingProfilesProps {
   onRefresh: () => void;
 }
 
+const EMPTY_PROFILE: Omit<ProcessingProfile, 'id'> = {
+  name: '',
+  description: '',
+  video_codec: 'h264',
+  audio_codec: 'aac',
+  container: 'mp4',
+  quality_preset: 'medium',
+  hardware_acceleration: 'none',
+  target_bitrate: 2000,
+  max_resolution: 'original',
+};
+
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  (error as { response?: { data?: { error?: string } } })?.response?.data?.error || fallback;
+
 export default function ProcessingProfiles({ profiles, hardwareInfo, onRefresh }: ProcessingProfilesProps) {
   const [showCreateDialog, setShowCreateDialog] = useState(false);
-  const [newProfile, setNewProfile] = useState<Omit<ProcessingProfile, 'id'>>({
-    name: '',
-    description: '',
-    video_codec: 'h264',
-    audio_codec: 'aac',
-    container: 'mp4',
-    quality_preset: 'medium',
-    hardware_acceleration: 'none',
-    target_bitrate: 2000,
-    max_resolution: 'original',
-  });
+  const [newProfile, setNewProfile] = useState<Omit<ProcessingProfile, 'id'>>(EMPTY_PROFILE);
+  const [isSaving, setIsSaving] = useState(false);
+  const toast = useToast();
 
   const handleCreateProfile = async () => {
-    // TODO: Replace with actual create logic
-    setShowCreateDialog(false);
-    setNewProfile({
-      name: '',
-      description: '',
-      video_codec: 'h264',
-      audio_codec: 'aac',
-      container: 'mp4',
-      quality_preset: 'medium',
-      hardware_acceleration: 'none',
-      target_bitrate: 2000,
-      max_resolution: 'original',
-    });
-    onRefresh();
+    if (!newProfile.name.trim()) {
+      toast({ type: 'error', message: 'Profile name is required' });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await ProcessingProfileEntity.create({ ...newProfile, name: newProfile.name.trim() });
+      setShowCreateDialog(false);
+      setNewProfile(EMPTY_PROFILE);
+      toast({ type: 'success', message: `Created profile ${newProfile.name.trim()}` });
+      onRefresh();
+    } catch (error) {
+      toast({ type: 'error', message: getErrorMessage(error, 'Failed to create profile') });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteProfile = async (profile: ProcessingProfile) => {
+    if (profile.id === undefined) {
+      return;
+    }
+    try {
+      await ProcessingProfileEntity.delete(profile.id);
+      toast({ type: 'success', message: `Deleted profile ${profile.name}` });
+      onRefresh();
+    } catch (error) {
+      toast({ type: 'error', message: getErrorMessage(error, 'Failed to delete profile') });
+    }
   };
 
   const getRecommendedHardwareAcceleration = (): string[] => {
@@ -68,6 +92,9 @@ export default function ProcessingProfiles({ profiles, hardwareInfo, onRefresh }
     if (hardwareInfo.vce_support) {
       options.push('amd_vce');
     }
+    if (hardwareInfo.vaapi_support) {
+      options.push('vaapi');
+    }
     return options;
   };
 
@@ -138,6 +165,26 @@ export default function ProcessingProfiles({ profiles, hardwareInfo, onRefresh }
                   />
                 </div>
 
+                <div className="space-y-2">
+                  <Label>Output Mode</Label>
+                  <Select
+                    value={newProfile.output_mode || 'default'}
+                    onValueChange={(value: string) => setNewProfile({
+                      ...newProfile,
+                      output_mode: value === 'default' ? undefined : value as 'trim' | 'chapters',
+                    })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">Use Global Setting</SelectItem>
+                      <SelectItem value="trim">Remove Segments</SelectItem>
+                      <SelectItem value="chapters">Chapter Markers</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
                 <div className="grid md:grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <Label>Video Codec</Label>
@@ -214,12 +261,35 @@ export default function ProcessingProfiles({ profiles, hardwareInfo, onRefresh }
                   </div>
                 </div>
 
+                <div className="space-y-2">
+                  <Label>Max Resolution</Label>
+                  <Select
+                    value={newProfile.max_resolution}
+                    onValueChange={(value: string) => setNewProfile({
+                      ...newProfile,
+                      max_resolution: value as ProcessingProfile['max_resolution'],
+                    })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="original">Original (No Scaling)</SelectItem>
+                      <SelectItem value="4k">4K</SelectItem>
+                      <SelectItem value="1440p">1440p</SelectItem>
+                      <SelectItem value="1080p">1080p</SelectItem>
+                      <SelectItem value="720p">720p</SelectItem>
+                      <SelectItem value="480p">480p</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
                 <div className="flex justify-end gap-3">
                   <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
                     Cancel
                   </Button>
-                  <Button onClick={handleCreateProfile}>
-                    Create Profile
+                  <Button onClick={handleCreateProfile} disabled={isSaving}>
+                    {isSaving ? 'Creating...' : 'Create Profile'}
                   </Button>
                 </div>
               </div>
@@ -228,6 +298,59 @@ export default function ProcessingProfiles({ profiles, hardwareInfo, onRefresh }
         </div>
       </CardHeader>
       <CardContent>
+        {profiles && profiles.length > 0 && (
+          <div className="space-y-3">
+            {profiles.map((profile) => (
+              <div key={profile.id} className="p-4 rounded-xl bg-gray-900/80 border border-gray-700">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-semibold text-white truncate">{profile.name}</h3>
+                      {Boolean(profile.is_default) && (
+                        <Badge className="bg-gray-700 text-gray-200">Default</Badge>
+                      )}
+                    </div>
+                    {profile.description && (
+                      <p className="text-sm text-gray-400 mt-1">{profile.description}</p>
+                    )}
+                  </div>
+                  {!profile.is_default && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-gray-400 hover:text-red-400"
+                      onClick={() => handleDeleteProfile(profile)}
+                      title="Delete profile"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-2 mt-3 text-xs">
+                  <Badge className={getHardwareAccelerationBadge(profile.hardware_acceleration)}>
+                    <Zap className="w-3 h-3 mr-1" />
+                    {profile.hardware_acceleration.replace(/_/g, ' ').toUpperCase()}
+                  </Badge>
+                  <Badge variant="outline" className="text-gray-300">
+                    {profile.video_codec.toUpperCase()} / {profile.audio_codec.toUpperCase()} · {profile.container.toUpperCase()}
+                  </Badge>
+                  <Badge variant="outline" className="text-gray-300">{profile.quality_preset}</Badge>
+                  {profile.max_resolution !== 'original' && (
+                    <Badge variant="outline" className="text-gray-300">
+                      Max {profile.max_resolution}
+                    </Badge>
+                  )}
+                  {profile.target_bitrate > 0 && (
+                    <Badge variant="outline" className="text-gray-300">{profile.target_bitrate} kbps</Badge>
+                  )}
+                  <Badge variant="outline" className="text-gray-300">
+                    {profile.output_mode === 'chapters' ? 'Chapter Markers' : profile.output_mode === 'trim' ? 'Remove Segments' : 'Global Output Mode'}
+                  </Badge>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
         {/* Empty state if no profiles */}
         {(!profiles || profiles.length === 0) && (
           <div className="flex flex-col items-center justify-center py-12">
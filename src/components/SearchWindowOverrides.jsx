@@ -0,0 +1,137 @@
+// Per-show overrides for the fingerprint search windows configured on the Settings page.
+// Overrides are saved immediately; removing one puts the show back on the global windows.
+import React, { useState, useEffect, useCallback } from 'react';
+import { Trash2, Plus } from 'lucide-react';
+import { apiClient } from '../integration/api-client';
+import { useToast } from './ToastContext';
+
+const inputClass = 'rounded-lg px-3 py-2 bg-gray-900 text-white border border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const describeWindows = (windows) =>
+  windows.mode === 'full' ? 'Full file' : `First ${windows.headSec}s, last ${windows.tailSec}s`;
+
+const SearchWindowOverrides = () => {
+  const [overrides, setOverrides] = useState([]);
+  const [shows, setShows] = useState([]);
+  const [draft, setDraft] = useState({ showId: '', mode: 'windows', head_sec: 600, tail_sec: 360 });
+  const [saving, setSaving] = useState(false);
+  const toast = useToast();
+
+  const loadOverrides = useCallback(async () => {
+    try {
+      const data = await apiClient.getSearchWindowOverrides();
+      setOverrides(data.overrides || []);
+    } catch {
+      toast({ type: 'error', message: 'Failed to load search window overrides' });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadOverrides();
+    apiClient.getImportedShows()
+      .then((list) => setShows(list || []))
+      .catch(() => setShows([]));
+  }, [loadOverrides]);
+
+  const handleAdd = async () => {
+    if (!draft.showId) {
+      return;
+    }
+    setSaving(true);
+    try {
+      await apiClient.setShowSearchWindows(draft.showId, {
+        mode: draft.mode,
+        head_sec: draft.head_sec,
+        tail_sec: draft.tail_sec,
+      });
+      setDraft((prev) => ({ ...prev, showId: '' }));
+      await loadOverrides();
+      toast({ type: 'success', message: 'Search window override saved' });
+    } catch {
+      toast({ type: 'error', message: 'Failed to save search window override' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (showId) => {
+    try {
+      await apiClient.deleteShowSearchWindows(showId);
+      await loadOverrides();
+    } catch {
+      toast({ type: 'error', message: 'Failed to remove search window override' });
+    }
+  };
+
+  return (
+    <div>
+      {overrides.length > 0 && (
+        <ul className="mb-3 divide-y divide-gray-700/50">
+          {overrides.map((override) => (
+            <li key={override.showId} className="flex items-center justify-between py-2">
+              <span className="text-gray-200">{override.title || `Show ${override.showId}`}</span>
+              <div className="flex items-center gap-3">
+                <span className="text-sm text-gray-400">{describeWindows(override)}</span>
+                <button
+                  type="button"
+                  className="p-1 text-gray-400 hover:text-red-400"
+                  onClick={() => handleRemove(override.showId)}
+                  title="Use global search windows"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          className={inputClass}
+          value={draft.showId}
+          onChange={(e) => setDraft((prev) => ({ ...prev, showId: e.target.value }))}
+        >
+          <option value="">Select a show…</option>
+          {shows.map((show) => (
+            <option key={show.id} value={show.id}>{show.title}</option>
+          ))}
+        </select>
+        <select
+          className={inputClass}
+          value={draft.mode}
+          onChange={(e) => setDraft((prev) => ({ ...prev, mode: e.target.value }))}
+        >
+          <option value="windows">Head/tail windows</option>
+          <option value="full">Full file</option>
+        </select>
+        <input
+          className={`w-20 ${inputClass}`}
+          type="text"
+          value={draft.head_sec}
+          disabled={draft.mode === 'full'}
+          onChange={(e) => setDraft((prev) => ({ ...prev, head_sec: e.target.value }))}
+          title="Head window (seconds)"
+        />
+        <input
+          className={`w-20 ${inputClass}`}
+          type="text"
+          value={draft.tail_sec}
+          disabled={draft.mode === 'full'}
+          onChange={(e) => setDraft((prev) => ({ ...prev, tail_sec: e.target.value }))}
+          title="Tail window (seconds)"
+        />
+        <button
+          type="button"
+          className="flex items-center px-3 py-2 rounded-lg bg-blue-700 hover:bg-blue-800 text-white disabled:opacity-50"
+          disabled={!draft.showId || saving}
+          onClick={handleAdd}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Override
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SearchWindowOverrides;
@@ -0,0 +1,96 @@
+import { api } from '../../integration/api-client';
+
+export interface BackupUsage {
+  count: number;
+  // Bytes
+  size: number;
+}
+
+export interface BackupShowUsage extends BackupUsage {
+  show_id: number;
+  show_title: string;
+  seasons: (BackupUsage & { season_number: number })[];
+}
+
+export interface BackupSummary extends BackupUsage {
+  // 0 keeps backups until they are restored
+  retention_days: number;
+  shows: BackupShowUsage[];
+}
+
+export interface RestoreResult {
+  success: boolean;
+  restored: number[];
+  failed: { id: number; original_path: string; error: string }[];
+  // Shows Sonarr was asked to rescan
+  rescanned: string[];
+  rescan_error: string | null;
+}
+
+// One line for a toast: how many originals came back, what failed and whether Sonarr was told
+export function describeRestore(result: RestoreResult): string {
+  const parts = [`Restored ${result.restored.length} original${result.restored.length === 1 ? '' : 's'}`];
+  if (result.failed.length > 0) {
+    parts.push(`${result.failed.length} failed: ${result.failed[0].error}`);
+  }
+  if (result.rescan_error) {
+    parts.push(`Sonarr rescan failed: ${result.rescan_error}`);
+  } else if (result.rescanned.length > 0) {
+    parts.push(`Sonarr rescanning ${result.rescanned.join(', ')}`);
+  }
+  return parts.join('. ');
+}
+
+export class EpisodeBackupEntity {
+  static async summary(): Promise<BackupSummary | null> {
+    try {
+      const response = await api.get('/processing/backups/summary');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching backup summary:', error);
+      return null;
+    }
+  }
+
+  static async setRetention(days: number): Promise<BackupSummary & { expired: number }> {
+    try {
+      const response = await api.put('/processing/backups/retention', { days });
+      return response.data;
+    } catch (error) {
+      console.error('Error updating backup retention:', error);
+      throw error;
+    }
+  }
+
+  static async restoreEpisode(episodeFileId: string | number): Promise<RestoreResult> {
+    try {
+      const response = await api.post(`/processing/backups/restore/episode/${episodeFileId}`);
+      return response.data;
+    } catch (error) {
+      console.error('Error restoring episode backup:', error);
+      throw error;
+    }
+  }
+
+  static async restoreSeason(showId: number, seasonNumber: number): Promise<RestoreResult> {
+    try {
+      const response = await api.post(
+        `/processing/backups/restore/show/${showId}/season/${seasonNumber}`,
+      );
+      return response.data;
+    } catch (error) {
+      console.error('Error restoring season backups:', error);
+      throw error;
+    }
+  }
+
+  static async restoreShow(showId: number): Promise<RestoreResult> {
+    try {
+      const response = await api.post(`/processing/backups/restore/show/${showId}`);
+      return response.data;
+    } catch (error) {
+      console.error('Error restoring show backups:', error);
+      throw error;
+    }
+  }
+}
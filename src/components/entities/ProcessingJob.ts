@@ -10,10 +10,34 @@ export interface ProcessingJob {
   intro_end?: number;
   credits_start?: number;
   credits_end?: number;
+  recap_start?: number | null;
+  recap_end?: number | null;
   manual_verified?: boolean;
   processing_notes?: string;
   created_date: string;
   updated_date?: string;
+  // Active backup of the original file, when one can be restored
+  backup_id?: number | null;
+}
+
+// One pipeline stage of a job: a BullMQ job that ran for it, or a step inside one
+export interface JobStage {
+  id: number;
+  job_id: number;
+  stage: string;
+  queue: string | null;
+  status: 'running' | 'completed' | 'failed';
+  attempts: number;
+  worker_id: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+  error: string | null;
+}
+
+export interface JobChapter {
+  title: string;
+  start: number;
+  end: number;
 }
 
 export class ProcessingJobEntity {
@@ -46,6 +70,35 @@ export class ProcessingJobEntity {
     }
   }
 
+  static async getStages(id: string | number): Promise<JobStage[]> {
+    try {
+      const response = await api.get(`/processing/jobs/${id}`);
+      return response.data.stages || [];
+    } catch (error) {
+      console.error('Error fetching processing job stages:', error);
+      return [];
+    }
+  }
+
+  static async trim(id: string | number, profileId?: string | number): Promise<void> {
+    try {
+      await api.post(`/processing/jobs/${id}/trim`, profileId ? { profile_id: profileId } : {});
+    } catch (error) {
+      console.error('Error queueing trim for processing job:', error);
+      throw error;
+    }
+  }
+
+  static async previewChapters(id: string | number): Promise<JobChapter[]> {
+    try {
+      const response = await api.get(`/processing/jobs/${id}/chapters`);
+      return response.data.chapters || [];
+    } catch (error) {
+      console.error('Error previewing chapters for processing job:', error);
+      throw error;
+    }
+  }
+
   static async delete(id: string | number): Promise<void> {
     try {
       await api.delete(`/processing/jobs/${id}`);
@@ -1,3 +1,5 @@
+import { api } from '../../integration/api-client';
+
 export interface ProcessingProfile {
   id?: string | number;
   name: string;
@@ -18,4 +20,51 @@ export interface ProcessingProfile {
   hardware_acceleration: 'none' | 'nvidia_nvenc' | 'intel_qsv' | 'amd_vce' | 'vaapi';
   target_bitrate: number;
   max_resolution: '480p' | '720p' | '1080p' | '1440p' | '4k' | 'original';
+  // Falls back to the global output mode setting when unset
+  output_mode?: 'trim' | 'chapters' | null;
+  // The seeded default profile can't be deleted
+  is_default?: boolean | number;
+  created_date?: string;
+  updated_date?: string;
+}
+
+export class ProcessingProfileEntity {
+  static async list(): Promise<ProcessingProfile[]> {
+    try {
+      const response = await api.get('/processing/profiles');
+      return response.data.profiles || [];
+    } catch (error) {
+      console.error('Error fetching processing profiles:', error);
+      return [];
+    }
+  }
+
+  static async create(data: Omit<ProcessingProfile, 'id'>): Promise<ProcessingProfile> {
+    try {
+      const response = await api.post('/processing/profiles', data);
+      return response.data.profile;
+    } catch (error) {
+      console.error('Error creating processing profile:', error);
+      throw error;
+    }
+  }
+
+  static async update(id: string | number, data: Partial<ProcessingProfile>): Promise<ProcessingProfile> {
+    try {
+      const response = await api.put(`/processing/profiles/${id}`, data);
+      return response.data.profile;
+    } catch (error) {
+      console.error('Error updating processing profile:', error);
+      throw error;
+    }
+  }
+
+  static async delete(id: string | number): Promise<void> {
+    try {
+      await api.delete(`/processing/profiles/${id}`);
+    } catch (error) {
+      console.error('Error deleting processing profile:', error);
+      throw error;
+    }
+  }
 }
@@ -1,5 +1,5 @@
 export { ProcessingJobEntity } from './ProcessingJob';
-export type { ProcessingJob } from './ProcessingJob';
+export type { ProcessingJob, JobChapter, JobStage } from './ProcessingJob';
 
 export type { MediaFile } from './MediaFile';
 export { MediaFileEntity } from './MediaFile';
@@ -8,3 +8,7 @@ export type { AudioAnalysis } from './AudioAnalysis';
 export { AudioAnalysisEntity } from './AudioAnalysis';
 
 export type { ProcessingProfile } from './ProcessingProfile';
+export { ProcessingProfileEntity } from './ProcessingProfile';
+
+export type { BackupSummary, BackupShowUsage, RestoreResult } from './EpisodeBackup';
+export { EpisodeBackupEntity, describeRestore } from './EpisodeBackup';
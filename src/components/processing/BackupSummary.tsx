@@ -0,0 +1,168 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Archive, RotateCcw, Loader2 } from 'lucide-react';
+import {
+  EpisodeBackupEntity,
+  describeRestore,
+  type BackupSummary as BackupSummaryData,
+  type RestoreResult,
+} from '../entities/all';
+import { useToast } from '../ToastContext';
+
+interface BackupSummaryProps {
+  // Bumped by the page whenever backups may have changed
+  reloadKey: number;
+  onRestored: () => void;
+}
+
+const RETENTION_OPTIONS = [
+  { days: 0, label: 'Keep until restored' },
+  { days: 7, label: 'Keep 7 days' },
+  { days: 14, label: 'Keep 14 days' },
+  { days: 30, label: 'Keep 30 days' },
+  { days: 90, label: 'Keep 90 days' },
+];
+
+const formatBytes = (bytes: number): string => {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+};
+
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  (error as { response?: { data?: { error?: string } } })?.response?.data?.error || fallback;
+
+export default function BackupSummary({ reloadKey, onRestored }: BackupSummaryProps) {
+  const [summary, setSummary] = useState<BackupSummaryData | null>(null);
+  // Restores need a second click; the key is 'show-<id>' or 'season-<id>-<number>'
+  const [pendingRestore, setPendingRestore] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const toast = useToast();
+
+  const loadSummary = useCallback(async () => {
+    setSummary(await EpisodeBackupEntity.summary());
+  }, []);
+
+  useEffect(() => {
+    loadSummary();
+  }, [loadSummary, reloadKey]);
+
+  const handleRetentionChange = async (value: string) => {
+    try {
+      const result = await EpisodeBackupEntity.setRetention(Number(value));
+      setSummary(result);
+      toast({
+        type: 'success',
+        message: result.expired > 0 ? `Retention saved, ${result.expired} old backups removed` : 'Retention saved',
+      });
+    } catch (error) {
+      toast({ type: 'error', message: getErrorMessage(error, 'Failed to save retention') });
+    }
+  };
+
+  const handleRestore = async (key: string, restore: () => Promise<RestoreResult>) => {
+    if (pendingRestore !== key) {
+      setPendingRestore(key);
+      return;
+    }
+    setPendingRestore(null);
+    setRestoring(key);
+    try {
+      const result = await restore();
+      toast({ type: result.success ? 'success' : 'error', message: describeRestore(result) });
+      await loadSummary();
+      onRestored();
+    } catch (error) {
+      toast({ type: 'error', message: getErrorMessage(error, 'Failed to restore backups') });
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const renderRestoreButton = (key: string, label: string, restore: () => Promise<RestoreResult>) => (
+    <Button
+      variant="ghost"
+      size="sm"
+      className={`h-6 px-2 text-xs ${pendingRestore === key ? 'text-amber-300 hover:bg-amber-900/40' : 'text-slate-300 hover:bg-slate-700'}`}
+      disabled={restoring !== null}
+      onClick={() => handleRestore(key, restore)}
+      title="Put the originals back and ask Sonarr to rescan"
+    >
+      {restoring === key ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <RotateCcw className="w-3 h-3 mr-1" />}
+      {pendingRestore === key ? 'Confirm' : label}
+    </Button>
+  );
+
+  return (
+    <Card className="border-0 rounded-2xl shadow-lg bg-slate-800/90 backdrop-blur-md">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg font-bold text-white">
+          <Archive className="w-5 h-5" />
+          Backups
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!summary ? (
+          <p className="text-slate-500 text-center py-4">Backup summary unavailable</p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-slate-300">
+                {summary.count} original{summary.count === 1 ? '' : 's'} · {formatBytes(summary.size)}
+              </span>
+              <Select value={String(summary.retention_days)} onValueChange={handleRetentionChange}>
+                <SelectTrigger className="w-44 h-8 rounded-lg bg-slate-900 text-slate-200 border-slate-700 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-900 text-slate-200 border-slate-700">
+                  {RETENTION_OPTIONS.map((option) => (
+                    <SelectItem key={option.days} value={String(option.days)}>{option.label}</SelectItem>
+                  ))}
+                  {!RETENTION_OPTIONS.some((option) => option.days === summary.retention_days) && (
+                    <SelectItem value={String(summary.retention_days)}>Keep {summary.retention_days} days</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+            {summary.shows.length === 0 ? (
+              <p className="text-xs text-slate-500">No originals are backed up</p>
+            ) : (
+              <div className="space-y-2 max-h-48 overflow-y-auto">
+                {summary.shows.map((show) => (
+                  <div key={show.show_id} className="p-2 bg-slate-900/50 rounded-lg border border-slate-700">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-white font-medium truncate">{show.show_title}</span>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <span className="text-xs text-slate-400">{formatBytes(show.size)}</span>
+                        {renderRestoreButton(`show-${show.show_id}`, 'Show', () => EpisodeBackupEntity.restoreShow(show.show_id))}
+                      </div>
+                    </div>
+                    {show.seasons.map((season) => (
+                      <div key={season.season_number} className="flex items-center justify-between pl-3">
+                        <span className="text-xs text-slate-400">
+                          Season {season.season_number} · {season.count} episode{season.count === 1 ? '' : 's'}
+                        </span>
+                        {renderRestoreButton(
+                          `season-${show.show_id}-${season.season_number}`,
+                          'Season',
+                          () => EpisodeBackupEntity.restoreSeason(show.show_id, season.season_number),
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -31,6 +31,11 @@ export default function BatchProcessor({
   const [selectedProfile, setSelectedProfile] = useState<string>('');
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
   const toast = useToast();
+  // Only approved jobs that aren't processed already or in progress can be batch processed
+  const batchJobs = jobs.filter((job) =>
+    (job.manual_verified || job.status === 'verified') &&
+    job.status !== 'completed' &&
+    job.status !== 'processing');
 
   const getMediaFile = (mediaFileId: string | number): MediaFile | undefined => {
     return mediaFiles.find((f) => f.id === mediaFileId);
@@ -48,7 +53,7 @@ export default function BatchProcessor({
 
   const handleSelectAll = (checked: boolean) => {
     if (checked) {
-      setSelectedJobs(new Set(jobs.map((j) => j.id!)));
+      setSelectedJobs(new Set(batchJobs.map((j) => j.id!)));
     } else {
       setSelectedJobs(new Set());
     }
@@ -115,10 +120,10 @@ export default function BatchProcessor({
                 <SelectContent className="bg-slate-900 text-slate-200 border-slate-700">
                   {profiles.map((profile) => (
                     <SelectItem key={profile.id} value={profile.id?.toString() || ''}>
-                      {profile.name}
+                      {profile.name}{profile.is_default ? ' (Default)' : ''}
                     </SelectItem>
                   ))}
-                  <SelectItem value="auto">Auto Profile (Recommended)</SelectItem>
+                  <SelectItem value="auto">Keep Each Job's Profile</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -127,7 +132,7 @@ export default function BatchProcessor({
                 Selected Jobs
               </label>
               <div className="p-2 bg-slate-900 rounded-lg border border-slate-700 text-sm text-slate-200">
-                {selectedJobs.size} of {jobs.length} jobs selected
+                {selectedJobs.size} of {batchJobs.length} jobs selected
               </div>
             </div>
           </div>
@@ -152,12 +157,12 @@ export default function BatchProcessor({
           <div className="flex items-center justify-between">
             <CardTitle className="flex items-center gap-2 text-lg font-bold text-white">
               <CheckCircle2 className="w-5 h-5" />
-              Verified Jobs ({jobs.length})
+              Verified Jobs ({batchJobs.length})
             </CardTitle>
             <div className="flex items-center gap-2">
               <input
                 type="checkbox"
-                checked={selectedJobs.size === jobs.length && jobs.length > 0}
+                checked={selectedJobs.size === batchJobs.length && batchJobs.length > 0}
                 onChange={(e) => handleSelectAll(e.target.checked)}
                 className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-600 rounded focus:ring-blue-500 focus:ring-2 transition-all duration-200"
               />
@@ -166,7 +171,7 @@ export default function BatchProcessor({
           </div>
         </CardHeader>
         <CardContent>
-          {jobs.length === 0 ? (
+          {batchJobs.length === 0 ? (
             <div className="text-center py-8 text-slate-500">
               <Clock className="w-16 h-16 mx-auto mb-4 text-slate-700" />
               <h3 className="font-semibold text-slate-400 mb-2">No Verified Jobs</h3>
@@ -176,7 +181,7 @@ export default function BatchProcessor({
             </div>
           ) : (
             <div className="space-y-3">
-              {jobs.map((job) => {
+              {batchJobs.map((job) => {
                 const mediaFile = getMediaFile(job.media_file_id);
                 const isSelected = selectedJobs.has(job.id!);
                 return (
@@ -208,6 +213,11 @@ export default function BatchProcessor({
                           </p>
                         )}
                         <div className="flex items-center gap-4 mt-2 text-xs text-slate-500">
+                          {job.recap_end && (
+                            <span>
+                              Recap: {formatTime(job.recap_start ?? 0)} - {formatTime(job.recap_end)}
+                            </span>
+                          )}
                           {job.intro_start && job.intro_end && (
                             <span>
                               Intro: {formatTime(job.intro_start)} - {formatTime(job.intro_end)}
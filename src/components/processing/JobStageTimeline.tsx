@@ -0,0 +1,126 @@
+import React, { useState, useEffect } from 'react';
+import { CheckCircle2, XCircle, Loader2, X } from 'lucide-react';
+import { ProcessingJobEntity, JobStage } from '../entities/all';
+
+interface JobStageTimelineProps {
+  jobId: string | number;
+  title: string;
+  // Changes whenever the job is updated, so running stages are refetched
+  refreshKey?: string;
+  onClose: () => void;
+}
+
+const STAGE_LABELS: Record<string, string> = {
+  'episode-processing': 'Episode processing',
+  'audio-extraction': 'Audio extraction',
+  'fingerprinting': 'Fingerprinting',
+  'detection': 'Detection',
+  'video-credits-detection': 'Video credits',
+  'trimming': 'Trimming',
+};
+
+const STAGE_STYLES = {
+  running: { bar: 'bg-blue-500 animate-pulse', icon: Loader2, iconClass: 'text-blue-400 animate-spin' },
+  completed: { bar: 'bg-green-500', icon: CheckCircle2, iconClass: 'text-green-400' },
+  failed: { bar: 'bg-red-500', icon: XCircle, iconClass: 'text-red-400' },
+};
+
+const formatDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  return minutes < 60 ? `${minutes}m ${seconds % 60}s` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+export default function JobStageTimeline({ jobId, title, refreshKey, onClose }: JobStageTimelineProps) {
+  const [stages, setStages] = useState<JobStage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    ProcessingJobEntity.getStages(jobId)
+      .then((data) => {
+        if (!cancelled) {
+          setStages(data);
+        }
+      })
+      .catch((error) => {
+        console.error('Error loading job stages:', error);
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId, refreshKey]);
+
+  // Bars are placed on one time axis, from the first stage's start to the last finish (or now)
+  const now = Date.now();
+  const timed = stages.filter(
+    (stage): stage is JobStage & { started_at: string } => Boolean(stage.started_at),
+  );
+  const spanStart = Math.min(...timed.map((stage) => Date.parse(stage.started_at)));
+  const spanEnd = Math.max(...timed.map((stage) => (stage.finished_at ? Date.parse(stage.finished_at) : now)));
+  const span = Math.max(spanEnd - spanStart, 1);
+
+  return (
+    <div className="p-4 rounded-xl bg-slate-900/80 border border-slate-700">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-semibold text-white truncate">Stages · {title}</h4>
+        <button
+          type="button"
+          className="p-1 text-slate-400 hover:text-white"
+          onClick={onClose}
+          aria-label="Close stage timeline"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      {isLoading && stages.length === 0 ? (
+        <p className="text-xs text-slate-400">Loading stages...</p>
+      ) : stages.length === 0 ? (
+        <p className="text-xs text-slate-500">No stages recorded for this job yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {stages.map((stage) => {
+            const style = STAGE_STYLES[stage.status] || STAGE_STYLES.running;
+            const StageIcon = style.icon;
+            const start = stage.started_at ? Date.parse(stage.started_at) : spanStart;
+            const end = stage.finished_at ? Date.parse(stage.finished_at) : now;
+            return (
+              <div key={stage.id}>
+                <div className="flex items-center justify-between text-xs">
+                  <span className="flex items-center gap-1.5 text-slate-200 font-medium">
+                    <StageIcon className={`w-3.5 h-3.5 ${style.iconClass}`} />
+                    {STAGE_LABELS[stage.stage] || stage.stage}
+                  </span>
+                  <span className="text-slate-400">
+                    {formatDuration(end - start)}
+                    {stage.attempts > 1 && ` · ${stage.attempts} attempts`}
+                    {stage.worker_id && ` · worker ${stage.worker_id.slice(0, 8)}`}
+                  </span>
+                </div>
+                <div className="relative h-1.5 mt-1 rounded-full bg-slate-700">
+                  <div
+                    className={`absolute h-full rounded-full ${style.bar}`}
+                    style={{
+                      left: `${((start - spanStart) / span) * 100}%`,
+                      width: `${Math.max(((end - start) / span) * 100, 1)}%`,
+                    }}
+                  />
+                </div>
+                {stage.error && <p className="text-xs text-red-400 mt-1 break-words">{stage.error}</p>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
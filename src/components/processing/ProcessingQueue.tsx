@@ -14,11 +14,13 @@ import {
   List,
   Trash2,
   Loader2,
+  RotateCcw,
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ProcessingJob, MediaFile, ProcessingProfile } from '../entities/all';
 import { ProcessingJobEntity } from '../entities/ProcessingJob';
 import { apiClient } from '../../integration/api-client';
+import JobStageTimeline from './JobStageTimeline';
 import { FixedSizeList as VirtualList } from 'react-window';
 
 interface ProcessingQueueProps {
@@ -28,6 +30,7 @@ interface ProcessingQueueProps {
   onStopProcessing: (jobId: string | number) => Promise<void>;
   isLoading: boolean;
   onDeleteJob: (jobId: string | number) => Promise<void>;
+  onRestoreOriginal?: (job: ProcessingJob) => Promise<void>;
   selected: (string | number)[];
   setSelected: (ids: (string | number)[]) => void;
   onBulkDelete?: () => Promise<void>;
@@ -42,6 +45,7 @@ export default function ProcessingQueue({
   onStopProcessing,
   isLoading,
   onDeleteJob,
+  onRestoreOriginal,
   selected,
   setSelected,
   onBulkDelete,
@@ -61,6 +65,12 @@ export default function ProcessingQueue({
   const [prevCpuLimit, setPrevCpuLimit] = useState<number>(2);
   const [prevGpuLimit, setPrevGpuLimit] = useState<number>(1);
   const [workerSaving, setWorkerSaving] = useState<'idle' | 'saving' | 'saved'>('idle');
+  // Restoring overwrites the processed file, so it takes a second click
+  const [pendingRestoreId, setPendingRestoreId] = useState<string | number | null>(null);
+  const [restoringId, setRestoringId] = useState<string | number | null>(null);
+  // Job whose pipeline stages are shown below the list
+  const [timelineJobId, setTimelineJobId] = useState<string | number | null>(null);
+  const timelineJob = jobsWithId.find((job) => job.id === timelineJobId);
 
   // Fetch all job IDs for the current filter
   useEffect(() => {
@@ -158,6 +168,24 @@ export default function ProcessingQueue({
     }
   };
 
+  const handleRestoreClick = async (job: ProcessingJob) => {
+    const jobId = job.id;
+    if (!onRestoreOriginal || jobId === undefined) {
+      return;
+    }
+    if (pendingRestoreId !== jobId) {
+      setPendingRestoreId(jobId);
+      return;
+    }
+    setPendingRestoreId(null);
+    setRestoringId(jobId);
+    try {
+      await onRestoreOriginal(job);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
   // Handlers for custom controls
   const handleCpuChange = (val: number) => {
     setCpuLimit(val);
@@ -370,7 +398,13 @@ export default function ProcessingQueue({
                         title="Select job"
                         disabled={job.id === undefined || job.id === null}
                       />
-                      <div className="flex-1 space-y-2">
+                      <div
+                        className="flex-1 space-y-2"
+                        onClick={() => setTimelineJobId(
+                          timelineJobId === job.id ? null : job.id ?? null,
+                        )}
+                        title="Show pipeline stages"
+                      >
                         <h3 className="font-semibold text-white text-base">
                           {mediaFile?.file_name || 'Loading...'}
                         </h3>
@@ -395,6 +429,21 @@ export default function ProcessingQueue({
                           <Pause className="w-5 h-5" />
                         </Button>
                       )}
+                      {job.backup_id && onRestoreOriginal && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRestoreClick(job)}
+                          className={`rounded-full bg-slate-800 text-xs ${pendingRestoreId === job.id ? 'hover:bg-amber-800 text-amber-300' : 'hover:bg-slate-700 text-slate-200'}`}
+                          disabled={restoringId !== null}
+                          title="Put the original file back from its backup"
+                        >
+                          {restoringId === job.id ?
+                            <Loader2 className="w-4 h-4 mr-1 animate-spin" /> :
+                            <RotateCcw className="w-4 h-4 mr-1" />}
+                          {pendingRestoreId === job.id ? 'Confirm restore' : 'Restore original'}
+                        </Button>
+                      )}
                       {job.status === 'completed' && (
                         <Button
                           variant="ghost"
@@ -413,6 +462,14 @@ export default function ProcessingQueue({
             }}
           </VirtualList>
         )}
+        {timelineJob?.id !== undefined && (
+          <JobStageTimeline
+            jobId={timelineJob.id}
+            title={getMediaFile(timelineJob.media_file_id)?.file_name || `Job ${timelineJob.id}`}
+            refreshKey={`${timelineJob.status}-${timelineJob.updated_date}`}
+            onClose={() => setTimelineJobId(null)}
+          />
+        )}
       </CardContent>
     </Card>
   );
@@ -3,9 +3,9 @@ import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '@/componen
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Slider } from '../ui/slider';
-import { Check, X, SkipForward, Play, Scissors, Clapperboard, Clock } from 'lucide-react';
+import { Check, X, SkipForward, Play, Scissors, Clapperboard, Clock, History, ListOrdered } from 'lucide-react';
 import { motion } from 'framer-motion';
-import { ProcessingJob, MediaFile } from '@/components/entities/all';
+import { ProcessingJob, MediaFile, JobChapter, ProcessingJobEntity } from '@/components/entities/all';
 
 interface VideoPreviewProps {
   job: ProcessingJob | null;
@@ -60,7 +60,10 @@ const TimelineEditor = ({ title, icon: Icon, range, onRangeChange, totalDuration
 export default function VideoPreview({ job, mediaFile, onVerify, onUpdateTimestamps, onSkip }: VideoPreviewProps) {
   const [intro, setIntro] = useState<[number, number]>([0, 0]);
   const [credits, setCredits] = useState<[number, number]>([0, 0]);
+  const [recap, setRecap] = useState<[number, number]>([0, 0]);
   const [hasChanges, setHasChanges] = useState(false);
+  const [chapters, setChapters] = useState<JobChapter[] | null>(null);
+  const [chapterError, setChapterError] = useState<string | null>(null);
 
   const totalDuration = mediaFile?.duration || 1;
 
@@ -68,10 +71,27 @@ export default function VideoPreview({ job, mediaFile, onVerify, onUpdateTimesta
     if (job) {
       setIntro([job.intro_start || 0, job.intro_end || 0]);
       setCredits([job.credits_start || 0, job.credits_end || 0]);
+      setRecap([job.recap_start || 0, job.recap_end || 0]);
       setHasChanges(false);
+      setChapters(null);
+      setChapterError(null);
     }
   }, [job]);
 
+  // Dry run of chapter-marker output; nothing is written to the file
+  const handlePreviewChapters = async () => {
+    if (job?.id === undefined) {
+      return;
+    }
+    try {
+      setChapters(await ProcessingJobEntity.previewChapters(job.id));
+      setChapterError(null);
+    } catch {
+      setChapters(null);
+      setChapterError('No chapters available for this episode yet');
+    }
+  };
+
   const handleIntroChange = (newRange: [number, number]) => {
     setIntro(newRange);
     setHasChanges(true);
@@ -82,15 +102,23 @@ export default function VideoPreview({ job, mediaFile, onVerify, onUpdateTimesta
     setHasChanges(true);
   };
 
+  const handleRecapChange = (newRange: [number, number]) => {
+    setRecap(newRange);
+    setHasChanges(true);
+  };
+
   const handleSaveChanges = () => {
-    if (!job) {
+    if (job?.id === undefined) {
       return;
     }
-    onUpdateTimestamps(job.id!, {
+    onUpdateTimestamps(job.id, {
       intro_start: intro[0],
       intro_end: intro[1],
       credits_start: credits[0],
       credits_end: credits[1],
+      // An empty range means no recap to skip
+      recap_start: recap[1] > recap[0] ? recap[0] : null,
+      recap_end: recap[1] > recap[0] ? recap[1] : null,
     });
     setHasChanges(false);
   };
@@ -107,6 +135,8 @@ export default function VideoPreview({ job, mediaFile, onVerify, onUpdateTimesta
     );
   }
 
+  const jobId = job.id;
+
   return (
     <div className="h-full flex flex-col border border-gray-700/30 shadow-2xl bg-gray-800/30 rounded-2xl backdrop-blur-sm">
       <div className="p-6 border-b border-gray-700/30">
@@ -130,6 +160,14 @@ export default function VideoPreview({ job, mediaFile, onVerify, onUpdateTimesta
         </motion.div>
         {/* Timeline Editors */}
         <div className="space-y-8">
+          <TimelineEditor
+            title="Recap"
+            icon={History}
+            range={recap}
+            onRangeChange={handleRecapChange}
+            totalDuration={totalDuration}
+            color="bg-amber-500"
+          />
           <TimelineEditor
             title="Intro Sequence"
             icon={Play}
@@ -147,18 +185,48 @@ export default function VideoPreview({ job, mediaFile, onVerify, onUpdateTimesta
             color="bg-purple-500"
           />
         </div>
+        {(chapters || chapterError) && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm text-gray-200 font-medium">
+              <ListOrdered className="w-4 h-4" />
+              Chapter Preview
+            </div>
+            {!chapters ? (
+              <p className="text-sm text-gray-400">{chapterError}</p>
+            ) : (
+              <ol className="divide-y divide-gray-700/50 text-sm">
+                {chapters.map((chapter) => (
+                  <li key={chapter.start} className="flex justify-between py-1.5">
+                    <span className="text-gray-200">{chapter.title}</span>
+                    <span className="font-mono text-gray-400">
+                      {formatTime(chapter.start, totalDuration)} - {formatTime(chapter.end, totalDuration)}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        )}
       </div>
       <div className="flex justify-end items-center gap-4 p-6 pt-0 border-t border-gray-700/30">
         <Button variant="ghost" onClick={onSkip} className="text-gray-300">
           <SkipForward className="w-4 h-4 mr-2" />
           Skip
         </Button>
+        <Button variant="ghost" onClick={handlePreviewChapters} className="text-gray-300">
+          <ListOrdered className="w-4 h-4 mr-2" />
+          Preview Chapters
+        </Button>
         {hasChanges && (
           <Button variant="outline" onClick={handleSaveChanges} className="border-blue-700 text-blue-300">
             Save Changes
           </Button>
         )}
-        <Button onClick={() => onVerify(job.id!, true)} className="bg-emerald-700 hover:bg-emerald-800 text-white">
+        <Button
+          onClick={() => jobId !== undefined && onVerify(jobId, true)}
+          disabled={jobId === undefined}
+          className="bg-emerald-700 hover:bg-emerald-800 text-white"
+        >
           <Check className="w-4 h-4 mr-2" />
           Approve
         </Button>
@@ -4,7 +4,8 @@ import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
 import { dbLogger } from '../services/logger.js';
-import { STATEMENTS } from './Schema.mjs';
+import { STATEMENTS, COLUMN_MIGRATIONS } from './Schema.mjs';
+import { DEFAULT_PROCESSING_PROFILE } from '../services/processingProfiles.js';
 
 let dbInstance = null;
 
@@ -46,6 +47,14 @@ export async function getDatabaseSingleton(dbPath) {
         dbInstance.exec(stmt);
       }
 
+      // Add columns introduced after the table was created
+      for (const { table, column, definition } of COLUMN_MIGRATIONS) {
+        const columns = dbInstance.prepare(`PRAGMA table_info(${table})`).all();
+        if (!columns.some((col) => col.name === column)) {
+          dbInstance.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+        }
+      }
+
       // Check if settings table is empty
       const settingsCount = dbInstance
         .prepare('SELECT COUNT(*) as count FROM settings')
@@ -68,6 +77,23 @@ export async function getDatabaseSingleton(dbPath) {
           insertStmt.run(setting.key, setting.value);
         }
       }
+
+      // Seed a default processing profile on first run
+      const profileCount = dbInstance
+        .prepare('SELECT COUNT(*) as count FROM processing_profiles')
+        .get().count;
+      if (profileCount === 0) {
+        const now = new Date().toISOString();
+        dbInstance.prepare(`
+          INSERT INTO processing_profiles (
+            name, description, video_codec, audio_codec, container, quality_preset,
+            hardware_acceleration, target_bitrate, max_resolution, output_mode, is_default, created_date, updated_date
+          ) VALUES (
+            @name, @description, @video_codec, @audio_codec, @container, @quality_preset,
+            @hardware_acceleration, @target_bitrate, @max_resolution, @output_mode, 1, @now, @now
+          )
+        `).run({ ...DEFAULT_PROCESSING_PROFILE, now });
+      }
     });
 
     init();
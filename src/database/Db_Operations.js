@@ -129,6 +129,11 @@ function setSetting(db, key, value) {
   timedQuery(db, 'INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)', [key, value], 'run');
 }
 
+function deleteSetting(db, key) {
+  const result = timedQuery(db, 'DELETE FROM settings WHERE key = ?', [key], 'run');
+  return result.changes;
+}
+
 function withPerformanceLogging(name, fn) {
   const start = process.hrtime.bigint();
   try {
@@ -190,6 +195,327 @@ function setPollingInterval(db, interval) {
   }
 }
 
+// Full file by default: recaps are matched against earlier episodes' bodies, which windows leave out
+const SEARCH_WINDOW_DEFAULTS = { mode: 'full', headSec: 600, tailSec: 360 };
+const SHOW_SEARCH_WINDOW_PREFIX = 'search_windows_show_';
+
+function normalizeSearchWindows(windows) {
+  const clampSec = (value, fallback) => {
+    const parsed = parseInt(value, 10);
+    return Number.isFinite(parsed) ? Math.max(30, Math.min(3600, parsed)) : fallback;
+  };
+  return {
+    mode: windows.mode === 'full' ? 'full' : 'windows',
+    headSec: clampSec(windows.headSec, SEARCH_WINDOW_DEFAULTS.headSec),
+    tailSec: clampSec(windows.tailSec, SEARCH_WINDOW_DEFAULTS.tailSec),
+  };
+}
+
+// Global fingerprint search windows, or a show's override of them when showId is given
+function getSearchWindows(db, showId = null) {
+  const global = normalizeSearchWindows({
+    mode: getSetting(db, 'search_window_mode', SEARCH_WINDOW_DEFAULTS.mode),
+    headSec: getSetting(db, 'search_window_head_sec', SEARCH_WINDOW_DEFAULTS.headSec),
+    tailSec: getSetting(db, 'search_window_tail_sec', SEARCH_WINDOW_DEFAULTS.tailSec),
+  });
+  if (showId === null || showId === undefined) {
+    return { ...global, source: 'global' };
+  }
+
+  const raw = getSetting(db, SHOW_SEARCH_WINDOW_PREFIX + showId, null);
+  if (!raw) {
+    return { ...global, source: 'global' };
+  }
+  try {
+    return { ...normalizeSearchWindows({ ...global, ...JSON.parse(raw) }), source: 'show' };
+  } catch (error) {
+    dbLogger.warn({ showId, error: error.message }, 'Ignoring malformed show search window override');
+    return { ...global, source: 'global' };
+  }
+}
+
+function setShowSearchWindows(db, showId, windows) {
+  // Fields left out of the override keep the current global value
+  const provided = Object.fromEntries(Object.entries(windows).filter(([, value]) => value !== undefined));
+  const normalized = normalizeSearchWindows({ ...getSearchWindows(db), ...provided });
+  setSetting(db, SHOW_SEARCH_WINDOW_PREFIX + showId, JSON.stringify(normalized));
+  return normalized;
+}
+
+function deleteShowSearchWindows(db, showId) {
+  return deleteSetting(db, SHOW_SEARCH_WINDOW_PREFIX + showId);
+}
+
+function getShowSearchWindowOverrides(db) {
+  const rows = timedQuery(
+    db,
+    `SELECT s.key, s.value, sh.title
+     FROM settings s
+     LEFT JOIN shows sh ON sh.id = CAST(SUBSTR(s.key, ?) AS INTEGER)
+     WHERE s.key LIKE ?
+     ORDER BY sh.title`,
+    [SHOW_SEARCH_WINDOW_PREFIX.length + 1, SHOW_SEARCH_WINDOW_PREFIX + '%'],
+    'all',
+  );
+  return rows.map((row) => ({
+    showId: parseInt(row.key.slice(SHOW_SEARCH_WINDOW_PREFIX.length), 10),
+    title: row.title,
+    ...getSearchWindows(db, row.key.slice(SHOW_SEARCH_WINDOW_PREFIX.length)),
+  }));
+}
+
+const SHOW_AUDIO_TRACK_PREFIX = 'audio_track_show_';
+
+function normalizeAudioTrack(preference) {
+  const language = String(preference.language || '').trim().toLowerCase();
+  const trackIndex = parseInt(preference.trackIndex, 10);
+  return {
+    language: /^[a-z]{2,3}$/.test(language) ? language : '',
+    trackIndex: Number.isFinite(trackIndex) && trackIndex >= 0 ? trackIndex : null,
+  };
+}
+
+// Preferred audio language for fingerprinting, or a show's language/track override when showId is given
+function getAudioTrackPreference(db, showId = null) {
+  const global = normalizeAudioTrack({ language: getSetting(db, 'preferred_audio_language', '') });
+  if (showId === null || showId === undefined) {
+    return { ...global, source: 'global' };
+  }
+
+  const raw = getSetting(db, SHOW_AUDIO_TRACK_PREFIX + showId, null);
+  if (!raw) {
+    return { ...global, source: 'global' };
+  }
+  try {
+    const override = normalizeAudioTrack(JSON.parse(raw));
+    return { language: override.language || global.language, trackIndex: override.trackIndex, source: 'show' };
+  } catch (error) {
+    dbLogger.warn({ showId, error: error.message }, 'Ignoring malformed show audio track override');
+    return { ...global, source: 'global' };
+  }
+}
+
+function setShowAudioTrackPreference(db, showId, preference) {
+  const normalized = normalizeAudioTrack(preference);
+  setSetting(db, SHOW_AUDIO_TRACK_PREFIX + showId, JSON.stringify(normalized));
+  return normalized;
+}
+
+function deleteShowAudioTrackPreference(db, showId) {
+  return deleteSetting(db, SHOW_AUDIO_TRACK_PREFIX + showId);
+}
+
+function getShowAudioTrackOverrides(db) {
+  const rows = timedQuery(
+    db,
+    `SELECT s.key, s.value, sh.title
+     FROM settings s
+     LEFT JOIN shows sh ON sh.id = CAST(SUBSTR(s.key, ?) AS INTEGER)
+     WHERE s.key LIKE ?
+     ORDER BY sh.title`,
+    [SHOW_AUDIO_TRACK_PREFIX.length + 1, SHOW_AUDIO_TRACK_PREFIX + '%'],
+    'all',
+  );
+  return rows.map((row) => ({
+    showId: parseInt(row.key.slice(SHOW_AUDIO_TRACK_PREFIX.length), 10),
+    title: row.title,
+    ...getAudioTrackPreference(db, row.key.slice(SHOW_AUDIO_TRACK_PREFIX.length)),
+  }));
+}
+
+// Ordered path mapping rules, one set per integration (sonarr, jellyfin, ...)
+function getPathMappings(db, integration = null) {
+  if (integration) {
+    return timedQuery(
+      db,
+      'SELECT * FROM path_mappings WHERE integration = ? ORDER BY position, id',
+      [integration],
+      'all',
+    );
+  }
+  return timedQuery(db, 'SELECT * FROM path_mappings ORDER BY integration, position, id', [], 'all');
+}
+
+function replacePathMappings(db, integration, rules) {
+  const insert = db.prepare(
+    'INSERT INTO path_mappings (integration, from_prefix, to_prefix, position) VALUES (?, ?, ?, ?)',
+  );
+  db.transaction(() => {
+    db.prepare('DELETE FROM path_mappings WHERE integration = ?').run(integration);
+    rules.forEach((rule, position) => insert.run(integration, rule.from_prefix, rule.to_prefix, position));
+  })();
+  return getPathMappings(db, integration);
+}
+
+// Processing profiles; exactly one is the default and it can't be deleted
+const PROCESSING_PROFILE_FIELDS = [
+  'name', 'description', 'video_codec', 'audio_codec', 'container', 'quality_preset',
+  'hardware_acceleration', 'target_bitrate', 'max_resolution', 'output_mode',
+];
+
+function getProcessingProfiles(db) {
+  return timedQuery(db, 'SELECT * FROM processing_profiles ORDER BY is_default DESC, name COLLATE NOCASE', [], 'all');
+}
+
+function getProcessingProfileById(db, profileId) {
+  return timedQuery(db, 'SELECT * FROM processing_profiles WHERE id = ?', [profileId], 'get');
+}
+
+function createProcessingProfile(db, profile) {
+  const now = new Date().toISOString();
+  const fields = PROCESSING_PROFILE_FIELDS.filter((field) => profile[field] !== undefined);
+  const result = timedQuery(
+    db,
+    `INSERT INTO processing_profiles (${fields.join(', ')}, created_date, updated_date)
+     VALUES (${fields.map(() => '?').join(', ')}, ?, ?)`,
+    [...fields.map((field) => profile[field]), now, now],
+    'run',
+  );
+  return getProcessingProfileById(db, result.lastInsertRowid);
+}
+
+function updateProcessingProfile(db, profileId, updateData) {
+  const fields = PROCESSING_PROFILE_FIELDS.filter((field) => updateData[field] !== undefined);
+  if (fields.length === 0) {
+    throw new Error('No valid fields to update');
+  }
+  timedQuery(
+    db,
+    `UPDATE processing_profiles SET ${fields.map((field) => `${field} = ?`).join(', ')}, updated_date = ? WHERE id = ?`,
+    [...fields.map((field) => updateData[field]), new Date().toISOString(), profileId],
+    'run',
+  );
+  return getProcessingProfileById(db, profileId);
+}
+
+function deleteProcessingProfile(db, profileId) {
+  return db.transaction(() => {
+    // Jobs that used the profile fall back to the default behaviour
+    db.prepare('UPDATE processing_jobs SET profile_id = NULL WHERE profile_id = ?').run(profileId);
+    return db.prepare('DELETE FROM processing_profiles WHERE id = ? AND is_default = 0').run(profileId).changes;
+  })();
+}
+
+const EPISODE_BACKUP_SELECT = `
+  SELECT
+    eb.*,
+    e.title as episode_title,
+    e.episode_number,
+    s.season_number,
+    sh.id as show_id,
+    sh.title as show_title,
+    sh.path as show_path
+  FROM episode_backups eb
+  JOIN episode_files ef ON eb.episode_file_id = ef.id
+  JOIN episodes e ON ef.episode_id = e.id
+  JOIN seasons s ON e.season_id = s.id
+  JOIN shows sh ON s.show_id = sh.id
+`;
+
+function createEpisodeBackup(db, backup) {
+  const result = timedQuery(
+    db,
+    `INSERT INTO episode_backups (episode_file_id, job_id, original_path, backup_path, checksum, size, status, created_date)
+     VALUES (?, ?, ?, ?, ?, ?, 'active', ?)`,
+    [backup.episode_file_id, backup.job_id ?? null, backup.original_path, backup.backup_path, backup.checksum,
+      backup.size ?? null, new Date().toISOString()],
+    'run',
+  );
+  return getEpisodeBackupById(db, result.lastInsertRowid);
+}
+
+function getEpisodeBackupById(db, backupId) {
+  return timedQuery(db, `${EPISODE_BACKUP_SELECT} WHERE eb.id = ?`, [backupId], 'get');
+}
+
+// Filter by episode file, show and season number, status, backup path, or created before a date
+function getEpisodeBackups(db, filters = {}) {
+  const conditions = [];
+  const params = [];
+  const columns = {
+    episodeFileId: 'eb.episode_file_id',
+    showId: 'sh.id',
+    seasonNumber: 's.season_number',
+    status: 'eb.status',
+    backupPath: 'eb.backup_path',
+  };
+  for (const [filter, column] of Object.entries(columns)) {
+    if (filters[filter] !== undefined) {
+      conditions.push(`${column} = ?`);
+      params.push(filters[filter]);
+    }
+  }
+  if (filters.createdBefore) {
+    conditions.push('eb.created_date < ?');
+    params.push(filters.createdBefore);
+  }
+  const where = conditions.length ? ` WHERE ${conditions.join(' AND ')}` : '';
+  return timedQuery(db, `${EPISODE_BACKUP_SELECT}${where} ORDER BY eb.created_date DESC`, params, 'all');
+}
+
+function setEpisodeBackupStatus(db, backupId, status) {
+  timedQuery(
+    db,
+    'UPDATE episode_backups SET status = ?, restored_date = ? WHERE id = ?',
+    [status, status === 'restored' ? new Date().toISOString() : null, backupId],
+    'run',
+  );
+}
+
+// One row per job and pipeline stage; a rerun of the stage bumps attempts and restarts its timing
+function startProcessingJobStage(db, jobId, stage, { queue = null, workerId = null } = {}) {
+  timedQuery(
+    db,
+    `INSERT INTO processing_job_stages (job_id, stage, queue, status, attempts, worker_id, started_at)
+     VALUES (?, ?, ?, 'running', 1, ?, ?)
+     ON CONFLICT(job_id, stage) DO UPDATE SET
+       queue = excluded.queue,
+       status = 'running',
+       attempts = attempts + 1,
+       worker_id = excluded.worker_id,
+       started_at = excluded.started_at,
+       finished_at = NULL,
+       error = NULL`,
+    [jobId, stage, queue, workerId, new Date().toISOString()],
+    'run',
+  );
+}
+
+function finishProcessingJobStage(db, jobId, stage, { status, error = null }) {
+  timedQuery(
+    db,
+    'UPDATE processing_job_stages SET status = ?, finished_at = ?, error = ? WHERE job_id = ? AND stage = ?',
+    [status, new Date().toISOString(), error, jobId, stage],
+    'run',
+  );
+}
+
+function getProcessingJobStages(db, jobId) {
+  return timedQuery(db, 'SELECT * FROM processing_job_stages WHERE job_id = ? ORDER BY started_at, id', [jobId], 'all');
+}
+
+// Active backups per show and season, for the disk usage summary
+function getEpisodeBackupUsage(db) {
+  const sql = `
+    SELECT
+      sh.id as show_id,
+      sh.title as show_title,
+      s.season_number,
+      COUNT(*) as count,
+      COALESCE(SUM(eb.size), 0) as size,
+      MIN(eb.created_date) as oldest
+    FROM episode_backups eb
+    JOIN episode_files ef ON eb.episode_file_id = ef.id
+    JOIN episodes e ON ef.episode_id = e.id
+    JOIN seasons s ON e.season_id = s.id
+    JOIN shows sh ON s.show_id = sh.id
+    WHERE eb.status = 'active'
+    GROUP BY sh.id, s.season_number
+    ORDER BY sh.title COLLATE NOCASE, s.season_number
+  `;
+  return timedQuery(db, sql, [], 'all');
+}
+
 // In-memory query performance log
 const recentQueries = [];
 const MAX_RECENT = 100;
@@ -401,7 +727,13 @@ function getProcessingJobs(db, options = {}) {
       e.title as episode_title,
       e.episode_number,
       s.season_number,
-      sh.title as show_title
+      sh.id as show_id,
+      sh.title as show_title,
+      (
+        SELECT eb.id FROM episode_backups eb
+        WHERE eb.episode_file_id = pj.media_file_id AND eb.status = 'active'
+        ORDER BY eb.id DESC LIMIT 1
+      ) as backup_id
     FROM processing_jobs pj
     JOIN episode_files ef ON pj.media_file_id = ef.id
     JOIN episodes e ON ef.episode_id = e.id
@@ -438,7 +770,13 @@ function getProcessingJobById(db, jobId) {
       e.title as episode_title,
       e.episode_number,
       s.season_number,
-      sh.title as show_title
+      sh.id as show_id,
+      sh.title as show_title,
+      (
+        SELECT eb.id FROM episode_backups eb
+        WHERE eb.episode_file_id = pj.media_file_id AND eb.status = 'active'
+        ORDER BY eb.id DESC LIMIT 1
+      ) as backup_id
     FROM processing_jobs pj
     JOIN episode_files ef ON pj.media_file_id = ef.id
     JOIN episodes e ON ef.episode_id = e.id
@@ -453,7 +791,8 @@ function getProcessingJobById(db, jobId) {
 function updateProcessingJob(db, jobId, updateData) {
   const allowedFields = [
     'status', 'confidence_score', 'intro_start', 'intro_end',
-    'credits_start', 'credits_end', 'manual_verified', 'processing_notes',
+    'credits_start', 'credits_end', 'recap_start', 'recap_end', 'manual_verified', 'processing_notes',
+    'profile_id', 'output_path', 'output_mode',
   ];
 
   const updates = [];
@@ -544,6 +883,16 @@ function getEpisodeFileById(db, fileId) {
   );
 }
 
+// Point an episode file at its new path, after trimming in place changed its container
+function updateEpisodeFilePath(db, fileId, filePath) {
+  return timedQuery(
+    db,
+    'UPDATE episode_files SET file_path = ? WHERE id = ?',
+    [filePath, fileId],
+    'run',
+  ).changes;
+}
+
 // Get episode file IDs for specific shows
 function getEpisodeFileIdsForShows(db, showIds) {
   if (!Array.isArray(showIds) || showIds.length === 0) {
@@ -610,11 +959,35 @@ export {
   getImportedShows,
   getSetting,
   setSetting,
+  deleteSetting,
   withPerformanceLogging,
   getImportMode,
   setImportMode,
   getPollingInterval,
   setPollingInterval,
+  getSearchWindows,
+  setShowSearchWindows,
+  deleteShowSearchWindows,
+  getShowSearchWindowOverrides,
+  getAudioTrackPreference,
+  setShowAudioTrackPreference,
+  deleteShowAudioTrackPreference,
+  getShowAudioTrackOverrides,
+  getPathMappings,
+  replacePathMappings,
+  getProcessingProfiles,
+  getProcessingProfileById,
+  createProcessingProfile,
+  updateProcessingProfile,
+  deleteProcessingProfile,
+  createEpisodeBackup,
+  getEpisodeBackupById,
+  getEpisodeBackups,
+  setEpisodeBackupStatus,
+  getEpisodeBackupUsage,
+  startProcessingJobStage,
+  finishProcessingJobStage,
+  getProcessingJobStages,
   getPerformanceStats,
   timedQuery,
   getShowById,
@@ -628,6 +1001,7 @@ export {
   getShowWithDetails,
   getEpisodeFiles,
   getEpisodeFileById,
+  updateEpisodeFilePath,
   getEpisodeFileIdsForShows,
   deleteProcessingJob,
   getEpisodeFileIdAndJobIdForShows,
@@ -48,8 +48,12 @@ const STATEMENTS = [
       intro_end REAL,
       credits_start REAL,
       credits_end REAL,
+      recap_start REAL,
+      recap_end REAL,
       manual_verified BOOLEAN DEFAULT 0,
       processing_notes TEXT,
+      output_path TEXT,
+      output_mode TEXT,
       created_date TEXT,
       updated_date TEXT,
       FOREIGN KEY (media_file_id) REFERENCES episode_files(id) ON DELETE CASCADE
@@ -59,6 +63,61 @@ const STATEMENTS = [
       key TEXT PRIMARY KEY,
       value TEXT
     )`,
+    `
+    CREATE TABLE IF NOT EXISTS path_mappings (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      integration TEXT NOT NULL,
+      from_prefix TEXT NOT NULL,
+      to_prefix TEXT NOT NULL,
+      position INTEGER NOT NULL DEFAULT 0
+    )`,
+    `
+    CREATE TABLE IF NOT EXISTS processing_profiles (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE,
+      description TEXT,
+      video_codec TEXT NOT NULL DEFAULT 'copy',
+      audio_codec TEXT NOT NULL DEFAULT 'copy',
+      container TEXT NOT NULL DEFAULT 'mkv',
+      quality_preset TEXT NOT NULL DEFAULT 'medium',
+      hardware_acceleration TEXT NOT NULL DEFAULT 'none',
+      target_bitrate INTEGER NOT NULL DEFAULT 0,
+      max_resolution TEXT NOT NULL DEFAULT 'original',
+      output_mode TEXT,
+      is_default BOOLEAN DEFAULT 0,
+      created_date TEXT,
+      updated_date TEXT
+    )`,
+    `
+    CREATE TABLE IF NOT EXISTS episode_backups (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      episode_file_id INTEGER NOT NULL,
+      job_id INTEGER,
+      original_path TEXT NOT NULL,
+      backup_path TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      size INTEGER,
+      status TEXT NOT NULL DEFAULT 'active',
+      created_date TEXT,
+      restored_date TEXT,
+      FOREIGN KEY (episode_file_id) REFERENCES episode_files(id) ON DELETE CASCADE,
+      FOREIGN KEY (job_id) REFERENCES processing_jobs(id) ON DELETE SET NULL
+    )`,
+    `
+    CREATE TABLE IF NOT EXISTS processing_job_stages (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      job_id INTEGER NOT NULL,
+      stage TEXT NOT NULL,
+      queue TEXT,
+      status TEXT NOT NULL DEFAULT 'running',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      worker_id TEXT,
+      started_at TEXT,
+      finished_at TEXT,
+      error TEXT,
+      FOREIGN KEY (job_id) REFERENCES processing_jobs(id) ON DELETE CASCADE,
+      UNIQUE(job_id, stage)
+    )`,
   
     // indexes
     `CREATE INDEX IF NOT EXISTS idx_shows_title            ON shows(title COLLATE NOCASE)`,
@@ -67,11 +126,22 @@ const STATEMENTS = [
     `CREATE INDEX IF NOT EXISTS idx_episode_files_episode_id ON episode_files(episode_id)`,
     `CREATE INDEX IF NOT EXISTS idx_processing_jobs_status ON processing_jobs(status)`,
     `CREATE INDEX IF NOT EXISTS idx_processing_jobs_media_file_id ON processing_jobs(media_file_id)`,
-    `CREATE INDEX IF NOT EXISTS idx_processing_jobs_created_date ON processing_jobs(created_date)`
+    `CREATE INDEX IF NOT EXISTS idx_processing_jobs_created_date ON processing_jobs(created_date)`,
+    `CREATE INDEX IF NOT EXISTS idx_path_mappings_integration ON path_mappings(integration, position)`,
+    `CREATE INDEX IF NOT EXISTS idx_episode_backups_episode_file_id ON episode_backups(episode_file_id, status)`
   ];
   
-  // 2) Export both the raw list and a helper to get them:
-  export { STATEMENTS };
+  // 2) Columns added after a table was first created; applied when missing
+  const COLUMN_MIGRATIONS = [
+    { table: 'processing_jobs', column: 'recap_start', definition: 'REAL' },
+    { table: 'processing_jobs', column: 'recap_end', definition: 'REAL' },
+    // Where the last processing run wrote its output, and whether it trimmed or wrote chapters
+    { table: 'processing_jobs', column: 'output_path', definition: 'TEXT' },
+    { table: 'processing_jobs', column: 'output_mode', definition: 'TEXT' },
+  ];
+
+  // 3) Export both the raw lists and a helper to get them:
+  export { STATEMENTS, COLUMN_MIGRATIONS };
   export default {
     getAll: () => STATEMENTS
   };
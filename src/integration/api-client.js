@@ -143,6 +143,103 @@ class ApiClient {
     return response.data;
   }
 
+  async getSearchWindowOverrides() {
+    const response = await api.get('/settings/search-windows/shows');
+    return response.data;
+  }
+
+  async setShowSearchWindows(showId, windows) {
+    const response = await api.put(`/settings/search-windows/shows/${showId}`, windows);
+    return response.data;
+  }
+
+  async deleteShowSearchWindows(showId) {
+    const response = await api.delete(`/settings/search-windows/shows/${showId}`);
+    return response.data;
+  }
+
+  async getAudioTrackOverrides() {
+    const response = await api.get('/settings/audio-tracks/shows');
+    return response.data;
+  }
+
+  async getShowAudioStreams(showId) {
+    const response = await api.get(`/settings/audio-tracks/shows/${showId}/streams`);
+    return response.data;
+  }
+
+  async setShowAudioTrack(showId, preference) {
+    const response = await api.put(`/settings/audio-tracks/shows/${showId}`, preference);
+    return response.data;
+  }
+
+  async deleteShowAudioTrack(showId) {
+    const response = await api.delete(`/settings/audio-tracks/shows/${showId}`);
+    return response.data;
+  }
+
+  async getPathMappings() {
+    const response = await api.get('/settings/path-mappings');
+    return response.data;
+  }
+
+  async setPathMappings(integration, rules) {
+    const response = await api.put(`/settings/path-mappings/${integration}`, { rules });
+    return response.data;
+  }
+
+  async testPathMapping(integration, path) {
+    const response = await api.post('/settings/path-mappings/test', { integration, path });
+    return response.data;
+  }
+
+  async getShowSegmentRules(showId) {
+    const response = await api.get(`/settings/segment-rules/shows/${showId}`);
+    return response.data;
+  }
+
+  async setShowSegmentRules(showId, rules) {
+    const response = await api.put(`/settings/segment-rules/shows/${showId}`, rules);
+    return response.data;
+  }
+
+  async deleteShowSegmentRules(showId) {
+    const response = await api.delete(`/settings/segment-rules/shows/${showId}`);
+    return response.data;
+  }
+
+  async getShowTemplates(showId) {
+    const response = await api.get(`/shows/${showId}/templates`);
+    return response.data;
+  }
+
+  async deleteShowTemplates(showId, seasonNumber = null) {
+    const params = seasonNumber !== null ? { season: seasonNumber } : {};
+    const response = await api.delete(`/shows/${showId}/templates`, { params });
+    return response.data;
+  }
+
+  async exportShowSidecars(showId, seasonNumber = null) {
+    const params = seasonNumber !== null ? { season: seasonNumber } : {};
+    const response = await api.post(`/shows/${showId}/sidecars`, null, { params });
+    return response.data;
+  }
+
+  async getLibraryIdents() {
+    const response = await api.get('/shows/idents');
+    return response.data;
+  }
+
+  async detectLibraryIdents(options = {}) {
+    const response = await api.post('/shows/idents/detect', options);
+    return response.data;
+  }
+
+  async deleteLibraryIdent(identId) {
+    const response = await api.delete(`/shows/idents/${identId}`);
+    return response.data;
+  }
+
   async deleteShows(ids) {
     const response = await api.post('/shows/delete', { ids });
     return response.data;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -18,6 +18,7 @@ import ProcessingProfiles from '../components/ProcessingProfiles';
 import PerformanceBenchmark from '../components/PerformanceBenchmark';
 import { apiClient } from '../integration/api-client';
 import { wsClient } from '../services/websocket.frontend';
+import { ProcessingProfile, ProcessingProfileEntity } from '../components/entities/all';
 
 interface HardwareInfo {
   [key: string]: any;
@@ -46,7 +47,7 @@ interface Progress {
 
 export default function Hardware() {
   const [hardwareInfo, setHardwareInfo] = useState<HardwareInfo | null>(null);
-  const [profiles, setProfiles] = useState<any[]>([]);
+  const [profiles, setProfiles] = useState<ProcessingProfile[]>([]);
   const [isDetecting, setIsDetecting] = useState<boolean>(false);
   const [benchmarkResults, setBenchmarkResults] = useState<BenchmarkResults | null>(null);
   const [isBenchmarking, setIsBenchmarking] = useState<boolean>(false);
@@ -54,7 +55,11 @@ export default function Hardware() {
   const [progress, setProgress] = useState<Progress | null>(null);
   const progressRef = useRef<Progress | null>(null);
 
-  // On first load, fetch cached hardware info and benchmark results
+  const loadProfiles = useCallback(async () => {
+    setProfiles(await ProcessingProfileEntity.list());
+  }, []);
+
+  // On first load, fetch cached hardware info, benchmark results and profiles
   useEffect(() => {
     const loadInitialData = async () => {
       setError(null);
@@ -75,10 +80,10 @@ export default function Hardware() {
       } catch (e) {
         setBenchmarkResults(null);
       }
-      setProfiles([]); // Profiles not implemented yet
+      await loadProfiles();
     };
     loadInitialData();
-  }, []);
+  }, [loadProfiles]);
 
   useEffect(() => {
     // Listen for benchmark progress events
@@ -194,7 +199,7 @@ export default function Hardware() {
           <ProcessingProfiles
             profiles={profiles}
             hardwareInfo={hardwareInfo}
-            onRefresh={() => { /* intentionally left blank */ }}
+            onRefresh={loadProfiles}
           />
         </div>
 
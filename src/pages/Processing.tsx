@@ -2,10 +2,14 @@ import React, { useState, useEffect, useCallback } from 'react';
 import {
   ProcessingJob,
   ProcessingJobEntity,
+  ProcessingProfile,
+  ProcessingProfileEntity,
   MediaFile,
   MediaFileEntity,
   AudioAnalysis,
   AudioAnalysisEntity,
+  EpisodeBackupEntity,
+  describeRestore,
 } from '@/components/entities/all';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -14,6 +18,7 @@ import AudioAnalyzer from '../components/processing/AudioAnalyzer';
 import ProcessingMonitor from '../components/processing/ProcessingMonitor';
 import BatchProcessor from '../components/processing/BatchProcessor';
 import QueueStatus from '../components/processing/QueueStatus';
+import BackupSummary from '../components/processing/BackupSummary';
 import { wsClient } from '../services/websocket.frontend.js';
 import { useToast } from '../components/ToastContext';
 import { Trash2 } from 'lucide-react';
@@ -42,6 +47,7 @@ interface QueueStatusType {
 export default function Processing() {
   const [jobs, setJobs] = useState<ProcessingJob[]>([]);
   const [mediaFiles, setMediaFiles] = useState<MediaFile[]>([]);
+  const [profiles, setProfiles] = useState<ProcessingProfile[]>([]);
   const [audioAnalyses, setAudioAnalyses] = useState<AudioAnalysis[]>([]);
   const [activeProcesses, setActiveProcesses] = useState<ProcessingJob[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
@@ -49,19 +55,22 @@ export default function Processing() {
   const [queueStatus, setQueueStatus] = useState<QueueStatusType[] | null>(null);
   const [selected, setSelected] = useState<(string | number)[]>([]);
   const [bulkDeleteLoading, setBulkDeleteLoading] = useState(false);
+  const [backupReloadKey, setBackupReloadKey] = useState(0);
   const toast = useToast();
   const [jobProgress, setJobProgress] = useState<Record<string, { progress: number, fps: number, currentFile: CurrentFile, updated: number }>>({});
 
   const loadData = useCallback(async () => {
     setIsLoading(true);
     try {
-      const [jobsData, filesData, audioData] = await Promise.all([
+      const [jobsData, filesData, audioData, profilesData] = await Promise.all([
         ProcessingJobEntity.list('-created_date'),
         MediaFileEntity.list('-created_date'),
         AudioAnalysisEntity.list('-created_date', 20),
+        ProcessingProfileEntity.list(),
       ]);
       setJobs(jobsData);
       setMediaFiles(filesData);
+      setProfiles(profilesData);
       setAudioAnalyses(audioData);
       const processing = jobsData.filter(
         (j: ProcessingJob) => j.status === 'processing' || j.status === 'scanning',
@@ -71,6 +80,7 @@ export default function Processing() {
       console.error('Error loading processing data:');
     } finally {
       setIsLoading(false);
+      setBackupReloadKey((key) => key + 1);
     }
   }, []);
 
@@ -291,14 +301,9 @@ export default function Processing() {
     profileId: string | number,
   ) => {
     try {
-      await Promise.all(
-        jobIds.map((id) =>
-          ProcessingJobEntity.update(id, {
-            status: 'processing',
-            processing_notes: `Batch processing started with profile ${profileId}`,
-          }),
-        ),
-      );
+      // "auto" leaves each job's profile as is; the trim worker moves it to processing and then completed or failed
+      const assignedProfile = profileId === 'auto' ? undefined : profileId;
+      await Promise.all(jobIds.map((id) => ProcessingJobEntity.trim(id, assignedProfile)));
       await loadData();
     } catch {
       console.error('Error starting batch processing:');
@@ -317,6 +322,18 @@ export default function Processing() {
     }
   };
 
+  // Put a processed episode's original back from its backup
+  const handleRestoreOriginal = async (job: ProcessingJob) => {
+    try {
+      const result = await EpisodeBackupEntity.restoreEpisode(job.media_file_id);
+      toast({ type: result.success ? 'success' : 'error', message: describeRestore(result) });
+      await loadData();
+    } catch (error) {
+      const message = (error as { response?: { data?: { error?: string } } })?.response?.data?.error;
+      toast({ type: 'error', message: message || 'Failed to restore original' });
+    }
+  };
+
   // Update handleDeleteJob to use selected
   const handleDeleteJob = async (jobId: string | number) => {
     try {
@@ -496,6 +513,7 @@ export default function Processing() {
                   )}
                 </CardContent>
               </Card>
+              <BackupSummary reloadKey={backupReloadKey} onRestored={loadData} />
             </div>
           </div>
 
@@ -514,10 +532,11 @@ export default function Processing() {
                   <ProcessingQueue
                     jobs={jobs}
                     mediaFiles={mediaFiles}
-                    profiles={[]} // Removed profiles prop
+                    profiles={profiles}
                     onStopProcessing={stopProcessing}
                     isLoading={isLoading}
                     onDeleteJob={handleDeleteJob}
+                    onRestoreOriginal={handleRestoreOriginal}
                     selected={selected}
                     setSelected={setSelected}
                     onBulkDelete={handleBulkDelete}
@@ -552,7 +571,7 @@ export default function Processing() {
                   <BatchProcessor
                     jobs={jobs}
                     mediaFiles={mediaFiles}
-                    profiles={[]} // Removed profiles prop
+                    profiles={profiles}
                     onStartBatch={startBatchProcessing}
                   />
                 </div>
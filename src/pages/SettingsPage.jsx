@@ -8,11 +8,16 @@ import { useToast } from '../components/ToastContext';
 import { apiClient } from '../integration/api-client';
 import { Card, CardHeader, CardContent, CardTitle } from '@/components/ui/card';
 import FolderPickerModal from '../components/FolderPickerModal';
+import SearchWindowOverrides from '../components/SearchWindowOverrides';
+import LibraryIdents from '../components/LibraryIdents';
+import AudioTrackOverrides from '../components/AudioTrackOverrides';
+import PathMappings from '../components/PathMappings';
 
 const defaultSettings = {
   sonarr_url: '',
   sonarr_api_key: '',
   output_directory: '',
+  output_mode: 'trim',
   min_confidence_threshold: 0.8,
   backup_originals: true,
   auto_process_verified: false,
@@ -22,8 +27,43 @@ const defaultSettings = {
   temp_dir: '',
   cpu_worker_limit: 2,
   gpu_worker_limit: 1,
+  boundary_refinement_enabled: true,
+  boundary_refinement_tolerance: 3,
+  fingerprint_backend: 'inprocess',
+  search_window_mode: 'full',
+  search_window_head_sec: 600,
+  search_window_tail_sec: 360,
+  preferred_audio_language: '',
+  segment_templates_enabled: true,
+  skip_idents: false,
+  sidecar_formats: 'edl,json',
+  sidecar_edl_action: '3',
+  sidecar_auto_export: false,
+  segment_rules: {
+    introMinSec: 10,
+    introMaxSec: 150,
+    introMaxStartSec: 600,
+    creditsMinSec: 10,
+    creditsMaxSec: 600,
+    creditsMaxEndGapSec: 180,
+  },
 };
 
+const SEGMENT_RULE_FIELDS = [
+  { key: 'introMinSec', label: 'Intro min length' },
+  { key: 'introMaxSec', label: 'Intro max length' },
+  { key: 'introMaxStartSec', label: 'Intro latest start' },
+  { key: 'creditsMinSec', label: 'Credits min length' },
+  { key: 'creditsMaxSec', label: 'Credits max length' },
+  { key: 'creditsMaxEndGapSec', label: 'Credits max gap to end' },
+];
+
+const SIDECAR_FORMAT_OPTIONS = [
+  { value: 'edl', label: '.edl' },
+  { value: 'json', label: 'Cliparr JSON' },
+  { value: 'chapters', label: 'chapters.xml' },
+];
+
 const maskApiKey = (key) => {
   if (!key) {
     return '';
@@ -65,6 +105,16 @@ const Settings2Page = () => {
           temp_dir: data.temp_dir || '',
           cpu_worker_limit: parseInt(data.cpu_worker_limit, 10) || 2,
           gpu_worker_limit: parseInt(data.gpu_worker_limit, 10) || 1,
+          boundary_refinement_enabled:
+            data.boundary_refinement_enabled === '1' || data.boundary_refinement_enabled === true,
+          boundary_refinement_tolerance: parseFloat(data.boundary_refinement_tolerance) || 3,
+          search_window_head_sec: parseInt(data.search_window_head_sec, 10) || 600,
+          search_window_tail_sec: parseInt(data.search_window_tail_sec, 10) || 360,
+          preferred_audio_language: data.preferred_audio_language || '',
+          segment_templates_enabled:
+            data.segment_templates_enabled === '1' || data.segment_templates_enabled === true,
+          skip_idents: data.skip_idents === '1' || data.skip_idents === true,
+          sidecar_auto_export: data.sidecar_auto_export === '1' || data.sidecar_auto_export === true,
         });
         setPending({
           ...defaultSettings,
@@ -79,6 +129,16 @@ const Settings2Page = () => {
           temp_dir: data.temp_dir || '',
           cpu_worker_limit: parseInt(data.cpu_worker_limit, 10) || 2,
           gpu_worker_limit: parseInt(data.gpu_worker_limit, 10) || 1,
+          boundary_refinement_enabled:
+            data.boundary_refinement_enabled === '1' || data.boundary_refinement_enabled === true,
+          boundary_refinement_tolerance: parseFloat(data.boundary_refinement_tolerance) || 3,
+          search_window_head_sec: parseInt(data.search_window_head_sec, 10) || 600,
+          search_window_tail_sec: parseInt(data.search_window_tail_sec, 10) || 360,
+          preferred_audio_language: data.preferred_audio_language || '',
+          segment_templates_enabled:
+            data.segment_templates_enabled === '1' || data.segment_templates_enabled === true,
+          skip_idents: data.skip_idents === '1' || data.skip_idents === true,
+          sidecar_auto_export: data.sidecar_auto_export === '1' || data.sidecar_auto_export === true,
         });
       } catch (err) {
         toast({ type: 'error', message: 'Failed to load settings' });
@@ -113,6 +173,17 @@ const Settings2Page = () => {
     setPending((prev) => ({ ...prev, [key]: value }));
   };
 
+  const handleSidecarFormatChange = (format, enabled) => {
+    setPending((prev) => {
+      const formats = prev.sidecar_formats.split(',').filter((f) => f && f !== format);
+      return { ...prev, sidecar_formats: (enabled ? [...formats, format] : formats).join(',') };
+    });
+  };
+
+  const handleRuleChange = (key, value) => {
+    setPending((prev) => ({ ...prev, segment_rules: { ...prev.segment_rules, [key]: value } }));
+  };
+
   const handleSave = useCallback(async () => {
     if (!tempDirValid) {
       toast({ type: 'error', message: 'Please fix the temp directory before saving.' });
@@ -130,6 +201,10 @@ const Settings2Page = () => {
         backup_originals: pending.backup_originals ? 1 : 0,
         auto_process_verified: pending.auto_process_verified ? 1 : 0,
         auto_process_detections: pending.auto_process_detections ? 1 : 0,
+        boundary_refinement_enabled: pending.boundary_refinement_enabled ? 1 : 0,
+        segment_templates_enabled: pending.segment_templates_enabled ? 1 : 0,
+        skip_idents: pending.skip_idents ? 1 : 0,
+        sidecar_auto_export: pending.sidecar_auto_export ? 1 : 0,
       });
       setSettings({ ...pending });
       setApiKeyEdited(false);
@@ -263,6 +338,13 @@ const Settings2Page = () => {
                   </button>
                 </div>
               </div>
+              <div className="mt-4">
+                <label className="block font-semibold text-gray-200 mb-1">Path Mappings</label>
+                <p className="text-sm text-gray-400 mb-2">
+                  Rewrite path prefixes from Sonarr and media servers to where Cliparr sees the files. Rules are tried in order.
+                </p>
+                <PathMappings />
+              </div>
             </CardContent>
           </Card>
           {/* Processing Settings */}
@@ -301,6 +383,23 @@ const Settings2Page = () => {
                   initialPath={pending.output_directory || '/'}
                 />
               </div>
+              <div className="mb-2">
+                <label className="block font-semibold text-gray-200 mb-1">Output Mode</label>
+                <div className="flex items-center">
+                  <select
+                    className="rounded-lg px-3 py-2 bg-gray-900 text-white border border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    value={pending.output_mode}
+                    onChange={(e) => handleChange('output_mode', e.target.value)}
+                  >
+                    <option value="trim">Remove segments</option>
+                    <option value="chapters">Chapter markers</option>
+                  </select>
+                  <span className="text-sm text-gray-400 ml-2">
+                    Chapter markers keep the file intact and name its Intro, Credits and Recap chapters instead.
+                    Processing profiles can override this.
+                  </span>
+                </div>
+              </div>
               <div className="mb-2">
                 <label className="block font-semibold text-gray-200 mb-1">Temporary Directory</label>
                 <div className="flex items-center gap-2">
@@ -334,6 +433,77 @@ const Settings2Page = () => {
                   initialPath={pending.temp_dir || '/'}
                 />
               </div>
+              <div className="mb-2">
+                <label className="block font-semibold text-gray-200 mb-1">Fingerprint Backend</label>
+                <div className="flex items-center">
+                  <select
+                    className="rounded-lg px-3 py-2 bg-gray-900 text-white border border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    value={pending.fingerprint_backend}
+                    onChange={(e) => handleChange('fingerprint_backend', e.target.value)}
+                  >
+                    <option value="inprocess">In-process (single decode)</option>
+                    <option value="fpcalc">fpcalc (per-chunk)</option>
+                  </select>
+                  <span className="text-sm text-gray-400 ml-2">
+                    fpcalc is slower but uses the reference Chromaprint binary
+                  </span>
+                </div>
+              </div>
+              <div className="mb-2">
+                <label className="block font-semibold text-gray-200 mb-1">Fingerprint Search Windows</label>
+                <div className="flex items-center gap-2">
+                  <select
+                    className="rounded-lg px-3 py-2 bg-gray-900 text-white border border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    value={pending.search_window_mode}
+                    onChange={(e) => handleChange('search_window_mode', e.target.value)}
+                  >
+                    <option value="windows">Head/tail windows</option>
+                    <option value="full">Full file</option>
+                  </select>
+                  <input
+                    className="w-20 rounded-lg px-3 py-2 bg-gray-900 text-white border border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    type="text"
+                    value={pending.search_window_head_sec}
+                    disabled={pending.search_window_mode === 'full'}
+                    onChange={(e) => handleChange('search_window_head_sec', e.target.value)}
+                  />
+                  <input
+                    className="w-20 rounded-lg px-3 py-2 bg-gray-900 text-white border border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    type="text"
+                    value={pending.search_window_tail_sec}
+                    disabled={pending.search_window_mode === 'full'}
+                    onChange={(e) => handleChange('search_window_tail_sec', e.target.value)}
+                  />
+                </div>
+                <span className="text-sm text-gray-400 mt-1 block">
+                  Seconds at the start and end of each episode to fingerprint (30-3600). Full file is slower but
+                  needed to find mid-episode stingers, and with windows recaps only match audio inside the
+                  windows of earlier episodes.
+                </span>
+              </div>
+              <div className="mb-2">
+                <label className="block font-semibold text-gray-200 mb-1">Per-Show Search Windows</label>
+                <SearchWindowOverrides />
+              </div>
+              <div className="mb-2">
+                <label className="block font-semibold text-gray-200 mb-1">Preferred Audio Language</label>
+                <div className="flex items-center">
+                  <input
+                    className="w-20 rounded-lg px-3 py-2 bg-gray-900 text-white border border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    type="text"
+                    value={pending.preferred_audio_language}
+                    placeholder="eng"
+                    onChange={(e) => handleChange('preferred_audio_language', e.target.value)}
+                  />
+                  <span className="text-sm text-gray-400 ml-2">
+                    Language code of the track to fingerprint; empty uses the default track. Commentary is skipped.
+                  </span>
+                </div>
+              </div>
+              <div className="mb-2">
+                <label className="block font-semibold text-gray-200 mb-1">Per-Show Audio Tracks</label>
+                <AudioTrackOverrides />
+              </div>
               <div className="mb-2">
                 <label className="block font-semibold text-gray-200 mb-1">Minimum Confidence Threshold</label>
                 <div className="flex items-center">
@@ -378,6 +548,49 @@ const Settings2Page = () => {
               <span className="text-sm text-gray-400 mb-4 block">
                 Automatically process files after manual verification
               </span>
+              <div className="mb-2">
+                <label className="block font-semibold text-gray-200 mb-1">Sidecar Files</label>
+                <div className="flex flex-wrap items-center gap-4">
+                  {SIDECAR_FORMAT_OPTIONS.map((option) => (
+                    <label key={option.value} className="flex items-center text-gray-200">
+                      <input
+                        type="checkbox"
+                        checked={pending.sidecar_formats.split(',').includes(option.value)}
+                        onChange={(e) => handleSidecarFormatChange(option.value, e.target.checked)}
+                        className="mr-2 rounded focus:ring-blue-500"
+                      />
+                      {option.label}
+                    </label>
+                  ))}
+                  <select
+                    className="rounded-lg px-3 py-2 bg-gray-900 text-white border border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    value={pending.sidecar_edl_action}
+                    disabled={!pending.sidecar_formats.split(',').includes('edl')}
+                    onChange={(e) => handleChange('sidecar_edl_action', e.target.value)}
+                  >
+                    <option value="3">EDL: commercial break (Kodi)</option>
+                    <option value="0">EDL: cut (MPlayer/mpv)</option>
+                  </select>
+                </div>
+                <span className="text-sm text-gray-400 mt-1 block">
+                  Skip data written beside each approved episode, for players that read it without changing the video
+                </span>
+              </div>
+              <div className="flex items-center">
+                <input
+                  id="sidecar_auto_export"
+                  type="checkbox"
+                  checked={pending.sidecar_auto_export}
+                  onChange={(e) => handleChange('sidecar_auto_export', e.target.checked)}
+                  className="mr-2 rounded focus:ring-blue-500"
+                />
+                <label htmlFor="sidecar_auto_export" className="font-semibold text-gray-200">
+                  Export Sidecars on Approval
+                </label>
+              </div>
+              <span className="text-sm text-gray-400 mb-4 block">
+                Write sidecar files as soon as an episode is approved; shows can also be exported from their page
+              </span>
               <div className="flex items-center">
                 <input
                   id="auto_process_detections"
@@ -393,6 +606,90 @@ const Settings2Page = () => {
               <span className="text-sm text-gray-400 mb-4 block">
                 Automatically approve and process files when confidence score meets threshold
               </span>
+              <div className="flex items-center">
+                <input
+                  id="boundary_refinement_enabled"
+                  type="checkbox"
+                  checked={pending.boundary_refinement_enabled}
+                  onChange={(e) => handleChange('boundary_refinement_enabled', e.target.checked)}
+                  className="mr-2 rounded focus:ring-blue-500"
+                />
+                <label htmlFor="boundary_refinement_enabled" className="font-semibold text-gray-200">
+                  Refine Boundaries to Silence/Black Frames
+                </label>
+              </div>
+              <span className="text-sm text-gray-400 mb-2 block">
+                Snap detected intro and credits boundaries to the nearest scene break
+              </span>
+              <div className="mb-4">
+                <label className="block font-semibold text-gray-200 mb-1">Refinement Tolerance</label>
+                <div className="flex items-center">
+                  <input
+                    className="w-16 rounded-lg px-3 py-2 bg-gray-900 text-white border border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    type="text"
+                    value={pending.boundary_refinement_tolerance}
+                    disabled={!pending.boundary_refinement_enabled}
+                    onChange={(e) => handleChange('boundary_refinement_tolerance', e.target.value)}
+                  />
+                  <span className="text-sm text-gray-400 ml-2">
+                    Maximum seconds a boundary may move (0.5-10)
+                  </span>
+                </div>
+              </div>
+              <div className="flex items-center">
+                <input
+                  id="segment_templates_enabled"
+                  type="checkbox"
+                  checked={pending.segment_templates_enabled}
+                  onChange={(e) => handleChange('segment_templates_enabled', e.target.checked)}
+                  className="mr-2 rounded focus:ring-blue-500"
+                />
+                <label htmlFor="segment_templates_enabled" className="font-semibold text-gray-200">
+                  Match New Episodes Against Approved Templates
+                </label>
+              </div>
+              <span className="text-sm text-gray-400 mb-4 block">
+                Approving an episode saves its intro and credits as a template; later episodes are matched
+                against it instead of re-analyzing the whole season
+              </span>
+              <div className="flex items-center">
+                <input
+                  id="skip_idents"
+                  type="checkbox"
+                  checked={pending.skip_idents}
+                  onChange={(e) => handleChange('skip_idents', e.target.checked)}
+                  className="mr-2 rounded focus:ring-blue-500"
+                />
+                <label htmlFor="skip_idents" className="font-semibold text-gray-200">
+                  Offer Network Idents as Skippable Segments
+                </label>
+              </div>
+              <span className="text-sm text-gray-400 mb-4 block">
+                Idents heard across several shows are always kept out of intro detection
+              </span>
+              <div className="mb-4">
+                <label className="block font-semibold text-gray-200 mb-1">Library Idents</label>
+                <LibraryIdents />
+              </div>
+              <div className="mb-4">
+                <label className="block font-semibold text-gray-200 mb-1">Segment Plausibility Rules</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {SEGMENT_RULE_FIELDS.map((field) => (
+                    <div key={field.key} className="flex items-center">
+                      <input
+                        className="w-20 rounded-lg px-3 py-2 bg-gray-900 text-white border border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        type="text"
+                        value={pending.segment_rules[field.key]}
+                        onChange={(e) => handleRuleChange(field.key, e.target.value)}
+                      />
+                      <span className="text-sm text-gray-400 ml-2">{field.label} (s)</span>
+                    </div>
+                  ))}
+                </div>
+                <span className="text-sm text-gray-400 mt-1 block">
+                  Shared segments that break these rules are kept as stingers instead of intro or credits
+                </span>
+              </div>
             </CardContent>
           </Card>
           {/* Import Settings */}
@@ -2,7 +2,7 @@
 // Provides expandable season navigation and episode listing with file details.
 import React, { useState, useEffect, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { ChevronDown, ChevronUp, ArrowLeft, Folder, FileText } from 'lucide-react';
+import { ChevronDown, ChevronUp, ArrowLeft, Folder, FileText, FileOutput } from 'lucide-react';
 import { apiClient } from '../integration/api-client';
 import { useToast } from '../components/ToastContext';
 import DetectionResults from '../components/DetectionResults';
@@ -46,6 +46,21 @@ const ShowDetailsPage = () => {
     fetchShowDetails();
   }, [id, toast]);
 
+  // Sidecars are written in the background for approved episodes only
+  const handleExportSidecars = async (seasonNumber = null) => {
+    try {
+      await apiClient.exportShowSidecars(parseInt(id), seasonNumber);
+      toast({
+        type: 'success',
+        message: seasonNumber !== null ?
+          `Exporting sidecar files for season ${seasonNumber}` :
+          'Exporting sidecar files for approved episodes',
+      });
+    } catch {
+      toast({ type: 'error', message: 'Failed to start sidecar export' });
+    }
+  };
+
   const toggleSeason = (seasonId) => {
     const newExpanded = new Set(expandedSeasons);
     if (newExpanded.has(seasonId)) {
@@ -122,6 +137,14 @@ const ShowDetailsPage = () => {
                 <span className="font-mono text-sm">{show.path}</span>
               </div>
             </div>
+            <button
+              onClick={() => handleExportSidecars()}
+              className="flex items-center px-3 py-2 rounded-lg bg-gray-700/50 hover:bg-gray-600/50 text-sm text-gray-200 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+              title="Write .edl/JSON skip files beside approved episodes"
+            >
+              <FileOutput className="w-4 h-4 mr-2" />
+              Export Sidecars
+            </button>
             <div className="text-right">
               <div className="text-sm text-gray-400">
                 {sortedSeasons.length} season{sortedSeasons.length !== 1 ? 's' : ''}
@@ -254,11 +277,18 @@ const ShowDetailsPage = () => {
                             )}
                           </div>
 
-                          {/* Season Footer - Bottom Collapse */}
-                          <div className="border-t border-gray-700/50">
+                          {/* Season Footer - Sidecar Export and Bottom Collapse */}
+                          <div className="border-t border-gray-700/50 flex">
+                            <button
+                              onClick={() => handleExportSidecars(season.season_number)}
+                              className="px-6 py-3 flex items-center space-x-2 border-r border-gray-700/50 hover:bg-gray-700/20 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                            >
+                              <FileOutput className="w-4 h-4 text-gray-400" />
+                              <span className="text-sm text-gray-400">Export Sidecars</span>
+                            </button>
                             <button
                               onClick={() => toggleSeason(season.id)}
-                              className="w-full px-6 py-3 flex items-center justify-center space-x-2 hover:bg-gray-700/20 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                              className="flex-1 px-6 py-3 flex items-center justify-center space-x-2 hover:bg-gray-700/20 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
                             >
                               <span className="text-sm text-gray-400">Collapse Season {season.season_number}</span>
                               <ChevronUp className="w-4 h-4 text-gray-400" />
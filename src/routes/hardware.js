@@ -9,12 +9,12 @@ import fsp from 'fs/promises';
 import path from 'path';
 import config from '../config/index.js';
 import { getDb, getSetting } from '../database/Db_Operations.js';
+import { HARDWARE_INFO_PATH, VAAPI_DEVICE } from '../services/encoderSelection.js';
 
 const execAsync = promisify(exec);
 const router = express.Router();
 
 const DATA_DIR = path.join(process.cwd(), 'data');
-const HARDWARE_INFO_PATH = path.join(DATA_DIR, 'hardware-info.json');
 const BENCHMARK_RESULTS_PATH = path.join(DATA_DIR, 'benchmark-results.json');
 
 async function ensureDataDir() {
@@ -454,6 +454,8 @@ async function detectHardware() {
     ffmpeg_version: null,
     nvenc_support: false,
     qsv_support: false,
+    vce_support: false,
+    vaapi_support: false,
     last_detected: new Date().toISOString(),
   };
 
@@ -469,6 +471,8 @@ async function detectHardware() {
     hardwareInfo.ffmpeg_version = ffmpegInfo.version;
     hardwareInfo.nvenc_support = ffmpegInfo.nvenc_support;
     hardwareInfo.qsv_support = ffmpegInfo.qsv_support;
+    hardwareInfo.vce_support = ffmpegInfo.vce_support;
+    hardwareInfo.vaapi_support = ffmpegInfo.vaapi_support;
   } catch (error) {
     console.error('Error during hardware detection:', error);
   }
@@ -548,6 +552,8 @@ async function detectFFmpeg() {
     version: null,
     nvenc_support: false,
     qsv_support: false,
+    vce_support: false,
+    vaapi_support: false,
   };
 
   try {
@@ -579,6 +585,23 @@ async function detectFFmpeg() {
       result.qsv_support = false;
     }
 
+    // Test AMD AMF support by actually trying to encode
+    try {
+      await execAsync('ffmpeg -f lavfi -i testsrc=duration=1:size=320x240:rate=1 -c:v h264_amf -t 1 -f null - 2>/dev/null');
+      result.vce_support = true;
+    } catch (e) {
+      result.vce_support = false;
+    }
+
+    // Test VAAPI support on the render device the trimmer uses
+    try {
+      await execAsync(`ffmpeg -vaapi_device ${VAAPI_DEVICE} -f lavfi -i testsrc=duration=1:size=320x240:rate=1 ` +
+        '-vf format=nv12,hwupload -c:v h264_vaapi -t 1 -f null - 2>/dev/null');
+      result.vaapi_support = true;
+    } catch (e) {
+      result.vaapi_support = false;
+    }
+
   } catch (error) {
     console.error('FFmpeg detection failed:', error);
   }
@@ -0,0 +1,91 @@
+// Jellyfin intro-skipper compatible endpoints serving approved intro/credits/recap/preview times.
+// Episodes are identified by ?path= (Jellyfin's media path) or ?series=&season=&episode=; an item id
+// in the URL is only echoed back as EpisodeId.
+
+import express from 'express';
+import { appLogger } from '../services/logger.js';
+import { findJellyfinEpisode, toIntroSkipperIntro, toIntroSkipperSegments, isSegmentMode } from '../services/jellyfinCompat.js';
+
+const router = express.Router();
+
+// Stock intro-skipper clients only send an item id, and Cliparr has no Jellyfin connection
+// to look one up
+const ITEM_ID_ONLY_ERROR = 'Cliparr cannot look up Jellyfin item ids, so requests that only ' +
+  'carry one (as stock intro-skipper clients send them) are not supported. Add ?path= with ' +
+  'the media path as Jellyfin sees it, or ?series=&season=&episode=.';
+
+/**
+ * Resolve the episode a request refers to, answering 400/404 itself when it can't
+ */
+async function resolveEpisode(req, res) {
+  const { path, series } = req.query;
+  const season = req.query.season !== undefined ? parseInt(req.query.season) : null;
+  const episode = req.query.episode !== undefined ? parseInt(req.query.episode) : null;
+  if (!path && !(series && Number.isInteger(season) && Number.isInteger(episode))) {
+    res.status(400).json(req.params.id ?
+      { error: ITEM_ID_ONLY_ERROR, unsupported: 'item_id_only' } :
+      { error: 'Provide path, or series with season and episode' });
+    return null;
+  }
+
+  const match = await findJellyfinEpisode({ path, series, season, episode });
+  if (!match) {
+    res.status(404).json({ error: 'No approved segments for this episode' });
+    return null;
+  }
+  return match;
+}
+
+// One segment in the plugin's Intro shape; ?mode= picks Introduction (default), Credits, Recap or Preview
+router.get('/Episode{/:id}/IntroTimestamps{/v1}', async (req, res) => {
+  const mode = req.query.mode || 'Introduction';
+  if (!isSegmentMode(mode)) {
+    return res.status(400).json({ error: `Unknown segment mode: ${mode}` });
+  }
+
+  try {
+    const episode = await resolveEpisode(req, res);
+    if (!episode) {
+      return;
+    }
+    const intro = toIntroSkipperIntro(episode, mode, req.params.id);
+    // The plugin answers 404 for episodes without the requested segment
+    if (!intro.Valid) {
+      return res.status(404).json({ error: `No ${mode} segment for this episode` });
+    }
+    res.json(intro);
+  } catch (error) {
+    appLogger.error('Failed to serve intro timestamps:', error);
+    res.status(500).json({ error: 'Failed to serve intro timestamps' });
+  }
+});
+
+// Introduction and Credits together, as the plugin's IntroSkipperSegments endpoint returns them
+router.get('/Episode{/:id}/IntroSkipperSegments', async (req, res) => {
+  try {
+    const episode = await resolveEpisode(req, res);
+    if (!episode) {
+      return;
+    }
+    res.json(toIntroSkipperSegments(episode, req.params.id, ['Introduction', 'Credits']));
+  } catch (error) {
+    appLogger.error('Failed to serve intro skipper segments:', error);
+    res.status(500).json({ error: 'Failed to serve intro skipper segments' });
+  }
+});
+
+// Every segment type, as newer plugin versions return from Timestamps
+router.get('/Episode{/:id}/Timestamps', async (req, res) => {
+  try {
+    const episode = await resolveEpisode(req, res);
+    if (!episode) {
+      return;
+    }
+    res.json(toIntroSkipperSegments(episode, req.params.id));
+  } catch (error) {
+    appLogger.error('Failed to serve segment timestamps:', error);
+    res.status(500).json({ error: 'Failed to serve segment timestamps' });
+  }
+});
+
+export default router;
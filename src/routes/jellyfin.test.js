@@ -0,0 +1,138 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import express from 'express';
+import { getDatabaseSingleton } from '../database/Auto_DB_Setup.js';
+
+// A fake intro-skipper client, for a library Jellyfin mounts at /media/tv and Cliparr at /data/tv
+const JELLYFIN_PATH = '/media/tv/Test Show/Season 01/Test Show - S01E01.mkv';
+const HOST_PATH = '/data/tv/Test Show/Season 01/Test Show - S01E01.mkv';
+const ITEM_ID = 'a1b2c3d4e5f6';
+
+let tmpDir;
+let db;
+let server;
+let baseUrl;
+let jobId;
+
+before(async () => {
+  // The database singleton has to be opened on the temp file before anything else asks for it
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cliparr-jellyfin-'));
+  db = await getDatabaseSingleton(path.join(tmpDir, 'test.db'));
+  const { initializeFingerprintSchema } = await import('../services/fingerprintPipeline.js');
+  const { replacePathMappings } = await import('../database/Db_Operations.js');
+  const { default: jellyfinRoutes } = await import('./jellyfin.js');
+  await initializeFingerprintSchema();
+
+  const insert = (sql, ...params) => db.prepare(sql).run(...params).lastInsertRowid;
+  const showId = insert(
+    'INSERT INTO shows (title, path) VALUES (?, ?)',
+    'Test Show',
+    '/data/tv/Test Show',
+  );
+  const seasonId = insert('INSERT INTO seasons (show_id, season_number) VALUES (?, 1)', showId);
+  const episodeId = insert(
+    "INSERT INTO episodes (season_id, episode_number, title) VALUES (?, 1, 'Pilot')",
+    seasonId,
+  );
+  const fileId = insert(
+    'INSERT INTO episode_files (episode_id, file_path, size) VALUES (?, ?, 1)',
+    episodeId,
+    HOST_PATH,
+  );
+  jobId = insert(`
+    INSERT INTO processing_jobs
+      (media_file_id, status, manual_verified, intro_start, intro_end, credits_start, credits_end)
+    VALUES (?, 'verified', 1, 30, 90, 2500, 2580)
+  `, fileId);
+  replacePathMappings(db, 'jellyfin', [{ from_prefix: '/media/tv', to_prefix: '/data/tv' }]);
+
+  const app = express();
+  app.use('/jellyfin', jellyfinRoutes);
+  server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}/jellyfin`;
+});
+
+after(() => {
+  server?.close();
+  db?.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+const get = async (urlPath, query) => {
+  const response = await fetch(`${baseUrl}${urlPath}?${new URLSearchParams(query)}`);
+  return { status: response.status, body: await response.json() };
+};
+
+test('IntroTimestamps finds the episode by its mapped Jellyfin path', async () => {
+  const { status, body } = await get(`/Episode/${ITEM_ID}/IntroTimestamps/v1`, {
+    path: JELLYFIN_PATH,
+  });
+
+  assert.equal(status, 200);
+  assert.deepEqual(body, {
+    EpisodeId: ITEM_ID,
+    Valid: true,
+    IntroStart: 30,
+    IntroEnd: 90,
+    ShowSkipPromptAt: 25,
+    HideSkipPromptAt: 40,
+  });
+
+  const credits = await get(`/Episode/${ITEM_ID}/IntroTimestamps`, {
+    path: JELLYFIN_PATH,
+    mode: 'Credits',
+  });
+  assert.equal(credits.status, 200);
+  assert.equal(credits.body.IntroStart, 2500);
+
+  const recap = await get(`/Episode/${ITEM_ID}/IntroTimestamps`, {
+    path: JELLYFIN_PATH,
+    mode: 'Recap',
+  });
+  assert.equal(recap.status, 404);
+});
+
+test('Timestamps finds the episode by series, season and episode', async () => {
+  const { status, body } = await get(`/Episode/${ITEM_ID}/Timestamps`, {
+    series: 'test show',
+    season: 1,
+    episode: 1,
+  });
+
+  assert.equal(status, 200);
+  assert.equal(body.Introduction.Valid, true);
+  assert.equal(body.Introduction.EpisodeId, ITEM_ID);
+  assert.equal(body.Credits.IntroEnd, 2580);
+  assert.equal(body.Recap.Valid, false);
+});
+
+test('item-id-only requests from stock clients are refused as unsupported', async () => {
+  const { status, body } = await get(`/Episode/${ITEM_ID}/IntroTimestamps`, {});
+  assert.equal(status, 400);
+  assert.equal(body.unsupported, 'item_id_only');
+  assert.match(body.error, /not supported/);
+
+  const withoutId = await get('/Episode/Timestamps', {});
+  assert.equal(withoutId.status, 400);
+  assert.equal(withoutId.body.unsupported, undefined);
+});
+
+test('episodes trimmed in place no longer serve their segments', async () => {
+  db.prepare(`
+    UPDATE processing_jobs SET status = 'completed', output_mode = 'trim', output_path = ?
+    WHERE id = ?
+  `).run(HOST_PATH, jobId);
+
+  const byPath = await get(`/Episode/${ITEM_ID}/IntroTimestamps`, { path: JELLYFIN_PATH });
+  const byEpisode = await get(`/Episode/${ITEM_ID}/Timestamps`, {
+    series: 'Test Show',
+    season: 1,
+    episode: 1,
+  });
+  assert.equal(byPath.status, 404);
+  assert.equal(byEpisode.status, 404);
+});
@@ -19,14 +19,29 @@ import {
   getProcessingJobById,
   getProcessingJobStats,
   deleteProcessingJob,
+  getSetting,
+  getProcessingProfiles,
+  getProcessingProfileById,
+  createProcessingProfile,
+  updateProcessingProfile,
+  deleteProcessingProfile,
+  setSetting,
+  getEpisodeBackups,
+  getProcessingJobStages,
 } from '../database/Db_Operations.js';
-import { getQueueStatus, debugQueueState, removeJobFromAllQueues, queues, enqueueCleanupJob } from '../services/queue.js';
+import { getQueueStatus, debugQueueState, removeJobFromAllQueues, queues, enqueueCleanupJob, enqueueTrimming } from '../services/queue.js';
 import { getDatabaseSingleton } from '../database/Auto_DB_Setup.js';
 import path from 'path';
 import fs from 'fs/promises';
 import config from '../config/index.js';
 import { activeFfmpegJobs } from '../services/fingerprintPipeline.js';
 import { deleteProcessingJobs } from '../services/cleanupService.js';
+import { learnSegmentTemplates } from '../services/segmentTemplates.js';
+import { planJobChapters } from '../services/chapterWriter.js';
+import { getJobOutputError, trimsInPlace } from '../services/segmentTrimmer.js';
+import { exportSidecars, getSidecarSettings } from '../services/sidecarExport.js';
+import { validateProcessingProfile } from '../services/processingProfiles.js';
+import { getBackupSummary, applyBackupRetention, restoreBackups } from '../services/episodeBackups.js';
 
 const router = express.Router();
 
@@ -67,9 +82,16 @@ router.get('/jobs', async (req, res) => {
   }
 });
 
-// Get specific processing job by ID
+// Get specific processing job by ID, with its pipeline stages. IDs that aren't processing jobs
+// are looked up as BullMQ episode-processing jobs.
 router.get('/jobs/:id', async (req, res) => {
   try {
+    const db = req.app.get('db');
+    const dbJob = getProcessingJobById(db, parseInt(req.params.id));
+    if (dbJob) {
+      return res.json({ job: dbJob, stages: getProcessingJobStages(db, dbJob.id) });
+    }
+
     const queue = queues['episode-processing'];
     const jobId = req.params.id;
     const allStates = ['active', 'waiting', 'completed', 'failed', 'delayed', 'paused', 'waiting-children', 'repeat', 'scheduled'];
@@ -89,7 +111,7 @@ router.get('/jobs/:id', async (req, res) => {
       ...job.data,
       createdAt: job.timestamp,
       updatedAt: job.finishedOn || job.processedOn || job.timestamp,
-    } });
+    }, stages: job.data?.dbJobId ? getProcessingJobStages(db, Number(job.data.dbJobId)) : [] });
   } catch (error) {
     console.error('Failed to fetch job from BullMQ:', error);
     res.status(500).json({ error: 'Failed to fetch job from BullMQ' });
@@ -108,7 +130,41 @@ router.put('/jobs/:id', (req, res) => {
   }
 
   try {
+    // Auto-processing only applies to files not yet processed or being processed
+    const previousJob = getProcessingJobById(db, jobId);
     const updatedJob = updateProcessingJob(db, jobId, updateData);
+
+    // A reviewer approval teaches the show its intro/credits templates for later episodes
+    if (updatedJob && (updateData.manual_verified || updateData.status === 'verified')) {
+      const segment = (start, end) => (start !== null && end !== null && end > start ? { start, end } : null);
+      learnSegmentTemplates(updatedJob.media_file_id, {
+        intro: segment(updatedJob.intro_start, updatedJob.intro_end),
+        credits: segment(updatedJob.credits_start, updatedJob.credits_end),
+      }).catch((error) => {
+        logger.warn({ jobId, error: error.message }, 'Failed to learn segment templates from approval');
+      });
+
+      let trimmingInPlace = false;
+      if (getSetting(db, 'auto_process_verified', '0') === '1') {
+        const outputError = getJobOutputError({ ...updatedJob, status: previousJob.status });
+        if (outputError) {
+          logger.info({ jobId, reason: outputError }, 'Not auto-processing approved job');
+        } else {
+          trimmingInPlace = trimsInPlace(db, updatedJob);
+          enqueueTrimming({ dbJobId: jobId, episodeFileId: updatedJob.media_file_id }).catch((error) => {
+            logger.warn({ jobId, error: error.message }, 'Failed to enqueue trimming for approved job');
+          });
+        }
+      }
+
+      // Segments removed from the file itself leave nothing for sidecars to skip
+      if (getSidecarSettings(db).autoExport && !trimmingInPlace) {
+        exportSidecars({ episodeFileId: updatedJob.media_file_id }).catch((error) => {
+          logger.warn({ jobId, error: error.message }, 'Failed to export sidecars for approved job');
+        });
+      }
+    }
+
     res.json({ success: true, job: updatedJob });
   } catch (error) {
     logger.error('Failed to update processing job:', error);
@@ -116,6 +172,70 @@ router.put('/jobs/:id', (req, res) => {
   }
 });
 
+// Trim an approved job's file now, removing its reviewed intro/credits/recap.
+// `profile_id` assigns a processing profile to the job; `output_mode` ('trim' or 'chapters')
+// overrides both the profile's and the global output mode for this run.
+router.post('/jobs/:id/trim', async (req, res) => {
+  const db = req.app.get('db');
+  const logger = req.app.get('logger');
+  const jobId = parseInt(req.params.id);
+  if (isNaN(jobId)) {
+    return res.status(400).json({ error: 'Invalid job ID' });
+  }
+
+  try {
+    const job = getProcessingJobById(db, jobId);
+    if (!job) {
+      return res.status(404).json({ error: 'Processing job not found' });
+    }
+    const outputError = getJobOutputError(job);
+    if (outputError) {
+      return res.status(409).json({ error: outputError });
+    }
+    const outputMode = req.body?.output_mode;
+    if (outputMode !== undefined && outputMode !== 'trim' && outputMode !== 'chapters') {
+      return res.status(400).json({ error: 'output_mode must be trim or chapters' });
+    }
+    const profileId = req.body?.profile_id;
+    if (profileId !== undefined && profileId !== null) {
+      if (!getProcessingProfileById(db, profileId)) {
+        return res.status(400).json({ error: `Processing profile not found: ${profileId}` });
+      }
+      updateProcessingJob(db, jobId, { profile_id: profileId });
+    }
+    const trimJobId = await enqueueTrimming({ dbJobId: jobId, episodeFileId: job.media_file_id, outputMode });
+    res.json({ success: true, trimJobId });
+  } catch (error) {
+    logger.error('Failed to enqueue trimming:', error);
+    res.status(500).json({ error: 'Failed to enqueue trimming' });
+  }
+});
+
+// Dry run of chapter-marker output: the chapters a job's file would get, without writing them
+router.get('/jobs/:id/chapters', async (req, res) => {
+  const db = req.app.get('db');
+  const logger = req.app.get('logger');
+  const jobId = parseInt(req.params.id);
+  if (isNaN(jobId)) {
+    return res.status(400).json({ error: 'Invalid job ID' });
+  }
+
+  try {
+    const job = getProcessingJobById(db, jobId);
+    if (!job) {
+      return res.status(404).json({ error: 'Processing job not found' });
+    }
+    const plan = await planJobChapters(job);
+    if (!plan) {
+      return res.status(404).json({ error: 'No detection results for this job yet' });
+    }
+    res.json({ success: true, ...plan });
+  } catch (error) {
+    logger.error('Failed to plan chapters:', error);
+    res.status(500).json({ error: 'Failed to plan chapters' });
+  }
+});
+
 // Delete processing job
 router.delete('/jobs/:id', async (req, res) => {
   const jobIdParam = req.params.id;
@@ -128,6 +248,185 @@ router.delete('/jobs/:id', async (req, res) => {
   }
 });
 
+// List processing profiles, the default first
+router.get('/profiles', (req, res) => {
+  const db = req.app.get('db');
+  const logger = req.app.get('logger');
+
+  try {
+    res.json({ profiles: getProcessingProfiles(db) });
+  } catch (error) {
+    logger.error('Failed to fetch processing profiles:', error);
+    res.status(500).json({ error: 'Failed to fetch processing profiles' });
+  }
+});
+
+router.get('/profiles/:id', (req, res) => {
+  const db = req.app.get('db');
+  const logger = req.app.get('logger');
+  const profileId = parseInt(req.params.id);
+  if (isNaN(profileId)) {
+    return res.status(400).json({ error: 'Invalid profile ID' });
+  }
+
+  try {
+    const profile = getProcessingProfileById(db, profileId);
+    if (!profile) {
+      return res.status(404).json({ error: 'Processing profile not found' });
+    }
+    res.json({ profile });
+  } catch (error) {
+    logger.error('Failed to fetch processing profile:', error);
+    res.status(500).json({ error: 'Failed to fetch processing profile' });
+  }
+});
+
+router.post('/profiles', (req, res) => {
+  const db = req.app.get('db');
+  const logger = req.app.get('logger');
+  const invalid = validateProcessingProfile(req.body);
+  if (invalid) {
+    return res.status(400).json({ error: invalid });
+  }
+
+  try {
+    const profile = createProcessingProfile(db, { ...req.body, name: req.body.name.trim() });
+    res.status(201).json({ success: true, profile });
+  } catch (error) {
+    if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+      return res.status(409).json({ error: `A profile named ${req.body.name.trim()} already exists` });
+    }
+    logger.error('Failed to create processing profile:', error);
+    res.status(500).json({ error: 'Failed to create processing profile' });
+  }
+});
+
+router.put('/profiles/:id', (req, res) => {
+  const db = req.app.get('db');
+  const logger = req.app.get('logger');
+  const profileId = parseInt(req.params.id);
+  if (isNaN(profileId)) {
+    return res.status(400).json({ error: 'Invalid profile ID' });
+  }
+  const invalid = validateProcessingProfile(req.body, { partial: true });
+  if (invalid) {
+    return res.status(400).json({ error: invalid });
+  }
+
+  try {
+    if (!getProcessingProfileById(db, profileId)) {
+      return res.status(404).json({ error: 'Processing profile not found' });
+    }
+    const updateData = req.body.name !== undefined ? { ...req.body, name: req.body.name.trim() } : req.body;
+    const profile = updateProcessingProfile(db, profileId, updateData);
+    res.json({ success: true, profile });
+  } catch (error) {
+    if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+      return res.status(409).json({ error: `A profile named ${req.body.name.trim()} already exists` });
+    }
+    logger.error('Failed to update processing profile:', error);
+    res.status(500).json({ error: 'Failed to update processing profile' });
+  }
+});
+
+router.delete('/profiles/:id', (req, res) => {
+  const db = req.app.get('db');
+  const logger = req.app.get('logger');
+  const profileId = parseInt(req.params.id);
+  if (isNaN(profileId)) {
+    return res.status(400).json({ error: 'Invalid profile ID' });
+  }
+
+  try {
+    const profile = getProcessingProfileById(db, profileId);
+    if (!profile) {
+      return res.status(404).json({ error: 'Processing profile not found' });
+    }
+    if (profile.is_default) {
+      return res.status(409).json({ error: 'The default profile cannot be deleted' });
+    }
+    deleteProcessingProfile(db, profileId);
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('Failed to delete processing profile:', error);
+    res.status(500).json({ error: 'Failed to delete processing profile' });
+  }
+});
+
+// List backups of originals, newest first; `status` narrows to active, restored or expired ones
+router.get('/backups', (req, res) => {
+  const db = req.app.get('db');
+  const logger = req.app.get('logger');
+
+  try {
+    res.json({ backups: getEpisodeBackups(db, { status: req.query.status }) });
+  } catch (error) {
+    logger.error('Failed to fetch backups:', error);
+    res.status(500).json({ error: 'Failed to fetch backups' });
+  }
+});
+
+// Disk usage of active backups, per show and season, and the retention period
+router.get('/backups/summary', (req, res) => {
+  const db = req.app.get('db');
+  const logger = req.app.get('logger');
+
+  try {
+    res.json(getBackupSummary(db));
+  } catch (error) {
+    logger.error('Failed to fetch backup summary:', error);
+    res.status(500).json({ error: 'Failed to fetch backup summary' });
+  }
+});
+
+// Set how many days backups are kept (0 keeps them) and expire the ones already past it
+router.put('/backups/retention', async (req, res) => {
+  const db = req.app.get('db');
+  const logger = req.app.get('logger');
+  const days = Number(req.body?.days);
+  if (!Number.isInteger(days) || days < 0) {
+    return res.status(400).json({ error: 'days must be a whole number, 0 or more' });
+  }
+
+  try {
+    setSetting(db, 'backup_retention_days', String(days));
+    const expired = await applyBackupRetention(db);
+    res.json({ success: true, expired, ...getBackupSummary(db) });
+  } catch (error) {
+    logger.error('Failed to update backup retention:', error);
+    res.status(500).json({ error: 'Failed to update backup retention' });
+  }
+});
+
+// Restore the active backups matching the filters and ask Sonarr to rescan the shows involved
+async function restoreAndRespond(req, res, filters) {
+  const db = req.app.get('db');
+  const logger = req.app.get('logger');
+  if (Object.values(filters).some((value) => isNaN(value))) {
+    return res.status(400).json({ error: 'Invalid restore target' });
+  }
+
+  try {
+    if (getEpisodeBackups(db, { ...filters, status: 'active' }).length === 0) {
+      return res.status(404).json({ error: 'No backups to restore' });
+    }
+    const result = await restoreBackups(db, filters);
+    res.json({ success: result.failed.length === 0, ...result });
+  } catch (error) {
+    logger.error('Failed to restore backups:', error);
+    res.status(500).json({ error: 'Failed to restore backups' });
+  }
+}
+
+router.post('/backups/restore/episode/:episodeFileId', (req, res) =>
+  restoreAndRespond(req, res, { episodeFileId: parseInt(req.params.episodeFileId) }));
+
+router.post('/backups/restore/show/:showId/season/:seasonNumber', (req, res) =>
+  restoreAndRespond(req, res, { showId: parseInt(req.params.showId), seasonNumber: parseInt(req.params.seasonNumber) }));
+
+router.post('/backups/restore/show/:showId', (req, res) =>
+  restoreAndRespond(req, res, { showId: parseInt(req.params.showId) }));
+
 // Get processing job statistics
 router.get('/stats', (req, res) => {
   const db = req.app.get('db');
@@ -10,15 +10,40 @@ import {
   setPollingInterval,
   getSetting,
   setSetting,
+  deleteSetting,
+  getShowById,
+  getSearchWindows,
+  setShowSearchWindows,
+  deleteShowSearchWindows,
+  getShowSearchWindowOverrides,
+  getAudioTrackPreference,
+  setShowAudioTrackPreference,
+  deleteShowAudioTrackPreference,
+  getShowAudioTrackOverrides,
+  getPathMappings,
+  replacePathMappings,
 } from '../database/Db_Operations.js';
 import { updateWorkerLimits, pauseCpuWorkers, resumeCpuWorkers, pauseGpuWorkers, resumeGpuWorkers } from '../services/queue.js';
 import { appLogger } from '../services/logger.js';
+import { DEFAULT_SEGMENT_RULES, normalizeSegmentRules } from '../services/segmentRules.js';
+import { probeAudioStreams, selectAudioStream } from '../services/audioStreams.js';
+import { SIDECAR_FORMATS, EDL_ACTIONS } from '../services/sidecarExport.js';
+import { PATH_MAPPING_INTEGRATIONS, mapIntegrationPath, validatePathMapping } from '../utils/pathMap.js';
 import os from 'os';
 import path from 'path';
 import fs from 'fs/promises';
 
 const router = express.Router();
 
+// Stored rule overrides are JSON; anything unreadable falls back to the defaults
+const readSegmentRules = (db, key) => {
+  try {
+    return JSON.parse(getSetting(db, key, null) || 'null');
+  } catch {
+    return null;
+  }
+};
+
 // GET current import mode
 router.get('/import-mode', async (req, res) => {
   const db = await getDb();
@@ -122,6 +147,7 @@ router.get('/all', async (req, res) => {
       'sonarr_url',
       'sonarr_api_key',
       'output_directory',
+      'output_mode',
       'min_confidence_threshold',
       'backup_originals',
       'auto_process_verified',
@@ -131,6 +157,17 @@ router.get('/all', async (req, res) => {
       'temp_dir',
       'cpu_worker_limit',
       'gpu_worker_limit',
+      'boundary_refinement_enabled',
+      'boundary_refinement_tolerance',
+      'fingerprint_backend',
+      'search_window_mode',
+      'search_window_head_sec',
+      'search_window_tail_sec',
+      'segment_templates_enabled',
+      'skip_idents',
+      'sidecar_formats',
+      'sidecar_edl_action',
+      'sidecar_auto_export',
     ];
     const settings = {};
     for (const key of keys) {
@@ -147,6 +184,43 @@ router.get('/all', async (req, res) => {
     if (!settings.gpu_worker_limit) {
       settings.gpu_worker_limit = '1';
     }
+    // Boundary refinement is on by default with a 3s tolerance
+    if (!settings.boundary_refinement_enabled) {
+      settings.boundary_refinement_enabled = '1';
+    }
+    if (!settings.boundary_refinement_tolerance) {
+      settings.boundary_refinement_tolerance = '3';
+    }
+    if (!settings.fingerprint_backend) {
+      settings.fingerprint_backend = 'inprocess';
+    }
+    if (!settings.segment_templates_enabled) {
+      settings.segment_templates_enabled = '1';
+    }
+    if (!settings.skip_idents) {
+      settings.skip_idents = '0';
+    }
+    // Approved segments are cut out unless chapter markers are chosen instead
+    if (!settings.output_mode) {
+      settings.output_mode = 'trim';
+    }
+    // Sidecars default to a Kodi commercial-break EDL plus the JSON segment file
+    if (settings.sidecar_formats === null) {
+      settings.sidecar_formats = 'edl,json';
+    }
+    if (!settings.sidecar_edl_action) {
+      settings.sidecar_edl_action = '3';
+    }
+    if (!settings.sidecar_auto_export) {
+      settings.sidecar_auto_export = '0';
+    }
+    // Search windows default to the first 10 and last 6 minutes
+    const searchWindows = getSearchWindows(db);
+    settings.search_window_mode = searchWindows.mode;
+    settings.search_window_head_sec = String(searchWindows.headSec);
+    settings.search_window_tail_sec = String(searchWindows.tailSec);
+    settings.segment_rules = normalizeSegmentRules(readSegmentRules(db, 'segment_rules'));
+    settings.preferred_audio_language = getAudioTrackPreference(db).language;
     res.json(settings);
   } catch (error) {
     appLogger.error('Failed to get all settings:', error);
@@ -161,6 +235,7 @@ router.post('/all', async (req, res) => {
     sonarr_url,
     sonarr_api_key,
     output_directory,
+    output_mode,
     min_confidence_threshold,
     backup_originals,
     auto_process_verified,
@@ -170,6 +245,19 @@ router.post('/all', async (req, res) => {
     temp_dir,
     cpu_worker_limit,
     gpu_worker_limit,
+    boundary_refinement_enabled,
+    boundary_refinement_tolerance,
+    fingerprint_backend,
+    search_window_mode,
+    search_window_head_sec,
+    search_window_tail_sec,
+    segment_rules,
+    segment_templates_enabled,
+    skip_idents,
+    preferred_audio_language,
+    sidecar_formats,
+    sidecar_edl_action,
+    sidecar_auto_export,
   } = req.body;
   try {
     if (sonarr_url) {
@@ -179,11 +267,60 @@ router.post('/all', async (req, res) => {
       setSetting(db, 'sonarr_api_key', sonarr_api_key);
     }
     setSetting(db, 'output_directory', output_directory || '');
+    if (output_mode === 'trim' || output_mode === 'chapters') {
+      setSetting(db, 'output_mode', output_mode);
+    }
     setSetting(db, 'min_confidence_threshold',
       min_confidence_threshold !== undefined ? String(min_confidence_threshold) : '0.8');
     setSetting(db, 'backup_originals', backup_originals ? '1' : '0');
     setSetting(db, 'auto_process_verified', auto_process_verified ? '1' : '0');
     setSetting(db, 'auto_process_detections', auto_process_detections ? '1' : '0');
+    if (boundary_refinement_enabled !== undefined) {
+      setSetting(db, 'boundary_refinement_enabled', boundary_refinement_enabled ? '1' : '0');
+    }
+    if (boundary_refinement_tolerance !== undefined && !isNaN(boundary_refinement_tolerance)) {
+      setSetting(db, 'boundary_refinement_tolerance',
+        String(Math.max(0.5, Math.min(10, parseFloat(boundary_refinement_tolerance)))));
+    }
+    if (fingerprint_backend === 'inprocess' || fingerprint_backend === 'fpcalc') {
+      setSetting(db, 'fingerprint_backend', fingerprint_backend);
+    }
+    if (search_window_mode === 'windows' || search_window_mode === 'full') {
+      setSetting(db, 'search_window_mode', search_window_mode);
+    }
+    if (search_window_head_sec !== undefined && !isNaN(search_window_head_sec)) {
+      setSetting(db, 'search_window_head_sec', String(Math.max(30, Math.min(3600, parseInt(search_window_head_sec, 10)))));
+    }
+    if (search_window_tail_sec !== undefined && !isNaN(search_window_tail_sec)) {
+      setSetting(db, 'search_window_tail_sec', String(Math.max(30, Math.min(3600, parseInt(search_window_tail_sec, 10)))));
+    }
+    if (segment_templates_enabled !== undefined) {
+      setSetting(db, 'segment_templates_enabled', segment_templates_enabled ? '1' : '0');
+    }
+    if (skip_idents !== undefined) {
+      setSetting(db, 'skip_idents', skip_idents ? '1' : '0');
+    }
+    if (typeof sidecar_formats === 'string') {
+      const formats = sidecar_formats.split(',').map((format) => format.trim())
+        .filter((format) => SIDECAR_FORMATS.includes(format));
+      setSetting(db, 'sidecar_formats', formats.join(','));
+    }
+    if (sidecar_edl_action !== undefined && Object.values(EDL_ACTIONS).includes(parseInt(sidecar_edl_action, 10))) {
+      setSetting(db, 'sidecar_edl_action', String(parseInt(sidecar_edl_action, 10)));
+    }
+    if (sidecar_auto_export !== undefined) {
+      setSetting(db, 'sidecar_auto_export', sidecar_auto_export ? '1' : '0');
+    }
+    if (preferred_audio_language !== undefined) {
+      const language = String(preferred_audio_language).trim().toLowerCase();
+      if (language && !/^[a-z]{2,3}$/.test(language)) {
+        return res.status(400).json({ error: 'Preferred audio language must be a two- or three-letter language code' });
+      }
+      setSetting(db, 'preferred_audio_language', language);
+    }
+    if (segment_rules && typeof segment_rules === 'object') {
+      setSetting(db, 'segment_rules', JSON.stringify(normalizeSegmentRules(segment_rules)));
+    }
     if (import_mode) {
       setImportMode(db, import_mode);
     }
@@ -219,7 +356,245 @@ router.post('/all', async (req, res) => {
   }
 });
 
+// GET per-show search window overrides
+router.get('/search-windows/shows', async (req, res) => {
+  const db = await getDb();
+  try {
+    res.json({ global: getSearchWindows(db), overrides: getShowSearchWindowOverrides(db) });
+  } catch (error) {
+    appLogger.error('Failed to get search window overrides:', error);
+    res.status(500).json({ error: 'Failed to get search window overrides' });
+  }
+});
+
+// PUT override the search windows for one show
+router.put('/search-windows/shows/:showId', async (req, res) => {
+  const db = await getDb();
+  const showId = parseInt(req.params.showId, 10);
+  const { mode, head_sec, tail_sec } = req.body;
+  try {
+    if (!getShowById(db, showId)) {
+      return res.status(404).json({ error: 'Show not found' });
+    }
+    if (mode !== undefined && mode !== 'windows' && mode !== 'full') {
+      return res.status(400).json({ error: 'Invalid search window mode. Must be "windows" or "full".' });
+    }
+    const saved = setShowSearchWindows(db, showId, { mode, headSec: head_sec, tailSec: tail_sec });
+    res.json({ status: 'ok', showId, ...saved });
+  } catch (error) {
+    appLogger.error('Failed to set search window override:', error);
+    res.status(500).json({ error: 'Failed to set search window override' });
+  }
+});
+
+// DELETE a show's search window override so it follows the global setting again
+router.delete('/search-windows/shows/:showId', async (req, res) => {
+  const db = await getDb();
+  try {
+    const removed = deleteShowSearchWindows(db, parseInt(req.params.showId, 10));
+    res.json({ status: 'ok', removed: removed > 0 });
+  } catch (error) {
+    appLogger.error('Failed to delete search window override:', error);
+    res.status(500).json({ error: 'Failed to delete search window override' });
+  }
+});
+
+// GET the global audio language and every show's audio track override
+router.get('/audio-tracks/shows', async (req, res) => {
+  const db = await getDb();
+  try {
+    res.json({ global: getAudioTrackPreference(db), overrides: getShowAudioTrackOverrides(db) });
+  } catch (error) {
+    appLogger.error('Failed to get audio track overrides:', error);
+    res.status(500).json({ error: 'Failed to get audio track overrides' });
+  }
+});
+
+// GET the audio streams of a show's first episode file and the one fingerprinting would use
+router.get('/audio-tracks/shows/:showId/streams', async (req, res) => {
+  const db = await getDb();
+  const showId = parseInt(req.params.showId, 10);
+  try {
+    const file = db.prepare(`
+      SELECT ef.id, ef.file_path
+      FROM episode_files ef
+      JOIN episodes e ON ef.episode_id = e.id
+      JOIN seasons s ON e.season_id = s.id
+      WHERE s.show_id = ?
+      ORDER BY s.season_number, e.episode_number
+      LIMIT 1
+    `).get(showId);
+    if (!file) {
+      return res.status(404).json({ error: 'No episode files found for show' });
+    }
+    const streams = await probeAudioStreams(file.file_path);
+    const selection = selectAudioStream(streams, getAudioTrackPreference(db, showId));
+    res.json({
+      showId,
+      episodeFileId: file.id,
+      filePath: file.file_path,
+      streams,
+      selected: selection ? { audioIndex: selection.stream.audioIndex, reason: selection.reason } : null,
+    });
+  } catch (error) {
+    appLogger.error('Failed to probe audio streams:', error);
+    res.status(500).json({ error: 'Failed to probe audio streams', details: error && error.message });
+  }
+});
+
+// PUT override the audio language and/or track index used to fingerprint one show
+router.put('/audio-tracks/shows/:showId', async (req, res) => {
+  const db = await getDb();
+  const showId = parseInt(req.params.showId, 10);
+  const { language, track_index } = req.body;
+  try {
+    if (!getShowById(db, showId)) {
+      return res.status(404).json({ error: 'Show not found' });
+    }
+    if (language && !/^[a-z]{2,3}$/i.test(String(language).trim())) {
+      return res.status(400).json({ error: 'Language must be a two- or three-letter language code' });
+    }
+    const saved = setShowAudioTrackPreference(db, showId, { language, trackIndex: track_index });
+    res.json({ status: 'ok', showId, ...saved });
+  } catch (error) {
+    appLogger.error('Failed to set audio track override:', error);
+    res.status(500).json({ error: 'Failed to set audio track override' });
+  }
+});
+
+// DELETE a show's audio track override so it follows the preferred language again
+router.delete('/audio-tracks/shows/:showId', async (req, res) => {
+  const db = await getDb();
+  try {
+    const removed = deleteShowAudioTrackPreference(db, parseInt(req.params.showId, 10));
+    res.json({ status: 'ok', removed: removed > 0 });
+  } catch (error) {
+    appLogger.error('Failed to delete audio track override:', error);
+    res.status(500).json({ error: 'Failed to delete audio track override' });
+  }
+});
+
+// GET segment plausibility rules for one show (global rules merged with its override)
+router.get('/segment-rules/shows/:showId', async (req, res) => {
+  const db = await getDb();
+  const showId = parseInt(req.params.showId, 10);
+  try {
+    const override = readSegmentRules(db, `segment_rules_show_${showId}`);
+    res.json({
+      showId,
+      rules: normalizeSegmentRules(readSegmentRules(db, 'segment_rules'), override),
+      override,
+    });
+  } catch (error) {
+    appLogger.error('Failed to get segment rules:', error);
+    res.status(500).json({ error: 'Failed to get segment rules' });
+  }
+});
+
+// PUT override segment plausibility rules for one show; only the given rules are overridden
+router.put('/segment-rules/shows/:showId', async (req, res) => {
+  const db = await getDb();
+  const showId = parseInt(req.params.showId, 10);
+  try {
+    if (!getShowById(db, showId)) {
+      return res.status(404).json({ error: 'Show not found' });
+    }
+    const invalid = Object.keys(DEFAULT_SEGMENT_RULES)
+      .filter((key) => req.body[key] !== undefined && !(parseFloat(req.body[key]) > 0));
+    if (invalid.length > 0) {
+      return res.status(400).json({ error: `Segment rules must be positive numbers: ${invalid.join(', ')}` });
+    }
+    const override = Object.fromEntries(Object.entries(normalizeSegmentRules(req.body))
+      .filter(([key]) => req.body[key] !== undefined));
+    setSetting(db, `segment_rules_show_${showId}`, JSON.stringify(override));
+    res.json({
+      status: 'ok',
+      showId,
+      rules: normalizeSegmentRules(readSegmentRules(db, 'segment_rules'), override),
+      override,
+    });
+  } catch (error) {
+    appLogger.error('Failed to set segment rules:', error);
+    res.status(500).json({ error: 'Failed to set segment rules' });
+  }
+});
+
+// DELETE a show's segment rule override
+router.delete('/segment-rules/shows/:showId', async (req, res) => {
+  const db = await getDb();
+  try {
+    const removed = deleteSetting(db, `segment_rules_show_${parseInt(req.params.showId, 10)}`);
+    res.json({ status: 'ok', removed: removed > 0 });
+  } catch (error) {
+    appLogger.error('Failed to delete segment rules:', error);
+    res.status(500).json({ error: 'Failed to delete segment rules' });
+  }
+});
+
 // List subfolders for a given path (default /media)
+// GET every integration's ordered path mapping rules
+router.get('/path-mappings', async (req, res) => {
+  const db = await getDb();
+  try {
+    const rules = getPathMappings(db);
+    const mappings = Object.fromEntries(PATH_MAPPING_INTEGRATIONS.map((integration) =>
+      [integration, rules.filter((rule) => rule.integration === integration)]));
+    res.json({ integrations: PATH_MAPPING_INTEGRATIONS, mappings });
+  } catch (error) {
+    appLogger.error('Failed to get path mappings:', error);
+    res.status(500).json({ error: 'Failed to get path mappings' });
+  }
+});
+
+// PUT the full ordered rule list for one integration; the first matching rule wins
+router.put('/path-mappings/:integration', async (req, res) => {
+  const db = await getDb();
+  const { integration } = req.params;
+  const rules = Array.isArray(req.body?.rules) ? req.body.rules : null;
+  if (!PATH_MAPPING_INTEGRATIONS.includes(integration)) {
+    return res.status(404).json({ error: `Unknown integration: ${integration}` });
+  }
+  if (!rules) {
+    return res.status(400).json({ error: 'rules must be an array' });
+  }
+  try {
+    for (const rule of rules) {
+      const invalid = validatePathMapping(rule);
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+    }
+    const saved = replacePathMappings(db, integration, rules.map((rule) => ({
+      from_prefix: String(rule.from_prefix).trim(),
+      to_prefix: String(rule.to_prefix).trim(),
+    })));
+    res.json({ status: 'ok', integration, rules: saved });
+  } catch (error) {
+    appLogger.error('Failed to save path mappings:', error);
+    res.status(500).json({ error: 'Failed to save path mappings' });
+  }
+});
+
+// POST a path to see how an integration's rules map it and whether Cliparr can reach the result
+router.post('/path-mappings/test', async (req, res) => {
+  const db = await getDb();
+  const { integration, path: inputPath } = req.body || {};
+  if (!PATH_MAPPING_INTEGRATIONS.includes(integration)) {
+    return res.status(400).json({ error: `Unknown integration: ${integration}` });
+  }
+  if (!inputPath || typeof inputPath !== 'string') {
+    return res.status(400).json({ error: 'path is required' });
+  }
+  try {
+    const { path: mapped, rule } = mapIntegrationPath(integration, inputPath, getPathMappings(db, integration));
+    const exists = await fs.access(mapped).then(() => true, () => false);
+    res.json({ integration, input: inputPath, mapped, rule, exists });
+  } catch (error) {
+    appLogger.error('Failed to test path mapping:', error);
+    res.status(500).json({ error: 'Failed to test path mapping' });
+  }
+});
+
 router.get('/filesystem/list', async (req, res) => {
   let basePath = req.query.path || '/media';
   try {
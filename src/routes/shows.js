@@ -3,12 +3,19 @@
 
 import express from 'express';
 import { getImportedShows, getShowById, deleteShowsByIds, getShowWithDetails, getEpisodeFiles, createProcessingJobsForShows, getEpisodeFileIdAndJobIdForShows } from '../database/Db_Operations.js';
-import { enqueueEpisodeProcessing } from '../services/queue.js';
+import { enqueueEpisodeProcessing, enqueueCleanupJob } from '../services/queue.js';
 import { appLogger } from '../services/logger.js';
 import { deleteShowsAndCleanup } from '../services/cleanupService.js';
 
 const router = express.Router();
 
+// Ident pass options a request may set, with their allowed integer ranges
+const IDENT_DETECT_OPTION_RANGES = {
+  minShows: [2, 50],
+  episodesPerShow: [1, 20],
+  maxIdentSec: [1, 120],
+};
+
 // Get all shows
 router.get('/', (req, res) => {
   const db = req.app.get('db');
@@ -23,6 +30,59 @@ router.get('/', (req, res) => {
   }
 });
 
+// List the network idents found across the library
+router.get('/idents', async (req, res) => {
+  try {
+    const { listLibraryIdents } = await import('../services/identDetection.js');
+    res.json({ success: true, idents: await listLibraryIdents() });
+  } catch (error) {
+    appLogger.error('Failed to list library idents:', error);
+    res.status(500).json({ error: 'Failed to list library idents', details: error && error.message });
+  }
+});
+
+// Start the library-wide ident pass; poll /processing/cleanup-job-status/:id for the result
+router.post('/idents/detect', async (req, res) => {
+  const options = {};
+  for (const [key, [min, max]] of Object.entries(IDENT_DETECT_OPTION_RANGES)) {
+    const value = req.body?.[key];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (!Number.isInteger(value) || value < min || value > max) {
+      return res.status(400).json({ error: `${key} must be an integer from ${min} to ${max}` });
+    }
+    options[key] = value;
+  }
+
+  try {
+    const jobId = await enqueueCleanupJob('detectLibraryIdents', options);
+    res.json({ success: true, jobId });
+  } catch (error) {
+    appLogger.error('Failed to enqueue ident detection:', error);
+    res.status(500).json({ error: 'Failed to enqueue ident detection', details: error && error.message });
+  }
+});
+
+// Forget an ident so it is clustered with each show's audio again
+router.delete('/idents/:identId', async (req, res) => {
+  const identId = parseInt(req.params.identId);
+  if (isNaN(identId)) {
+    return res.status(400).json({ error: 'Invalid ident ID' });
+  }
+
+  try {
+    const { deleteLibraryIdent } = await import('../services/identDetection.js');
+    const removed = await deleteLibraryIdent(identId);
+    if (removed === 0) {
+      return res.status(404).json({ error: 'Ident not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    appLogger.error('Failed to delete library ident:', error);
+    res.status(500).json({ error: 'Failed to delete library ident', details: error && error.message });
+  }
+});
 // Get specific show by ID
 router.get('/:id', (req, res) => {
   const db = req.app.get('db');
@@ -249,6 +309,60 @@ router.get('/:showId/detection-stats', async (req, res) => {
   }
 });
 
+// List the approved intro/credits templates learned for a show
+router.get('/:showId/templates', async (req, res) => {
+  const showId = parseInt(req.params.showId);
+  if (isNaN(showId)) {
+    return res.status(400).json({ error: 'Invalid show ID' });
+  }
+
+  try {
+    const { listSegmentTemplates } = await import('../services/segmentTemplates.js');
+    const templates = await listSegmentTemplates(showId);
+    res.json({ success: true, showId, templates });
+  } catch (error) {
+    appLogger.error('Failed to list segment templates:', error);
+    res.status(500).json({ error: 'Failed to list segment templates', details: error && error.message });
+  }
+});
+
+// Forget a show's templates (or one season's with ?season=N) so new episodes use season detection again
+router.delete('/:showId/templates', async (req, res) => {
+  const showId = parseInt(req.params.showId);
+  const seasonNumber = req.query.season !== undefined ? parseInt(req.query.season) : null;
+  if (isNaN(showId) || Number.isNaN(seasonNumber)) {
+    return res.status(400).json({ error: 'Invalid show ID or season number' });
+  }
+
+  try {
+    const { deleteSegmentTemplates } = await import('../services/segmentTemplates.js');
+    const removed = await deleteSegmentTemplates(showId, seasonNumber);
+    appLogger.info({ showId, seasonNumber, removed }, 'Segment templates deleted');
+    res.json({ success: true, removed });
+  } catch (error) {
+    appLogger.error('Failed to delete segment templates:', error);
+    res.status(500).json({ error: 'Failed to delete segment templates', details: error && error.message });
+  }
+});
+
+// Write sidecar skip files beside a show's approved episodes (or one season's with ?season=N).
+// Runs in the background; poll /processing/cleanup-job-status/:id for the result.
+router.post('/:showId/sidecars', async (req, res) => {
+  const showId = parseInt(req.params.showId);
+  const seasonNumber = req.query.season !== undefined ? parseInt(req.query.season) : null;
+  if (isNaN(showId) || Number.isNaN(seasonNumber)) {
+    return res.status(400).json({ error: 'Invalid show ID or season number' });
+  }
+
+  try {
+    const jobId = await enqueueCleanupJob('exportSidecars', { showId, seasonNumber });
+    res.json({ success: true, jobId });
+  } catch (error) {
+    appLogger.error('Failed to enqueue sidecar export:', error);
+    res.status(500).json({ error: 'Failed to enqueue sidecar export', details: error && error.message });
+  }
+});
+
 // Get detailed segment information for a show/season
 router.get('/:showId/segments', async (req, res) => {
   const { showId } = req.params;
@@ -267,11 +381,16 @@ router.get('/:showId/segments', async (req, res) => {
         episode_number,
         intro_start, intro_end,
         credits_start, credits_end,
+        recap_start, recap_end,
+        preview_start, preview_end,
         stingers_data, segments_data,
         confidence_score,
         detection_method,
         approval_status,
-        processing_notes
+        processing_notes,
+        credits_merge_data,
+        confidence_breakdown,
+        idents_data
       FROM detection_results
       WHERE show_id = ?
     `;
@@ -286,14 +405,22 @@ router.get('/:showId/segments', async (req, res) => {
     sql += ' ORDER BY season_number, episode_number';
 
     const results = db.prepare(sql).all(...params);
+    const { getIdentSkipEnabled } = await import('../services/identDetection.js');
+    const skipIdents = await getIdentSkipEnabled();
 
-    // Parse JSON data for stingers and segments
+    // Parse JSON data for stingers, segments and the credits merge record
     const processedResults = results.map((row) => ({
       ...row,
       stingers: row.stingers_data ? JSON.parse(row.stingers_data) : [],
       segments: row.segments_data ? JSON.parse(row.segments_data) : [],
+      credits_merge: row.credits_merge_data ? JSON.parse(row.credits_merge_data) : null,
+      confidence_breakdown: row.confidence_breakdown ? JSON.parse(row.confidence_breakdown) : null,
+      idents: row.idents_data ?
+        JSON.parse(row.idents_data).map((ident) => ({ ...ident, skippable: skipIdents })) : [],
       stingers_data: undefined, // Remove raw data
       segments_data: undefined, // Remove raw data
+      credits_merge_data: undefined, // Remove raw data
+      idents_data: undefined, // Remove raw data
     }));
 
     appLogger.info({
@@ -12,6 +12,7 @@ import {
   findShowByTitleAndPath,
   processShowData,
   getSetting,
+  getPathMappings,
 } from '../database/Db_Operations.js';
 import { mapSonarrPath } from '../utils/pathMap.js';
 
@@ -106,6 +107,7 @@ async function importShowById(showId, req, wss, db) {
     episodes.forEach((ep) => idToNumber.set(ep.id, ep.episodeNumber));
 
     // Map files
+    const pathRules = getPathMappings(db, 'sonarr');
     const files = episodeFiles
       .map((file) => {
         let epId = null;
@@ -144,7 +146,7 @@ async function importShowById(showId, req, wss, db) {
         if (!epId) {
           return null;
         }
-        const hostPath = mapSonarrPath(file.path || file.relativePath || '');
+        const hostPath = mapSonarrPath(file.path || file.relativePath || '', pathRules);
         return {
           episodeId: epId,
           path: hostPath,
@@ -0,0 +1,144 @@
+// Audio stream enumeration and track selection for fingerprinting.
+// Every episode of a show must be fingerprinted from a comparable track, or clustering finds nothing.
+import { execFile } from 'child_process';
+
+// ffprobe language tags are ISO 639-2; users often type the two-letter ISO 639-1 code
+const LANGUAGE_ALIASES = {
+  en: ['eng'],
+  ja: ['jpn'],
+  de: ['ger', 'deu'],
+  fr: ['fre', 'fra'],
+  es: ['spa'],
+  it: ['ita'],
+  pt: ['por'],
+  ru: ['rus'],
+  zh: ['chi', 'zho'],
+  ko: ['kor'],
+  nl: ['dut', 'nld'],
+  sv: ['swe'],
+  no: ['nor', 'nob', 'nno'],
+  da: ['dan'],
+  fi: ['fin'],
+  pl: ['pol'],
+};
+
+// Layouts with a front-center channel, where the dialogue and most theme music sit
+const CENTER_CHANNEL_LAYOUTS = new Set([
+  '3.0', '3.0(back)', '3.1', '4.0', '4.1', '5.0', '5.0(side)', '5.1', '5.1(side)',
+  '6.0', '6.1', '6.1(back)', '6.1(front)', '7.0', '7.0(front)', '7.1', '7.1(wide)', '7.1(wide-side)',
+]);
+
+/**
+ * List a file's audio streams with ffprobe.
+ * `audioIndex` is the position among audio streams, as used by `-map 0:a:N`.
+ */
+export function probeAudioStreams(filePath) {
+  return new Promise((resolve, reject) => {
+    execFile('ffprobe', [
+      '-v', 'error',
+      '-select_streams', 'a',
+      '-show_entries', 'stream=index,codec_name,channels,channel_layout:stream_tags=language,title:stream_disposition=default,comment,visual_impaired',
+      '-of', 'json',
+      filePath,
+    ], (err, stdout) => {
+      if (err) {
+        return reject(err);
+      }
+      try {
+        const streams = JSON.parse(stdout).streams || [];
+        resolve(streams.map((stream, audioIndex) => ({
+          index: stream.index,
+          audioIndex,
+          codec: stream.codec_name || null,
+          channels: stream.channels || 0,
+          channelLayout: stream.channel_layout || null,
+          language: (stream.tags?.language || 'und').toLowerCase(),
+          title: stream.tags?.title || null,
+          isDefault: stream.disposition?.default === 1,
+          // Commentary and audio description tracks never share audio with the main mix
+          isCommentary: stream.disposition?.comment === 1 || stream.disposition?.visual_impaired === 1 ||
+            /commentary|description/i.test(stream.tags?.title || ''),
+        })));
+      } catch (parseError) {
+        reject(parseError);
+      }
+    });
+  });
+}
+
+/**
+ * Check a stream language tag against a preferred language (two- or three-letter code)
+ */
+export function languageMatches(tag, preferred) {
+  if (!tag || !preferred) {
+    return false;
+  }
+  const wanted = preferred.toLowerCase();
+  return tag === wanted || (LANGUAGE_ALIASES[wanted] || []).includes(tag) ||
+    (LANGUAGE_ALIASES[tag] || []).includes(wanted);
+}
+
+/**
+ * Pick the audio stream to fingerprint.
+ * `preference` is { language, trackIndex }: an explicit track wins, then the preferred language,
+ * then the default track; commentary tracks are only used when nothing else exists.
+ * Returns { stream, reason } or null when the file has no audio.
+ */
+export function selectAudioStream(streams, preference = {}) {
+  if (!streams || streams.length === 0) {
+    return null;
+  }
+
+  if (Number.isInteger(preference.trackIndex)) {
+    const explicit = streams.find((stream) => stream.audioIndex === preference.trackIndex);
+    if (explicit) {
+      return { stream: explicit, reason: 'track' };
+    }
+  }
+
+  const main = streams.filter((stream) => !stream.isCommentary);
+  const candidates = main.length > 0 ? main : streams;
+  const preferDefault = (list) => list.find((stream) => stream.isDefault) || list[0];
+
+  if (preference.language) {
+    const matching = candidates.filter((stream) => languageMatches(stream.language, preference.language));
+    if (matching.length > 0) {
+      return { stream: preferDefault(matching), reason: 'language' };
+    }
+  }
+  return { stream: preferDefault(candidates), reason: main.length > 0 ? 'default' : 'only_commentary' };
+}
+
+/**
+ * Build the mono downmix for a stream's channel layout
+ */
+export function downmixFilter(stream) {
+  if (!stream || stream.channels === 0) {
+    // Unknown layout: keep the original stereo assumption
+    return 'pan=mono|c0=.5*c0+.5*c1';
+  }
+  if (stream.channels === 1) {
+    return 'pan=mono|c0=c0';
+  }
+  if (CENTER_CHANNEL_LAYOUTS.has(stream.channelLayout)) {
+    return 'pan=mono|c0=FC';
+  }
+  return 'pan=mono|c0=.5*c0+.5*c1';
+}
+
+/**
+ * Describe a selected stream for storing next to its fingerprints
+ */
+export function describeAudioStream(selection) {
+  if (!selection) {
+    return null;
+  }
+  const { stream, reason } = selection;
+  return {
+    audioIndex: stream.audioIndex,
+    language: stream.language,
+    channelLayout: stream.channelLayout,
+    channels: stream.channels,
+    reason,
+  };
+}
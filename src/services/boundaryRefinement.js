@@ -0,0 +1,173 @@
+// Boundary refinement pass that snaps coarse intro/credits boundaries to nearby scene breaks.
+// Runs ffmpeg silencedetect and blackdetect around each boundary and records why a boundary moved.
+import { execFile } from 'child_process';
+import { workerLogger } from './logger.js';
+
+const DEFAULT_REFINEMENT_OPTIONS = {
+  toleranceSec: 3, // how far a boundary may move
+  silenceNoiseDb: -50, // silencedetect noise floor
+  minSilenceSec: 0.3, // shortest silence worth snapping to
+  minBlackSec: 0.1, // shortest black run worth snapping to
+};
+
+/**
+ * Run ffmpeg over a short window of the file and return its stderr
+ */
+function runFfmpegWindow(filePath, from, duration, filterArgs) {
+  return new Promise((resolve, reject) => {
+    execFile('ffmpeg', [
+      '-hide_banner',
+      '-nostats',
+      '-ss', String(from),
+      '-t', String(duration),
+      '-i', filePath,
+      ...filterArgs,
+      '-f', 'null',
+      '-',
+    ], { maxBuffer: 10 * 1024 * 1024 }, (err, _stdout, stderr) => {
+      if (err) {
+        return reject(new Error(`ffmpeg analysis failed: ${err.message}`));
+      }
+      resolve(stderr || '');
+    });
+  });
+}
+
+/**
+ * Find silence gaps in [from, from + duration), in absolute file time
+ */
+async function detectSilences(filePath, from, duration, options) {
+  const stderr = await runFfmpegWindow(filePath, from, duration, [
+    '-vn',
+    '-af', `silencedetect=noise=${options.silenceNoiseDb}dB:d=${options.minSilenceSec}`,
+  ]);
+
+  const gaps = [];
+  let openStart = null;
+  for (const line of stderr.split('\n')) {
+    const startMatch = line.match(/silence_start:\s*(-?[0-9.]+)/);
+    const endMatch = line.match(/silence_end:\s*([0-9.]+)/);
+    if (startMatch) {
+      openStart = Math.max(0, parseFloat(startMatch[1]));
+    } else if (endMatch && openStart !== null) {
+      gaps.push({ start: from + openStart, end: from + parseFloat(endMatch[1]) });
+      openStart = null;
+    }
+  }
+  // Silence running to the end of the window
+  if (openStart !== null) {
+    gaps.push({ start: from + openStart, end: from + duration });
+  }
+  return gaps;
+}
+
+/**
+ * Find black-frame runs in [from, from + duration), in absolute file time
+ */
+async function detectBlackFrames(filePath, from, duration, options) {
+  const stderr = await runFfmpegWindow(filePath, from, duration, [
+    '-an',
+    '-vf', `blackdetect=d=${options.minBlackSec}:pix_th=0.10`,
+  ]);
+
+  const gaps = [];
+  const pattern = /black_start:\s*([0-9.]+)\s+black_end:\s*([0-9.]+)/g;
+  let match;
+  while ((match = pattern.exec(stderr)) !== null) {
+    gaps.push({ start: from + parseFloat(match[1]), end: from + parseFloat(match[2]) });
+  }
+  return gaps;
+}
+
+/**
+ * Pick the snap point for one boundary from the detected gaps.
+ * Start boundaries snap to the start of a gap and end boundaries to its end, so the
+ * removed range swallows the pause. Gaps where picture and sound both break win
+ * over black-only, which wins over silence-only.
+ */
+export function chooseSnapPoint(time, edge, silences, blacks, toleranceSec) {
+  const pointOf = (gap) => (edge === 'start' ? gap.start : gap.end);
+  const overlapsAny = (gap, others) =>
+    others.some((other) => gap.start < other.end && other.start < gap.end);
+
+  const candidates = [
+    ...blacks.map((gap) => ({
+      time: pointOf(gap),
+      reason: overlapsAny(gap, silences) ? 'black_and_silence' : 'black_frame',
+    })),
+    ...silences
+      .filter((gap) => !overlapsAny(gap, blacks))
+      .map((gap) => ({ time: pointOf(gap), reason: 'silence' })),
+  ].filter((candidate) => Math.abs(candidate.time - time) <= toleranceSec);
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const priority = { black_and_silence: 0, black_frame: 1, silence: 2 };
+  candidates.sort((a, b) =>
+    priority[a.reason] - priority[b.reason] || Math.abs(a.time - time) - Math.abs(b.time - time));
+  return candidates[0];
+}
+
+/**
+ * Refine a single boundary of a segment
+ */
+async function refineBoundary(filePath, time, edge, fileDuration, options) {
+  const original = time;
+  // Boundaries pinned to the start or end of the file are already clean
+  if (time <= 0.5 || (fileDuration && time >= fileDuration - 0.5)) {
+    return { original, refined: original, moved: 0, reason: 'file_edge' };
+  }
+
+  const from = Math.max(0, time - options.toleranceSec);
+  const duration = options.toleranceSec * 2;
+  const [silences, blacks] = await Promise.all([
+    detectSilences(filePath, from, duration, options),
+    detectBlackFrames(filePath, from, duration, options).catch(() => []), // audio-only files
+  ]);
+
+  const snap = chooseSnapPoint(time, edge, silences, blacks, options.toleranceSec);
+  if (!snap) {
+    return { original, refined: original, moved: 0, reason: 'no_break_in_tolerance' };
+  }
+  const refined = Math.round(snap.time * 1000) / 1000;
+  return {
+    original,
+    refined,
+    moved: Math.round((refined - original) * 1000) / 1000,
+    reason: snap.reason,
+  };
+}
+
+/**
+ * Refine the start and end of a detected segment in one episode file.
+ * Returns the refinement record ({ label, start, end, toleranceSec }) or null on failure.
+ */
+export async function refineSegmentBoundaries(filePath, segment, label, fileDuration, options = {}) {
+  const opts = { ...DEFAULT_REFINEMENT_OPTIONS, ...options };
+  if (!filePath || !segment) {
+    return null;
+  }
+
+  try {
+    const start = await refineBoundary(filePath, segment.start, 'start', fileDuration, opts);
+    const end = await refineBoundary(filePath, segment.end, 'end', fileDuration, opts);
+
+    // Never let refinement invert or collapse the segment
+    if (end.refined <= start.refined) {
+      return {
+        label,
+        toleranceSec: opts.toleranceSec,
+        start: { ...start, refined: start.original, moved: 0, reason: 'rejected_collapse' },
+        end: { ...end, refined: end.original, moved: 0, reason: 'rejected_collapse' },
+      };
+    }
+
+    workerLogger.info({ filePath, label, start, end }, 'Segment boundaries refined');
+    return { label, toleranceSec: opts.toleranceSec, start, end };
+  } catch (error) {
+    workerLogger.warn({ filePath, label, error: error.message }, 'Boundary refinement failed, keeping coarse boundaries');
+    return null;
+  }
+}
@@ -0,0 +1,217 @@
+// Non-destructive output mode: marks detected segments as named chapters instead of removing them.
+// Chapters are written with a stream-copy remux, so only the container changes.
+import fsp from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { workerLogger } from './logger.js';
+import { broadcastJobUpdate } from './websocket.js';
+import { getDb, getSetting, getProcessingJobById, updateProcessingJob } from '../database/Db_Operations.js';
+import {
+  probeVideo,
+  runFfmpeg,
+  moveFile,
+  resolveOutputPaths,
+  backupOriginal,
+  getJobOutputError,
+} from './segmentTrimmer.js';
+import { verifyOutputFile, describeVerification } from './trimVerification.js';
+import { getSkippableIdents } from './identDetection.js';
+
+const DEFAULT_CHAPTER_OPTIONS = {
+  minChapterSec: 1, // shorter gaps between segments are absorbed into the previous chapter
+  contentTitle: 'Episode',
+  idents: [], // [{ start, end }] marked as Ident chapters
+};
+
+// Detected segment columns and the chapter title each becomes
+const SEGMENT_CHAPTERS = [
+  { column: 'recap', title: 'Recap' },
+  { column: 'intro', title: 'Intro' },
+  { column: 'credits', title: 'Credits' },
+  { column: 'preview', title: 'Preview' },
+];
+
+// Containers ffmpeg can write chapters into
+const CHAPTER_CONTAINERS = new Set(['.mkv', '.mk3d', '.webm', '.mp4', '.m4v', '.mov']);
+
+/**
+ * Build a contiguous chapter list covering the whole file from a detection_results row.
+ * Returns [{ title, start, end }] in seconds.
+ */
+export function buildChapterList(duration, detection, options = {}) {
+  const { minChapterSec, contentTitle, idents } = { ...DEFAULT_CHAPTER_OPTIONS, ...options };
+  const marked = SEGMENT_CHAPTERS
+    .map(({ column, title }) => ({ title, start: detection?.[`${column}_start`], end: detection?.[`${column}_end`] }))
+    .concat(idents.map((ident) => ({ title: 'Ident', start: ident.start, end: ident.end })))
+    .filter((segment) => segment.start !== null && segment.start !== undefined && segment.end > segment.start)
+    .map((segment) => ({ ...segment, start: Math.max(0, segment.start), end: Math.min(duration, segment.end) }))
+    .sort((a, b) => a.start - b.start);
+
+  const chapters = [];
+  let cursor = 0;
+  for (const segment of marked) {
+    // Overlapping segments keep the earlier one's end
+    const start = Math.max(segment.start, cursor);
+    if (segment.end - start < minChapterSec) {
+      continue;
+    }
+    if (start - cursor >= minChapterSec) {
+      chapters.push({ title: contentTitle, start: cursor, end: start });
+    } else if (chapters.length > 0) {
+      chapters[chapters.length - 1].end = start;
+    }
+    chapters.push({ title: segment.title, start: chapters.length === 0 ? 0 : start, end: segment.end });
+    cursor = segment.end;
+  }
+  if (duration - cursor >= minChapterSec || chapters.length === 0) {
+    chapters.push({ title: contentTitle, start: cursor, end: duration });
+  } else {
+    chapters[chapters.length - 1].end = duration;
+  }
+  return chapters.map((chapter) => ({
+    title: chapter.title,
+    start: Math.round(chapter.start * 1000) / 1000,
+    end: Math.round(chapter.end * 1000) / 1000,
+  }));
+}
+
+/**
+ * Render chapters as an ffmetadata document
+ */
+export function formatFfmetadata(chapters) {
+  const lines = [';FFMETADATA1'];
+  for (const chapter of chapters) {
+    lines.push(
+      '[CHAPTER]',
+      'TIMEBASE=1/1000',
+      `START=${Math.round(chapter.start * 1000)}`,
+      `END=${Math.round(chapter.end * 1000)}`,
+      `title=${chapter.title.replace(/[=;#\\\n]/g, (char) => `\\${char}`)}`,
+    );
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Replace a file's chapters with the given list, keeping every stream as is.
+ * `options` takes outputDirectory, backupOriginals and tempDir, as for trimming.
+ */
+export async function writeChapters(filePath, chapters, options = {}) {
+  const extension = path.extname(filePath).toLowerCase();
+  if (!CHAPTER_CONTAINERS.has(extension)) {
+    throw new Error(`Chapters cannot be written to ${extension || 'extensionless'} files`);
+  }
+
+  const workDir = path.join(options.tempDir || path.join(os.tmpdir(), 'cliprr'), `chapters-${uuidv4()}`);
+  await fsp.mkdir(workDir, { recursive: true });
+  try {
+    const metadataPath = path.join(workDir, 'chapters.txt');
+    await fsp.writeFile(metadataPath, formatFfmetadata(chapters));
+    const remuxedPath = path.join(workDir, `remuxed${extension}`);
+    await runFfmpeg([
+      '-v', 'error',
+      '-i', filePath,
+      '-f', 'ffmetadata', '-i', metadataPath,
+      '-map', '0', '-map_metadata', '0', '-map_chapters', '1',
+      '-c', 'copy',
+      '-y', remuxedPath,
+    ]);
+
+    // Only the container changes, so the remux must keep the source's duration and streams
+    const verification = await verifyOutputFile(filePath, remuxedPath);
+    if (!verification.passed) {
+      throw new Error(`Output verification failed, original kept: ${describeVerification(verification)}`);
+    }
+
+    const { outputPath, backupPath } = resolveOutputPaths(filePath, options);
+    if (backupPath) {
+      await backupOriginal(filePath, backupPath);
+    }
+    await moveFile(remuxedPath, outputPath);
+    workerLogger.info({ filePath, outputPath, backupPath, chapters: chapters.length }, 'Chapters written');
+    return { outputPath, backupPath, chapters };
+  } finally {
+    await fsp.rm(workDir, { recursive: true, force: true }).catch((error) => {
+      workerLogger.debug({ workDir, error: error.message }, 'Failed to remove chapters work directory');
+    });
+  }
+}
+
+/**
+ * Work out the chapters a processing job's file would get, without writing anything.
+ * The job's reviewed recap/intro/credits times take the place of the detected ones.
+ * Returns null when the job's episode has no detection results yet.
+ */
+export async function planJobChapters(job) {
+  const db = await getDb();
+  const detection = db.prepare(`
+    SELECT * FROM detection_results
+    WHERE episode_file_id = ?
+    ORDER BY updated_at DESC
+    LIMIT 1
+  `).get(job.media_file_id);
+  if (!detection) {
+    return null;
+  }
+
+  const video = await probeVideo(job.file_path);
+  if (!video.duration) {
+    throw new Error(`Could not read the duration of ${job.file_path}`);
+  }
+  const reviewed = Object.fromEntries(['recap', 'intro', 'credits']
+    .flatMap((column) => [`${column}_start`, `${column}_end`])
+    .map((key) => [key, job[key] ?? null]));
+  const idents = await getSkippableIdents(job.media_file_id);
+  return {
+    filePath: job.file_path,
+    duration: video.duration,
+    chapters: buildChapterList(video.duration, { ...detection, ...reviewed }, { idents }),
+  };
+}
+
+/**
+ * Write chapter markers into the file of an approved processing job,
+ * following the output_directory and backup_originals settings
+ */
+export async function writeApprovedJobChapters(dbJobId) {
+  const db = await getDb();
+  const job = getProcessingJobById(db, dbJobId);
+  if (!job) {
+    throw new Error(`Processing job not found: ${dbJobId}`);
+  }
+  const outputError = getJobOutputError(job);
+  if (outputError) {
+    throw new Error(outputError);
+  }
+  const plan = await planJobChapters(job);
+  if (!plan) {
+    throw new Error(`No detection results for processing job ${dbJobId}`);
+  }
+  const { filePath, chapters } = plan;
+
+  updateProcessingJob(db, dbJobId, { status: 'processing', processing_notes: 'Writing chapter markers...' });
+  broadcastJobUpdate({ type: 'job_update', dbJobId, status: 'processing', message: 'Writing chapter markers...' });
+  try {
+    const result = await writeChapters(filePath, chapters, {
+      outputDirectory: getSetting(db, 'output_directory', ''),
+      backupOriginals: getSetting(db, 'backup_originals', '1') === '1',
+      tempDir: getSetting(db, 'temp_dir', null),
+    });
+    const notes = `Wrote ${chapters.length} chapters (${chapters.map((chapter) => chapter.title).join(', ')}). ` +
+      `Output: ${result.outputPath}${result.backupPath ? `. Original backed up to ${result.backupPath}` : ''}`;
+    updateProcessingJob(db, dbJobId, {
+      status: 'completed',
+      processing_notes: notes,
+      output_path: result.outputPath,
+      output_mode: 'chapters',
+    });
+    broadcastJobUpdate({ type: 'job_update', dbJobId, status: 'completed', progress: 100, message: notes });
+    return result;
+  } catch (error) {
+    workerLogger.error({ dbJobId, filePath, error: error.message }, 'Writing chapters failed');
+    updateProcessingJob(db, dbJobId, { status: 'failed', processing_notes: `Writing chapters failed: ${error.message}` });
+    broadcastJobUpdate({ type: 'job_update', dbJobId, status: 'failed', message: error.message });
+    throw error;
+  }
+}
@@ -0,0 +1,326 @@
+// In-process Chromaprint fingerprinting (default fpcalc algorithm) over a single audio decode.
+// ffmpeg streams 11025 Hz mono PCM once and raw sub-fingerprints come out for the whole file.
+import { spawn } from 'child_process';
+
+const SAMPLE_RATE = 11025;
+const FRAME_SIZE = 4096;
+const FRAME_STEP = Math.floor(FRAME_SIZE / 3); // 1365 samples between frames
+const NUM_BANDS = 12;
+const MIN_FREQ = 28;
+const MAX_FREQ = 3520;
+const CHROMA_FILTER = [0.25, 0.75, 1.0, 0.75, 0.25];
+const NORMALIZE_THRESHOLD = 0.01;
+const GRAY_CODE = [0, 1, 3, 2];
+
+// Classifiers of the default algorithm: [filterType, y, height, width, t0, t1, t2]
+const CLASSIFIERS = [
+  [0, 4, 3, 15, 1.98215, 2.35817, 2.63523],
+  [4, 4, 6, 15, -1.03809, -0.651211, -0.282167],
+  [1, 0, 4, 16, -0.298702, 0.119262, 0.558497],
+  [3, 8, 2, 12, -0.105439, 0.0153946, 0.135898],
+  [3, 4, 4, 8, -0.142891, 0.0258736, 0.200632],
+  [4, 0, 3, 5, -0.826319, -0.590612, -0.368214],
+  [1, 2, 2, 9, -0.557409, -0.233035, 0.0534525],
+  [2, 7, 3, 4, -0.0646826, 0.00620476, 0.0784847],
+  [2, 6, 2, 16, -0.192387, -0.029699, 0.215855],
+  [2, 1, 3, 2, -0.0397818, -0.00568076, 0.0292026],
+  [5, 10, 1, 15, -0.53823, -0.369934, -0.190235],
+  [3, 6, 2, 10, -0.124877, 0.0296483, 0.139239],
+  [2, 1, 1, 14, -0.101475, 0.0225617, 0.231971],
+  [3, 5, 6, 4, -0.0799915, -0.00729616, 0.063262],
+  [1, 9, 2, 12, -0.272556, 0.019424, 0.302559],
+  [3, 4, 2, 14, -0.164292, -0.0321188, 0.08463],
+];
+const MAX_FILTER_WIDTH = Math.max(...CLASSIFIERS.map((classifier) => classifier[3]));
+
+/**
+ * Precomputed tables shared by every context
+ */
+function buildTables() {
+  const bits = Math.log2(FRAME_SIZE);
+  const bitReverse = new Uint16Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) {
+    let reversed = 0;
+    for (let b = 0; b < bits; b++) {
+      reversed = (reversed << 1) | ((i >> b) & 1);
+    }
+    bitReverse[i] = reversed;
+  }
+
+  const cos = new Float64Array(FRAME_SIZE / 2);
+  const sin = new Float64Array(FRAME_SIZE / 2);
+  for (let i = 0; i < FRAME_SIZE / 2; i++) {
+    cos[i] = Math.cos((2 * Math.PI * i) / FRAME_SIZE);
+    sin[i] = -Math.sin((2 * Math.PI * i) / FRAME_SIZE);
+  }
+
+  // Hamming window, pre-scaled from int16 to [-1, 1]
+  const window = new Float64Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) {
+    window[i] = (0.54 - 0.46 * Math.cos((i * 2 * Math.PI) / (FRAME_SIZE - 1))) / 32767;
+  }
+
+  const minIndex = Math.max(1, Math.round((FRAME_SIZE * MIN_FREQ) / SAMPLE_RATE));
+  const maxIndex = Math.min(FRAME_SIZE / 2, Math.round((FRAME_SIZE * MAX_FREQ) / SAMPLE_RATE));
+  const notes = new Uint8Array(FRAME_SIZE / 2);
+  for (let i = minIndex; i < maxIndex; i++) {
+    const freq = (i * SAMPLE_RATE) / FRAME_SIZE;
+    const octave = Math.log(freq / (440 / 16)) / Math.log(2);
+    notes[i] = Math.floor(NUM_BANDS * (octave - Math.floor(octave)));
+  }
+
+  return { bitReverse, cos, sin, window, minIndex, maxIndex, notes };
+}
+
+let tables = null;
+
+/**
+ * In-place radix-2 FFT
+ */
+function fft(re, im) {
+  const { bitReverse, cos, sin } = tables;
+  for (let i = 0; i < FRAME_SIZE; i++) {
+    const j = bitReverse[i];
+    if (j > i) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= FRAME_SIZE; size <<= 1) {
+    const half = size >> 1;
+    const step = FRAME_SIZE / size;
+    for (let start = 0; start < FRAME_SIZE; start += size) {
+      for (let k = 0; k < half; k++) {
+        const wr = cos[k * step];
+        const wi = sin[k * step];
+        const a = start + k;
+        const b = a + half;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+}
+
+/**
+ * Sum of the integral image over rows [r1, r2) and bands [c1, c2)
+ */
+function area(rows, r1, c1, r2, c2) {
+  if (r1 === r2 || c1 === c2) {
+    return 0;
+  }
+  const bottom = rows[r2 - 1];
+  const top = r1 > 0 ? rows[r1 - 1] : null;
+  let sum = bottom[c2 - 1] - (c1 > 0 ? bottom[c1 - 1] : 0);
+  if (top) {
+    sum -= top[c2 - 1] - (c1 > 0 ? top[c1 - 1] : 0);
+  }
+  return sum;
+}
+
+/**
+ * Apply one of the six Haar-like filters at row x, comparing areas in log space
+ */
+function applyFilter(rows, type, x, y, w, h) {
+  const subtractLog = (a, b) => Math.log(1 + a) - Math.log(1 + b);
+  switch (type) {
+    case 0:
+      return subtractLog(area(rows, x, y, x + w, y + h), 0);
+    case 1: {
+      const h2 = h >> 1;
+      return subtractLog(area(rows, x, y + h2, x + w, y + h), area(rows, x, y, x + w, y + h2));
+    }
+    case 2: {
+      const w2 = w >> 1;
+      return subtractLog(area(rows, x + w2, y, x + w, y + h), area(rows, x, y, x + w2, y + h));
+    }
+    case 3: {
+      const w2 = w >> 1;
+      const h2 = h >> 1;
+      return subtractLog(
+        area(rows, x, y + h2, x + w2, y + h) + area(rows, x + w2, y, x + w, y + h2),
+        area(rows, x, y, x + w2, y + h2) + area(rows, x + w2, y + h2, x + w, y + h),
+      );
+    }
+    case 4: {
+      const h3 = (h / 3) | 0;
+      return subtractLog(
+        area(rows, x, y + h3, x + w, y + 2 * h3),
+        area(rows, x, y, x + w, y + h3) + area(rows, x, y + 2 * h3, x + w, y + h),
+      );
+    }
+    case 5: {
+      const w3 = (w / 3) | 0;
+      return subtractLog(
+        area(rows, x + w3, y, x + 2 * w3, y + h),
+        area(rows, x, y, x + w3, y + h) + area(rows, x + 2 * w3, y, x + w, y + h),
+      );
+    }
+    default:
+      throw new Error(`Unknown chromaprint filter type ${type}`);
+  }
+}
+
+/**
+ * Create a streaming fingerprint context. Feed it 11025 Hz mono int16 samples with
+ * `feed(samples)` and collect the unsigned 32-bit sub-fingerprints with `finish()`.
+ */
+export function createChromaprintContext() {
+  if (!tables) {
+    tables = buildTables();
+  }
+  const { window, minIndex, maxIndex, notes } = tables;
+
+  const pending = new Int16Array(FRAME_SIZE);
+  let pendingLength = 0;
+  const re = new Float64Array(FRAME_SIZE);
+  const im = new Float64Array(FRAME_SIZE);
+  const chromaBuffer = [];
+  const integralRows = [];
+  const fingerprint = [];
+
+  const addFeatureRow = (features) => {
+    // Chroma normalizer: unit Euclidean norm, near-silence becomes zeros
+    const norm = Math.sqrt(features.reduce((sum, value) => sum + value * value, 0));
+    const row = new Float64Array(NUM_BANDS);
+    const previous = integralRows[integralRows.length - 1];
+    let running = 0;
+    for (let band = 0; band < NUM_BANDS; band++) {
+      running += norm < NORMALIZE_THRESHOLD ? 0 : features[band] / norm;
+      row[band] = running + (previous ? previous[band] : 0);
+    }
+    integralRows.push(row);
+
+    if (integralRows.length >= MAX_FILTER_WIDTH) {
+      const x = integralRows.length - MAX_FILTER_WIDTH;
+      let bits = 0;
+      for (const [type, y, height, width, t0, t1, t2] of CLASSIFIERS) {
+        const value = applyFilter(integralRows, type, x, y, width, height);
+        let quantized;
+        if (value < t1) {
+          quantized = value < t0 ? 0 : 1;
+        } else {
+          quantized = value < t2 ? 2 : 3;
+        }
+        bits = ((bits << 2) | GRAY_CODE[quantized]) >>> 0;
+      }
+      fingerprint.push(bits);
+    }
+  };
+
+  const processFrame = () => {
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      re[i] = pending[i] * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    const chroma = new Float64Array(NUM_BANDS);
+    for (let i = minIndex; i < maxIndex; i++) {
+      chroma[notes[i]] += re[i] * re[i] + im[i] * im[i];
+    }
+
+    // 5-tap temporal smoothing of the chroma vectors
+    chromaBuffer.push(chroma);
+    if (chromaBuffer.length > CHROMA_FILTER.length) {
+      chromaBuffer.shift();
+    }
+    if (chromaBuffer.length === CHROMA_FILTER.length) {
+      const smoothed = new Array(NUM_BANDS).fill(0);
+      chromaBuffer.forEach((frame, j) => {
+        for (let band = 0; band < NUM_BANDS; band++) {
+          smoothed[band] += frame[band] * CHROMA_FILTER[j];
+        }
+      });
+      addFeatureRow(smoothed);
+    }
+  };
+
+  return {
+    feed(samples) {
+      let offset = 0;
+      while (offset < samples.length) {
+        const take = Math.min(FRAME_SIZE - pendingLength, samples.length - offset);
+        pending.set(samples.subarray(offset, offset + take), pendingLength);
+        pendingLength += take;
+        offset += take;
+        if (pendingLength === FRAME_SIZE) {
+          processFrame();
+          // Keep the overlap for the next frame
+          pending.copyWithin(0, FRAME_STEP, FRAME_SIZE);
+          pendingLength = FRAME_SIZE - FRAME_STEP;
+        }
+      }
+    },
+    finish() {
+      return fingerprint;
+    },
+  };
+}
+
+/**
+ * Fingerprint a whole audio file with one ffmpeg decode.
+ * `onProgress(seconds)` receives the amount of audio consumed so far.
+ */
+export function fingerprintAudioFile(filePath, { onProgress = null, onSpawn = null } = {}) {
+  return new Promise((resolve, reject) => {
+    const context = createChromaprintContext();
+    const ffmpeg = spawn('ffmpeg', [
+      '-hide_banner',
+      '-loglevel', 'error',
+      '-i', filePath,
+      '-vn',
+      '-ac', '1',
+      '-ar', String(SAMPLE_RATE),
+      '-f', 's16le',
+      '-acodec', 'pcm_s16le',
+      '-',
+    ]);
+    if (onSpawn) {
+      onSpawn(ffmpeg);
+    }
+
+    let carry = null; // odd trailing byte from the previous chunk
+    let samplesSeen = 0;
+    let lastReportedSec = 0;
+    let stderr = '';
+
+    ffmpeg.stdout.on('data', (data) => {
+      let bytes = carry ? Buffer.concat([carry, data]) : data;
+      carry = null;
+      if (bytes.length % 2 === 1) {
+        carry = bytes.subarray(bytes.length - 1);
+        bytes = bytes.subarray(0, bytes.length - 1);
+      }
+      // Copy so the Int16Array view is aligned
+      const aligned = new Uint8Array(bytes).buffer;
+      const samples = new Int16Array(aligned);
+      context.feed(samples);
+
+      samplesSeen += samples.length;
+      const seconds = samplesSeen / SAMPLE_RATE;
+      if (onProgress && seconds - lastReportedSec >= 30) {
+        lastReportedSec = seconds;
+        onProgress(seconds);
+      }
+    });
+    ffmpeg.stderr.on('data', (data) => {
+      stderr += data.toString();
+    });
+    ffmpeg.on('error', reject);
+    ffmpeg.on('close', (code) => {
+      if (code !== 0) {
+        const truncatedStderr = stderr.split('\n').slice(0, 5).join('\n');
+        return reject(new Error(`ffmpeg PCM decode failed: ${truncatedStderr || `exit code ${code}`}`));
+      }
+      resolve({
+        fingerprint: context.finish(),
+        duration: samplesSeen / SAMPLE_RATE,
+      });
+    });
+  });
+}
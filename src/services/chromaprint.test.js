@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createChromaprintContext } from './chromaprint.js';
+
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), '../testUtils/fixtures');
+// 6s of 11025 Hz mono 16-bit tones, a different note pair every half second
+const TONES_WAV = path.join(FIXTURES, 'chromaprint-tones.wav');
+// `fpcalc -raw -plain chromaprint-tones.wav` on the fixture above
+const TONES_FPCALC = path.join(FIXTURES, 'chromaprint-tones.fpcalc.txt');
+const FRAME_STEP = 1365;
+
+/**
+ * Samples of a canonical 44-byte-header PCM WAV file
+ */
+function readWavSamples(filePath) {
+  const data = fs.readFileSync(filePath).subarray(44);
+  return new Int16Array(data.buffer, data.byteOffset, data.length / 2);
+}
+
+function fingerprint(samples, chunkSize = samples.length) {
+  const context = createChromaprintContext();
+  for (let offset = 0; offset < samples.length; offset += chunkSize) {
+    context.feed(samples.subarray(offset, offset + chunkSize));
+  }
+  return context.finish();
+}
+
+test('fingerprints the same however the samples are chunked', () => {
+  const samples = readWavSamples(TONES_WAV);
+  const whole = fingerprint(samples);
+
+  // One sub-fingerprint per frame, once the 5-frame chroma smoothing and the
+  // 16-row classifier window are full
+  const frames = Math.floor((samples.length - 4096) / FRAME_STEP) + 1;
+  assert.equal(whole.length, frames - 4 - 15);
+  assert.ok(whole.every((value) => Number.isInteger(value) && value >= 0 && value <= 0xffffffff));
+  assert.deepEqual(fingerprint(samples, 1000), whole);
+  assert.deepEqual(fingerprint(samples, 4096), whole);
+});
+
+test('audio starting whole frames later gives the same sub-fingerprints, shifted', () => {
+  const samples = readWavSamples(TONES_WAV);
+  const whole = fingerprint(samples);
+
+  const shifted = fingerprint(samples.subarray(FRAME_STEP * 7));
+
+  assert.deepEqual(shifted, whole.slice(7));
+});
+
+test('silence gives a constant fingerprint', () => {
+  const silence = fingerprint(new Int16Array(11025 * 3));
+
+  assert.ok(silence.length > 0);
+  assert.ok(silence.every((value) => value === silence[0]));
+});
+
+test('matches fpcalc -raw on the tone fixture', (t) => {
+  if (!fs.existsSync(TONES_FPCALC)) {
+    t.skip(`no reference output; run \`fpcalc -raw -plain ${path.basename(TONES_WAV)}\` ` +
+      `in ${FIXTURES} and save it as ${path.basename(TONES_FPCALC)}`);
+    return;
+  }
+  // Either -plain output or the FINGERPRINT= line of the default output
+  const text = fs.readFileSync(TONES_FPCALC, 'utf8');
+  const raw = (/FINGERPRINT=(.*)/.exec(text)?.[1] ?? text).trim();
+  const expected = raw.split(',').map((value) => Number(value) >>> 0);
+
+  assert.deepEqual(fingerprint(readWavSamples(TONES_WAV)), expected);
+});
@@ -0,0 +1,190 @@
+// Explainable detection confidence: every term that moves the score is kept as a component.
+// The breakdown is stored with each detection so reviewers can see why a score is what it is.
+import { DEFAULT_SEGMENT_RULES } from './segmentRules.js';
+
+// Penalties applied on top of the coverage/segment/episode base score
+const BOUNDARY_AGREEMENT_TOLERANCE_SEC = 2; // occurrence lengths within this of the median agree
+const MAX_BOUNDARY_PENALTY = 0.15;
+const IMPLAUSIBLE_DURATION_PENALTY = 0.1; // per labelled segment with an implausible length
+const CROSS_SEASON_PENALTY = 0.1;
+
+const round2 = (value) => Math.round(value * 100) / 100;
+const median = (values) => [...values].sort((a, b) => a - b)[Math.floor(values.length / 2)];
+
+/**
+ * Share of episodes whose occurrence length is close to the segment's median length,
+ * averaged over all segments. Returns null when nothing can be compared.
+ */
+export function boundaryAgreement(segments) {
+  const perSegment = (segments || [])
+    .map((segment) => Object.values(segment.occurrences || {}).map((o) => o.end - o.start))
+    .filter((lengths) => lengths.length > 1)
+    .map((lengths) => {
+      const mid = median(lengths);
+      const agreeing = lengths.filter((len) => Math.abs(len - mid) <= BOUNDARY_AGREEMENT_TOLERANCE_SEC);
+      return agreeing.length / lengths.length;
+    });
+
+  if (perSegment.length === 0) {
+    return null;
+  }
+  return perSegment.reduce((sum, value) => sum + value, 0) / perSegment.length;
+}
+
+/**
+ * Check labelled segment lengths against the plausibility rules
+ */
+export function durationChecks(labelled, rules = DEFAULT_SEGMENT_RULES) {
+  const ranges = {
+    intro: { min: rules.introMinSec, max: rules.introMaxSec },
+    credits: { min: rules.creditsMinSec, max: rules.creditsMaxSec },
+  };
+  return Object.entries(ranges)
+    .filter(([label]) => labelled[label])
+    .map(([label, range]) => {
+      const duration = round2(labelled[label].end - labelled[label].start);
+      return {
+        label,
+        duration,
+        min: range.min,
+        max: range.max,
+        plausible: duration >= range.min && duration <= range.max,
+      };
+    });
+}
+
+/**
+ * Build the season-level confidence breakdown.
+ * `ranges` is the detectSegments result; `crossSeasonData` is set when earlier seasons were borrowed;
+ * `rules` are the segment plausibility rules the labels were chosen with.
+ */
+export function buildConfidenceBreakdown(ranges, totalEpisodes, method, crossSeasonData = null, rules = DEFAULT_SEGMENT_RULES) {
+  const segments = ranges?.segments || [];
+  if (segments.length === 0 || totalEpisodes === 0) {
+    return { score: 0, base: 0, method, components: [] };
+  }
+
+  const totalSegmentEpisodes = segments.reduce((sum, seg) => sum + seg.episodeCount, 0);
+  const coverage = totalSegmentEpisodes / (segments.length * totalEpisodes);
+  const agreement = boundaryAgreement(segments);
+  const checks = durationChecks({ intro: ranges.intro, credits: ranges.credits }, rules);
+  const implausible = checks.filter((check) => !check.plausible);
+  const demoted = ranges.demoted || [];
+
+  const components = [
+    {
+      key: 'coverage',
+      label: 'Episode coverage',
+      value: round2(coverage),
+      effect: round2(Math.min(coverage * 0.6, 0.6)),
+      detail: `Segments found in ${Math.round(coverage * 100)}% of analyzed episodes on average`,
+    },
+    {
+      key: 'segment_count',
+      label: 'Segments found',
+      value: segments.length,
+      effect: round2(Math.min(segments.length * 0.1, 0.2)),
+      detail: `${segments.length} recurring segment(s)`,
+    },
+    {
+      key: 'episode_count',
+      label: 'Episodes analyzed',
+      value: totalEpisodes,
+      effect: round2(Math.min(totalEpisodes / 10, 0.2)),
+      detail: `${totalEpisodes} episode(s) compared`,
+    },
+    {
+      key: 'boundary_agreement',
+      label: 'Boundary agreement',
+      value: agreement === null ? null : round2(agreement),
+      effect: agreement === null ? 0 : -round2((1 - agreement) * MAX_BOUNDARY_PENALTY),
+      detail: agreement === null ?
+        'Not enough episodes to compare segment lengths' :
+        `${Math.round(agreement * 100)}% of episodes agree on segment length within ${BOUNDARY_AGREEMENT_TOLERANCE_SEC}s`,
+    },
+    {
+      key: 'duration_plausibility',
+      label: 'Duration plausibility',
+      value: checks.length === 0 ? null : round2((checks.length - implausible.length) / checks.length),
+      effect: -round2(implausible.length * IMPLAUSIBLE_DURATION_PENALTY),
+      detail: [
+        implausible.length === 0 ?
+          'Intro and credits lengths look plausible' :
+          implausible.map((check) => `${check.label} is ${check.duration}s (expected ${check.min}-${check.max}s)`).join('; '),
+        ...demoted.map((segment) => `demoted ${segment.demotion.from} candidate: ${segment.demotion.detail}`),
+      ].join('; '),
+      checks,
+    },
+    {
+      key: 'cross_season',
+      label: 'Cross-season fallback',
+      value: Boolean(crossSeasonData),
+      effect: crossSeasonData ? -CROSS_SEASON_PENALTY : 0,
+      detail: crossSeasonData ?
+        `Only ${crossSeasonData.currentSeasonCount} episode(s) in this season; borrowed ${crossSeasonData.previousSeasonCount} from earlier seasons` :
+        'Detected from this season alone',
+    },
+  ];
+
+  const base = round2(Math.max(0, Math.min(1, components.reduce((sum, c) => sum + c.effect, 0))));
+  return { score: base, base, method, components };
+}
+
+/**
+ * Record how merging video credits moved an episode's score.
+ * Any earlier video adjustment is replaced, so repeated merges don't stack.
+ */
+export function withVideoCreditsAdjustment(breakdown, mergedConfidence, mergeSource) {
+  if (!breakdown) {
+    return null;
+  }
+  const components = breakdown.components.filter((component) => component.key !== 'video_credits');
+  const effect = round2(mergedConfidence - breakdown.base);
+  if (effect !== 0) {
+    components.push({
+      key: 'video_credits',
+      label: 'Video credits detection',
+      value: mergeSource,
+      effect,
+      detail: mergeSource === 'audio+video' ?
+        'Video analysis agreed with the audio credits' :
+        'Video analysis replaced the audio credits',
+    });
+  }
+  return { ...breakdown, score: round2(mergedConfidence), components };
+}
+
+/**
+ * Build the confidence breakdown for an episode matched against approved templates.
+ * The score is how much of the intro template was found, less its bit errors.
+ */
+export function buildTemplateConfidenceBreakdown(introMatch, creditsMatch) {
+  const components = [
+    {
+      key: 'template_coverage',
+      label: 'Intro template coverage',
+      value: introMatch.coverage,
+      effect: introMatch.coverage,
+      detail: `${Math.round(introMatch.coverage * 100)}% of the approved intro template found in this episode`,
+    },
+    {
+      key: 'template_bit_errors',
+      label: 'Template match quality',
+      value: round2(introMatch.bitErrorRate),
+      effect: -round2(introMatch.coverage * introMatch.bitErrorRate),
+      detail: `${Math.round(introMatch.bitErrorRate * 100)}% of fingerprint bits differ from the template`,
+    },
+    {
+      key: 'template_credits',
+      label: 'Credits template',
+      value: Boolean(creditsMatch),
+      effect: 0,
+      detail: creditsMatch ?
+        `${Math.round(creditsMatch.coverage * 100)}% of the approved credits template found` :
+        'No credits template match; credits left undetected',
+    },
+  ];
+
+  const base = round2(Math.max(0, Math.min(1, components.reduce((sum, c) => sum + c.effect, 0))));
+  return { score: base, base, method: 'template', components };
+}
@@ -0,0 +1,221 @@
+// Video encoder choice for re-encoded pieces, driven by a profile's hardware_acceleration
+// and checked against the stored hardware detection results. Falls back to software with a reason.
+import fsp from 'fs/promises';
+import path from 'path';
+
+export const HARDWARE_INFO_PATH = path.join(process.cwd(), 'data', 'hardware-info.json');
+
+// Software encoders by codec name as ffprobe reports it
+const SOFTWARE_ENCODERS = {
+  h264: 'libx264',
+  hevc: 'libx265',
+  av1: 'libsvtav1',
+  mpeg4: 'mpeg4',
+  mpeg2video: 'mpeg2video',
+};
+
+// Hardware encoders per acceleration, and the hardware-info.json flag that says it works here
+const HARDWARE_ENCODERS = {
+  nvidia_nvenc: { flag: 'nvenc_support', label: 'NVENC', encoders: { h264: 'h264_nvenc', hevc: 'hevc_nvenc', av1: 'av1_nvenc' } },
+  intel_qsv: { flag: 'qsv_support', label: 'Quick Sync', encoders: { h264: 'h264_qsv', hevc: 'hevc_qsv', av1: 'av1_qsv' } },
+  amd_vce: { flag: 'vce_support', label: 'AMD AMF', encoders: { h264: 'h264_amf', hevc: 'hevc_amf', av1: 'av1_amf' } },
+  vaapi: { flag: 'vaapi_support', label: 'VAAPI', encoders: { h264: 'h264_vaapi', hevc: 'hevc_vaapi', av1: 'av1_vaapi' } },
+};
+
+// Profile video_codec values to ffprobe codec names
+const PROFILE_CODECS = { h264: 'h264', h265: 'hevc', av1: 'av1' };
+
+// Profile max_resolution values to the tallest output height; 'original' never scales
+const PROFILE_MAX_HEIGHTS = { '480p': 480, '720p': 720, '1080p': 1080, '1440p': 1440, '4k': 2160 };
+
+// x264-style preset names to the nearest NVENC (p1-p7), Quick Sync and SVT-AV1 (0-13) presets
+const NVENC_PRESETS = {
+  ultrafast: 'p1', superfast: 'p1', veryfast: 'p2', faster: 'p3', fast: 'p3', medium: 'p4', slow: 'p5', slower: 'p6', veryslow: 'p7',
+};
+const QSV_PRESETS = {
+  ultrafast: 'veryfast', superfast: 'veryfast', veryfast: 'veryfast', faster: 'faster', fast: 'fast',
+  medium: 'medium', slow: 'slow', slower: 'slower', veryslow: 'veryslow',
+};
+const SVT_AV1_PRESETS = {
+  ultrafast: 12, superfast: 11, veryfast: 10, faster: 9, fast: 8, medium: 6, slow: 4, slower: 3, veryslow: 2,
+};
+
+export const VAAPI_DEVICE = process.env.VAAPI_DEVICE || '/dev/dri/renderD128';
+
+/**
+ * Read the hardware detection results saved by the hardware routes, or null before the first detection
+ */
+export async function readHardwareInfo(filePath = HARDWARE_INFO_PATH) {
+  try {
+    return JSON.parse(await fsp.readFile(filePath, 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Codec a profile asks to transcode to, or null when it keeps the source codec
+ */
+export function getProfileTargetCodec(profile) {
+  return PROFILE_CODECS[profile?.video_codec] || null;
+}
+
+/**
+ * Tallest video a profile allows, or null when it keeps the source resolution
+ */
+export function getProfileMaxHeight(profile) {
+  return PROFILE_MAX_HEIGHTS[profile?.max_resolution] || null;
+}
+
+/**
+ * Choose the encoder for a codec. Returns { encoder, hardware, fallbackReason }:
+ * encoder is null when nothing can encode the codec, hardware is the acceleration actually used,
+ * and fallbackReason says why a requested hardware encoder was not picked.
+ */
+export function selectVideoEncoder(codec, hardwareAcceleration = 'none', hardwareInfo = null) {
+  const software = { encoder: SOFTWARE_ENCODERS[codec] || null, hardware: 'none', fallbackReason: null };
+  const accel = HARDWARE_ENCODERS[hardwareAcceleration];
+  if (!accel) {
+    return software;
+  }
+
+  let fallbackReason = null;
+  if (!accel.encoders[codec]) {
+    fallbackReason = `${accel.label} has no ${codec || 'unknown'} encoder`;
+  } else if (!hardwareInfo) {
+    fallbackReason = 'Hardware detection has not been run';
+  } else if (!hardwareInfo[accel.flag]) {
+    fallbackReason = `${accel.label} was not detected on this machine`;
+  }
+  if (fallbackReason) {
+    return { ...software, fallbackReason };
+  }
+  return { encoder: accel.encoders[codec], hardware: hardwareAcceleration, fallbackReason: null };
+}
+
+/**
+ * Software encoder to retry with after a hardware encoder failed
+ */
+export function getSoftwareFallback(codec, reason) {
+  return { encoder: SOFTWARE_ENCODERS[codec] || null, hardware: 'none', fallbackReason: reason };
+}
+
+/**
+ * ffmpeg arguments for encoding the first video stream with a selected encoder.
+ * Returns { inputArgs, outputArgs }; inputArgs go before -i (only VAAPI needs a device there).
+ * `bitrate` in kbps replaces the quality target when above 0; `scaleHeight` scales the video
+ * down to that height.
+ */
+export function buildEncoderArgs(selection, {
+  crf,
+  preset,
+  bitrate = 0,
+  pixFmt = null,
+  scaleHeight = null,
+}) {
+  const { encoder, hardware } = selection;
+  const rate = bitrate > 0 ? ['-b:v:0', `${bitrate}k`] : null;
+  const scale = scaleHeight ? `scale=-2:${scaleHeight}` : null;
+  const scaleArgs = scale ? ['-vf', scale] : [];
+  switch (hardware) {
+    case 'nvidia_nvenc':
+      return {
+        inputArgs: [],
+        outputArgs: [
+          ...scaleArgs,
+          '-c:v:0', encoder, '-preset', NVENC_PRESETS[preset] || 'p4',
+          ...(rate || ['-rc', 'vbr', '-cq', String(crf)]),
+        ],
+      };
+    case 'intel_qsv':
+      return {
+        inputArgs: [],
+        outputArgs: [
+          ...scaleArgs,
+          '-c:v:0', encoder, '-preset', QSV_PRESETS[preset] || 'medium',
+          ...(rate || ['-global_quality', String(crf)]),
+        ],
+      };
+    case 'amd_vce':
+      return {
+        inputArgs: [],
+        outputArgs: [
+          ...scaleArgs,
+          '-c:v:0', encoder,
+          '-quality', /fast/.test(preset) ? 'speed' : /slow/.test(preset) ? 'quality' : 'balanced',
+          ...(rate || ['-rc', 'cqp', '-qp_i', String(crf), '-qp_p', String(crf)]),
+        ],
+      };
+    case 'vaapi':
+      return {
+        inputArgs: ['-vaapi_device', VAAPI_DEVICE],
+        outputArgs: [
+          '-vf', [scale, 'format=nv12', 'hwupload'].filter(Boolean).join(','),
+          '-c:v:0', encoder, ...(rate || ['-qp', String(crf)]),
+        ],
+      };
+    default:
+      return {
+        inputArgs: [],
+        outputArgs: [
+          ...scaleArgs,
+          '-c:v:0', encoder,
+          ...(rate || ['-crf', String(crf)]),
+          ...(encoder === 'libsvtav1' ? ['-preset', String(SVT_AV1_PRESETS[preset] ?? 6)] : ['-preset', preset]),
+          ...(pixFmt ? ['-pix_fmt', pixFmt] : []),
+        ],
+      };
+  }
+}
+
+// ffprobe profile names to -profile:v values, for the encoders that take them
+const SPLICE_PROFILES = {
+  h264: { 'Constrained Baseline': 'baseline', Baseline: 'baseline', Main: 'main', High: 'high' },
+  hevc: { Main: 'main', 'Main 10': 'main10' },
+};
+const PROFILE_ENCODERS = new Set(['libx264', 'libx265', 'h264_nvenc', 'hevc_nvenc', 'h264_qsv', 'hevc_qsv']);
+
+// Codecs whose parameter sets can be carried in-band, so spliced pieces don't share one set of headers
+const IN_BAND_HEADER_CODECS = new Set(['h264', 'hevc']);
+const IN_BAND_HEADER_ARGS = ['-bsf:v:0', 'dump_extra=freq=keyframe'];
+
+/**
+ * ffmpeg arguments for a stream-copied piece that is concatenated with re-encoded ones:
+ * the source's parameter sets repeated at every keyframe
+ */
+export function buildCopySpliceArgs(codec) {
+  return IN_BAND_HEADER_CODECS.has(codec) ? IN_BAND_HEADER_ARGS : [];
+}
+
+/**
+ * ffmpeg arguments for a re-encoded piece that is concatenated with others. The piece gets the
+ * source's profile and level when `source` ({ profile, level } as ffprobe reports them) is given,
+ * and repeats its parameter sets in-band at every keyframe.
+ */
+export function buildEncodeSpliceArgs(selection, codec, source = {}) {
+  const { encoder } = selection;
+  const args = [];
+  const profile = SPLICE_PROFILES[codec]?.[source.profile];
+  if (profile && PROFILE_ENCODERS.has(encoder)) {
+    args.push('-profile:v:0', profile);
+  }
+  // ffprobe reports H.264 levels times 10 and HEVC levels times 30
+  const level = source.level > 0 ? (source.level / (codec === 'hevc' ? 30 : 10)).toFixed(1) : null;
+
+  switch (encoder) {
+    case 'libx264':
+      return [...args, ...(level ? ['-level:v:0', level] : []), '-x264-params', 'repeat-headers=1'];
+    case 'libx265':
+      return [...args, '-x265-params', `repeat-headers=1${level ? `:level-idc=${level}` : ''}`];
+    case 'h264_nvenc':
+    case 'hevc_nvenc':
+      return [
+        ...args,
+        ...(level ? ['-level:v:0', level] : []),
+        '-forced-idr', '1',
+        ...IN_BAND_HEADER_ARGS,
+      ];
+    default:
+      return IN_BAND_HEADER_CODECS.has(codec) ? [...args, ...IN_BAND_HEADER_ARGS] : args;
+  }
+}
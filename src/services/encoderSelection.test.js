@@ -0,0 +1,107 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  selectVideoEncoder,
+  getSoftwareFallback,
+  buildEncoderArgs,
+  VAAPI_DEVICE,
+} from './encoderSelection.js';
+
+const DETECTED = { nvenc_support: true, qsv_support: true, vce_support: true, vaapi_support: true };
+
+test('selectVideoEncoder picks the hardware encoder when it was detected', () => {
+  assert.deepEqual(selectVideoEncoder('hevc', 'nvidia_nvenc', DETECTED), {
+    encoder: 'hevc_nvenc',
+    hardware: 'nvidia_nvenc',
+    fallbackReason: null,
+  });
+  assert.deepEqual(selectVideoEncoder('h264', 'none', DETECTED), {
+    encoder: 'libx264',
+    hardware: 'none',
+    fallbackReason: null,
+  });
+});
+
+test('selectVideoEncoder falls back to software with a reason', () => {
+  assert.deepEqual(selectVideoEncoder('h264', 'nvidia_nvenc', null), {
+    encoder: 'libx264',
+    hardware: 'none',
+    fallbackReason: 'Hardware detection has not been run',
+  });
+  assert.deepEqual(selectVideoEncoder('h264', 'intel_qsv', { ...DETECTED, qsv_support: false }), {
+    encoder: 'libx264',
+    hardware: 'none',
+    fallbackReason: 'Quick Sync was not detected on this machine',
+  });
+  assert.deepEqual(selectVideoEncoder('mpeg2video', 'vaapi', DETECTED), {
+    encoder: 'mpeg2video',
+    hardware: 'none',
+    fallbackReason: 'VAAPI has no mpeg2video encoder',
+  });
+  assert.equal(selectVideoEncoder('vc1', 'amd_vce', DETECTED).encoder, null);
+});
+
+test('getSoftwareFallback keeps the reason the hardware encoder was dropped', () => {
+  assert.deepEqual(getSoftwareFallback('hevc', 'hevc_qsv failed: device lost'), {
+    encoder: 'libx265',
+    hardware: 'none',
+    fallbackReason: 'hevc_qsv failed: device lost',
+  });
+});
+
+test('buildEncoderArgs maps the quality target and preset for each acceleration', () => {
+  const args = (codec, accel, options) =>
+    buildEncoderArgs(selectVideoEncoder(codec, accel, DETECTED), {
+      crf: 20,
+      preset: 'slow',
+      ...options,
+    });
+
+  assert.deepEqual(args('h264', 'none', { pixFmt: 'yuv420p' }), {
+    inputArgs: [],
+    outputArgs: ['-c:v:0', 'libx264', '-crf', '20', '-preset', 'slow', '-pix_fmt', 'yuv420p'],
+  });
+  assert.deepEqual(args('av1', 'none').outputArgs, [
+    '-c:v:0', 'libsvtav1', '-crf', '20', '-preset', '4',
+  ]);
+  assert.deepEqual(args('h264', 'nvidia_nvenc'), {
+    inputArgs: [],
+    outputArgs: ['-c:v:0', 'h264_nvenc', '-preset', 'p5', '-rc', 'vbr', '-cq', '20'],
+  });
+  assert.deepEqual(args('hevc', 'intel_qsv', { bitrate: 4000 }), {
+    inputArgs: [],
+    outputArgs: ['-c:v:0', 'hevc_qsv', '-preset', 'slow', '-b:v:0', '4000k'],
+  });
+  assert.deepEqual(args('h264', 'amd_vce'), {
+    inputArgs: [],
+    outputArgs: [
+      '-c:v:0', 'h264_amf', '-quality', 'quality', '-rc', 'cqp', '-qp_i', '20', '-qp_p', '20',
+    ],
+  });
+  assert.deepEqual(args('h264', 'vaapi'), {
+    inputArgs: ['-vaapi_device', VAAPI_DEVICE],
+    outputArgs: ['-vf', 'format=nv12,hwupload', '-c:v:0', 'h264_vaapi', '-qp', '20'],
+  });
+});
+
+test('buildEncoderArgs puts the scale filter ahead of the encoder', () => {
+  for (const accel of ['none', 'nvidia_nvenc', 'intel_qsv', 'amd_vce']) {
+    const { outputArgs } = buildEncoderArgs(selectVideoEncoder('h264', accel, DETECTED), {
+      crf: 20,
+      preset: 'fast',
+      scaleHeight: 720,
+    });
+    assert.deepEqual(outputArgs.slice(0, 3), ['-vf', 'scale=-2:720', '-c:v:0'], accel);
+  }
+
+  // VAAPI scales in the same filter chain that uploads the frames, before the upload
+  const vaapi = buildEncoderArgs(selectVideoEncoder('hevc', 'vaapi', DETECTED), {
+    crf: 20,
+    preset: 'fast',
+    scaleHeight: 480,
+  });
+  assert.deepEqual(vaapi.inputArgs, ['-vaapi_device', VAAPI_DEVICE]);
+  assert.deepEqual(vaapi.outputArgs.slice(0, 4), [
+    '-vf', 'scale=-2:480,format=nv12,hwupload', '-c:v:0', 'hevc_vaapi',
+  ]);
+});
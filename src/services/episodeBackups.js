@@ -0,0 +1,232 @@
+// Registry of the originals kept by backup_originals, each recorded with its checksum.
+// Restores episodes, seasons or shows, asks Sonarr to rescan, and expires backups past retention.
+import crypto from 'crypto';
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import axios from 'axios';
+import {
+  getSetting,
+  getProcessingJobById,
+  updateProcessingJob,
+  updateEpisodeFilePath,
+  createEpisodeBackup,
+  getEpisodeBackups,
+  setEpisodeBackupStatus,
+  getEpisodeBackupUsage,
+} from '../database/Db_Operations.js';
+import { moveFile } from './segmentTrimmer.js';
+import { findSidecarSubtitles } from './subtitleRetiming.js';
+import { workerLogger } from './logger.js';
+
+/**
+ * SHA-256 of a file, streamed so large episodes don't have to fit in memory
+ */
+export function hashFile(filePath) {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+/**
+ * Days backups are kept for; 0 keeps them until restored or removed by hand
+ */
+export function getBackupRetentionDays(db) {
+  return Math.max(0, parseInt(getSetting(db, 'backup_retention_days', '0'), 10) || 0);
+}
+
+/**
+ * Record the backup a processing job left behind, then apply the retention policy.
+ * A backup path that is already registered (kept from an earlier run) is not recorded twice.
+ * Failures are logged rather than thrown: the processed file is already in place.
+ */
+export async function registerBackup(db, { episodeFileId, jobId, originalPath, backupPath }) {
+  try {
+    const [existing] = getEpisodeBackups(db, { backupPath, status: 'active' });
+    if (existing) {
+      return existing;
+    }
+    const [checksum, stats] = await Promise.all([hashFile(backupPath), fsp.stat(backupPath)]);
+    const backup = createEpisodeBackup(db, {
+      episode_file_id: episodeFileId,
+      job_id: jobId,
+      original_path: originalPath,
+      backup_path: backupPath,
+      checksum,
+      size: stats.size,
+    });
+    workerLogger.info({ backupId: backup.id, originalPath, backupPath, size: stats.size }, 'Backup registered');
+    await applyBackupRetention(db);
+    return backup;
+  } catch (error) {
+    workerLogger.warn({ originalPath, backupPath, error: error.message }, 'Failed to register backup');
+    return null;
+  }
+}
+
+/**
+ * Record the backup a processing job's trim or chapter write left behind, if any. The backup holds
+ * the file as it was before processing, so it is registered under the job's source path rather
+ * than the output's, which a profile's container may have renamed. `job` is the job as it was
+ * before processing.
+ */
+export async function registerJobBackup(db, job, result) {
+  if (!result.backupPath) {
+    return null;
+  }
+  return registerBackup(db, {
+    episodeFileId: job.media_file_id,
+    jobId: job.id,
+    originalPath: job.file_path,
+    backupPath: result.backupPath,
+  });
+}
+
+/**
+ * Delete active backups older than the retention period, with their sidecar subtitle copies.
+ * Returns the number of backups expired.
+ */
+export async function applyBackupRetention(db, now = Date.now()) {
+  const days = getBackupRetentionDays(db);
+  if (days === 0) {
+    return 0;
+  }
+  const createdBefore = new Date(now - days * 24 * 60 * 60 * 1000).toISOString();
+  const expired = getEpisodeBackups(db, { status: 'active', createdBefore });
+  for (const backup of expired) {
+    for (const sidecarPath of await findSidecarSubtitles(backup.backup_path)) {
+      await fsp.rm(sidecarPath, { force: true });
+    }
+    await fsp.rm(backup.backup_path, { force: true });
+    setEpisodeBackupStatus(db, backup.id, 'expired');
+  }
+  if (expired.length > 0) {
+    workerLogger.info({ expired: expired.length, retentionDays: days }, 'Expired old backups');
+  }
+  return expired.length;
+}
+
+/**
+ * Disk usage of active backups: totals plus a per show breakdown by season
+ */
+export function getBackupSummary(db) {
+  const shows = new Map();
+  for (const row of getEpisodeBackupUsage(db)) {
+    if (!shows.has(row.show_id)) {
+      shows.set(row.show_id, { show_id: row.show_id, show_title: row.show_title, count: 0, size: 0, seasons: [] });
+    }
+    const show = shows.get(row.show_id);
+    show.count += row.count;
+    show.size += row.size;
+    show.seasons.push({ season_number: row.season_number, count: row.count, size: row.size });
+  }
+  const rows = [...shows.values()];
+  return {
+    count: rows.reduce((sum, show) => sum + show.count, 0),
+    size: rows.reduce((sum, show) => sum + show.size, 0),
+    retention_days: getBackupRetentionDays(db),
+    shows: rows,
+  };
+}
+
+/**
+ * Put one backup back over the processed file, after checking it still matches its checksum.
+ * Sidecar subtitles backed up beside it replace the retimed ones, and the job is approved again
+ * so the original can be processed anew. An output written in another container is removed.
+ */
+async function restoreEpisodeBackup(db, backup) {
+  try {
+    await fsp.access(backup.backup_path);
+  } catch {
+    throw new Error(`Backup file is missing: ${backup.backup_path}`);
+  }
+  if (await hashFile(backup.backup_path) !== backup.checksum) {
+    throw new Error(`Backup no longer matches its checksum: ${backup.backup_path}`);
+  }
+
+  const job = backup.job_id ? getProcessingJobById(db, backup.job_id) : null;
+  const sidecars = await findSidecarSubtitles(backup.backup_path);
+  await moveFile(backup.backup_path, backup.original_path);
+  if (job?.output_path && job.output_path !== backup.original_path &&
+    path.dirname(job.output_path) === path.dirname(backup.original_path)) {
+    await fsp.rm(job.output_path, { force: true });
+    updateEpisodeFilePath(db, backup.episode_file_id, backup.original_path);
+  }
+  for (const sidecarPath of sidecars) {
+    await moveFile(sidecarPath, path.join(path.dirname(backup.original_path), path.basename(sidecarPath)));
+  }
+  setEpisodeBackupStatus(db, backup.id, 'restored');
+  if (job) {
+    updateProcessingJob(db, backup.job_id, {
+      status: 'verified',
+      processing_notes: `Original restored from ${backup.backup_path}`,
+      output_path: null,
+      output_mode: null,
+    });
+  }
+  workerLogger.info({ backupId: backup.id, originalPath: backup.original_path }, 'Original restored from backup');
+}
+
+/**
+ * Ask Sonarr to rescan the given shows ({ show_title, show_path }), matching series by path, then title.
+ * Returns the titles of the shows a rescan was requested for.
+ */
+async function rescanSonarrSeries(db, shows) {
+  const sonarrClient = axios.create({
+    baseURL: getSetting(db, 'sonarr_url', 'http://localhost:8989'),
+    timeout: 15000,
+    headers: {
+      'X-Api-Key': getSetting(db, 'sonarr_api_key', ''),
+      'Content-Type': 'application/json',
+    },
+  });
+  const { data: series } = await sonarrClient.get('/api/v3/series');
+  const rescanned = [];
+  for (const show of shows) {
+    const match = series.find((item) => item.path === show.show_path) ||
+      series.find((item) => item.title === show.show_title);
+    if (!match) {
+      workerLogger.warn({ show: show.show_title }, 'Show not found in Sonarr, skipping rescan');
+      continue;
+    }
+    await sonarrClient.post('/api/v3/command', { name: 'RescanSeries', seriesId: match.id });
+    rescanned.push(show.show_title);
+  }
+  return rescanned;
+}
+
+/**
+ * Restore every active backup matching the filters ({ episodeFileId } or { showId, seasonNumber? })
+ * and ask Sonarr to rescan the shows involved. One failed episode doesn't stop the rest.
+ * Returns { restored: [backup ids], failed: [{ id, original_path, error }], rescanned: [titles], rescan_error }.
+ */
+export async function restoreBackups(db, filters) {
+  const backups = getEpisodeBackups(db, { ...filters, status: 'active' });
+  const result = { restored: [], failed: [], rescanned: [], rescan_error: null };
+  for (const backup of backups) {
+    try {
+      await restoreEpisodeBackup(db, backup);
+      result.restored.push(backup.id);
+    } catch (error) {
+      workerLogger.error({ backupId: backup.id, error: error.message }, 'Failed to restore backup');
+      result.failed.push({ id: backup.id, original_path: backup.original_path, error: error.message });
+    }
+  }
+
+  const shows = [...new Map(backups
+    .filter((backup) => result.restored.includes(backup.id))
+    .map((backup) => [backup.show_id, backup])).values()];
+  if (shows.length > 0) {
+    try {
+      result.rescanned = await rescanSonarrSeries(db, shows);
+    } catch (error) {
+      workerLogger.warn({ error: error.message }, 'Failed to ask Sonarr to rescan restored shows');
+      result.rescan_error = error.message;
+    }
+  }
+  return result;
+}
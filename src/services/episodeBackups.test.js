@@ -0,0 +1,93 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getDatabaseSingleton } from '../database/Auto_DB_Setup.js';
+import { installFakeMediaTools, writeFakeMedia } from '../testUtils/fakeMediaTools.js';
+
+let tmpDir;
+let db;
+let ops;
+let fileId;
+let jobId;
+let sourcePath;
+
+before(async () => {
+  // The database singleton has to be opened on the temp file before anything else asks for it
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cliparr-backups-'));
+  db = await getDatabaseSingleton(path.join(tmpDir, 'test.db'));
+  const { initializeFingerprintSchema } = await import('./fingerprintPipeline.js');
+  ops = await import('../database/Db_Operations.js');
+  await initializeFingerprintSchema();
+  fs.mkdirSync(path.join(tmpDir, 'bin'));
+  installFakeMediaTools(path.join(tmpDir, 'bin'));
+
+  sourcePath = path.join(tmpDir, 'tv', 'Test Show', 'Test Show - S01E01.mp4');
+  writeFakeMedia(sourcePath);
+  const insert = (sql, ...params) => db.prepare(sql).run(...params).lastInsertRowid;
+  const showId = insert(
+    'INSERT INTO shows (title, path) VALUES (?, ?)',
+    'Test Show',
+    path.dirname(sourcePath),
+  );
+  const seasonId = insert('INSERT INTO seasons (show_id, season_number) VALUES (?, 1)', showId);
+  const episodeId = insert(
+    'INSERT INTO episodes (season_id, episode_number) VALUES (?, 1)',
+    seasonId,
+  );
+  fileId = insert(
+    'INSERT INTO episode_files (episode_id, file_path, size) VALUES (?, ?, 1)',
+    episodeId,
+    sourcePath,
+  );
+  const { DEFAULT_PROCESSING_PROFILE } = await import('./processingProfiles.js');
+  const profile = ops.createProcessingProfile(db, {
+    ...DEFAULT_PROCESSING_PROFILE,
+    name: 'To MKV',
+    container: 'mkv',
+  });
+  jobId = insert(`
+    INSERT INTO processing_jobs
+      (media_file_id, profile_id, status, manual_verified, intro_start, intro_end)
+    VALUES (?, ?, 'verified', 1, 0, 30)
+  `, fileId, profile.id);
+
+  ops.setSetting(db, 'temp_dir', path.join(tmpDir, 'work'));
+  // Nothing listens here, so the rescan after a restore fails fast
+  ops.setSetting(db, 'sonarr_url', 'http://127.0.0.1:9');
+});
+
+after(() => {
+  db?.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+test('restoring a container-changing trim puts the source back under its name', async () => {
+  const { trimApprovedJob } = await import('./segmentTrimmer.js');
+  const { registerJobBackup, restoreBackups } = await import('./episodeBackups.js');
+  const sourceBytes = fs.readFileSync(sourcePath);
+  const outputPath = sourcePath.replace(/\.mp4$/, '.mkv');
+
+  const job = ops.getProcessingJobById(db, jobId);
+  const result = await trimApprovedJob(jobId);
+  await registerJobBackup(db, job, result);
+
+  assert.equal(result.outputPath, outputPath);
+  assert.ok(fs.existsSync(outputPath));
+  assert.ok(!fs.existsSync(sourcePath));
+  assert.equal(ops.getEpisodeFileById(db, fileId).file_path, outputPath);
+  const [backup] = ops.getEpisodeBackups(db, { episodeFileId: fileId, status: 'active' });
+  assert.equal(backup.original_path, sourcePath);
+
+  const restore = await restoreBackups(db, { episodeFileId: fileId });
+
+  assert.deepEqual(restore.restored, [backup.id]);
+  assert.deepEqual(fs.readFileSync(sourcePath), sourceBytes);
+  assert.ok(!fs.existsSync(outputPath));
+  assert.ok(!fs.existsSync(backup.backup_path));
+  assert.equal(ops.getEpisodeFileById(db, fileId).file_path, sourcePath);
+  const restoredJob = ops.getProcessingJobById(db, jobId);
+  assert.equal(restoredJob.status, 'verified');
+  assert.equal(restoredJob.output_path, null);
+});
@@ -0,0 +1,178 @@
+// Raw Chromaprint fingerprint alignment used to find audio shared between episodes.
+// Stitches raw fingerprint chunks (fpcalc or in-process) into a timeline and aligns episode pairs.
+
+// Duration of one raw fingerprint item (4096-sample frames, 1/3 hop at 11025 Hz)
+export const FINGERPRINT_ITEM_SEC = 4096 / 3 / 11025;
+
+const DEFAULT_ALIGNMENT_OPTIONS = {
+  maxBitErrors: 6, // max differing bits (of 32) for two items to count as a match
+  maxGapSec: 3.5, // unmatched gap tolerated inside a shared region
+  minMatchSec: 5, // shortest shared region worth reporting
+  minShiftVotes: 3, // exact-value hits needed before a shift is checked
+  maxCandidateShifts: 20, // number of best-voted shifts checked per pair
+};
+
+/**
+ * Count set bits in a 32-bit integer
+ */
+function popcount32(value) {
+  let x = value | 0;
+  x = x - ((x >>> 1) & 0x55555555);
+  x = (x & 0x33333333) + ((x >>> 2) & 0x33333333);
+  x = (x + (x >>> 4)) & 0x0f0f0f0f;
+  return Math.imul(x, 0x01010101) >>> 24;
+}
+
+/**
+ * Stitch overlapping raw fingerprint chunks ({ start, fingerprint: number[] }) into one timeline.
+ * Index i of the result covers [i, i + 1) * FINGERPRINT_ITEM_SEC of the episode.
+ * Chunks stored in the legacy compressed string format carry no raw data and are skipped.
+ */
+export function stitchRawFingerprint(chunks) {
+  const timeline = [];
+  if (!Array.isArray(chunks)) {
+    return timeline;
+  }
+
+  const sorted = chunks
+    .filter((chunk) => chunk && Array.isArray(chunk.fingerprint))
+    .sort((a, b) => a.start - b.start);
+
+  for (const chunk of sorted) {
+    const offset = Math.round(chunk.start / FINGERPRINT_ITEM_SEC);
+    for (let i = 0; i < chunk.fingerprint.length; i++) {
+      const index = offset + i;
+      // Earlier chunks win; later chunks only fill what is still missing
+      if (timeline[index] === undefined) {
+        timeline[index] = chunk.fingerprint[i] | 0;
+      }
+    }
+  }
+
+  // Holes (failed chunks, audio outside the search windows) become null so they never match anything
+  for (let i = 0; i < timeline.length; i++) {
+    if (timeline[i] === undefined) {
+      timeline[i] = null;
+    }
+  }
+
+  return timeline;
+}
+
+/**
+ * Collect candidate time shifts between two fingerprints from exact item matches
+ */
+function findCandidateShifts(lhs, rhs, minVotes, maxCandidates) {
+  const rhsIndex = new Map();
+  rhs.forEach((value, index) => {
+    if (value === null) {
+      return;
+    }
+    if (!rhsIndex.has(value)) {
+      rhsIndex.set(value, []);
+    }
+    rhsIndex.get(value).push(index);
+  });
+
+  const votes = new Map();
+  lhs.forEach((value, index) => {
+    const hits = value === null ? null : rhsIndex.get(value);
+    if (!hits) {
+      return;
+    }
+    for (const rhsPos of hits) {
+      const shift = rhsPos - index;
+      votes.set(shift, (votes.get(shift) || 0) + 1);
+    }
+  });
+
+  return [...votes.entries()]
+    .filter(([, count]) => count >= minVotes)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, maxCandidates)
+    .map(([shift]) => shift);
+}
+
+/**
+ * Scan one shift and return every run of low bit-error items as a shared region
+ */
+function scanShift(lhs, rhs, shift, options) {
+  const { maxBitErrors, maxGapSec, minMatchSec } = options;
+  const maxGapItems = Math.round(maxGapSec / FINGERPRINT_ITEM_SEC);
+  const minItems = Math.round(minMatchSec / FINGERPRINT_ITEM_SEC);
+  const begin = Math.max(0, -shift);
+  const end = Math.min(lhs.length, rhs.length - shift);
+
+  const regions = [];
+  let run = null;
+
+  const closeRun = () => {
+    if (run && run.last - run.first + 1 >= minItems) {
+      const span = run.last - run.first + 1;
+      regions.push({
+        lhsStart: run.first * FINGERPRINT_ITEM_SEC,
+        lhsEnd: (run.last + 1) * FINGERPRINT_ITEM_SEC,
+        rhsStart: (run.first + shift) * FINGERPRINT_ITEM_SEC,
+        rhsEnd: (run.last + 1 + shift) * FINGERPRINT_ITEM_SEC,
+        shift,
+        bitErrorRate: run.bitErrors / (span * 32),
+      });
+    }
+    run = null;
+  };
+
+  for (let i = begin; i < end; i++) {
+    const a = lhs[i];
+    const b = rhs[i + shift];
+    const errors = (a === null || b === null) ? 32 : popcount32(a ^ b);
+
+    if (errors <= maxBitErrors) {
+      if (run && i - run.last > maxGapItems) {
+        closeRun();
+      }
+      if (!run) {
+        run = { first: i, last: i, bitErrors: 0 };
+      }
+      // Count errors for the gap we bridged as well as this item
+      for (let g = run.last + 1; g < i; g++) {
+        const ga = lhs[g];
+        const gb = rhs[g + shift];
+        run.bitErrors += (ga === null || gb === null) ? 32 : popcount32(ga ^ gb);
+      }
+      run.bitErrors += errors;
+      run.last = i;
+    }
+  }
+  closeRun();
+
+  return regions;
+}
+
+/**
+ * Align two stitched raw fingerprints and return the audio regions they share.
+ * Each region carries its start/end in both episodes and the mean bit error rate across it.
+ */
+export function alignEpisodePair(lhs, rhs, options = {}) {
+  const opts = { ...DEFAULT_ALIGNMENT_OPTIONS, ...options };
+  if (!lhs || !rhs || lhs.length === 0 || rhs.length === 0) {
+    return [];
+  }
+
+  const shifts = findCandidateShifts(lhs, rhs, opts.minShiftVotes, opts.maxCandidateShifts);
+  const candidates = shifts.flatMap((shift) => scanShift(lhs, rhs, shift, opts));
+
+  // Neighbouring shifts find the same region; keep the longest, cleanest one
+  candidates.sort((a, b) =>
+    (b.lhsEnd - b.lhsStart) - (a.lhsEnd - a.lhsStart) || a.bitErrorRate - b.bitErrorRate);
+
+  const accepted = [];
+  for (const region of candidates) {
+    const overlaps = accepted.some((other) =>
+      region.lhsStart < other.lhsEnd && other.lhsStart < region.lhsEnd);
+    if (!overlaps) {
+      accepted.push(region);
+    }
+  }
+
+  return accepted.sort((a, b) => a.lhsStart - b.lhsStart);
+}
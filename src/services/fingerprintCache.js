@@ -0,0 +1,134 @@
+// Content-addressed fingerprint cache that survives Sonarr renames, moves, and re-imports.
+// Files are identified by size plus a hash of sampled blocks, so the cache never needs a full read.
+import crypto from 'crypto';
+import fsp from 'fs/promises';
+import { workerLogger } from './logger.js';
+import { getDb } from '../database/Db_Operations.js';
+
+const DEFAULT_HASH_OPTIONS = {
+  blockSize: 64 * 1024, // bytes read per sample
+  sampleCount: 16, // evenly spaced samples, always including the first and last block
+};
+
+const DEFAULT_PRUNE_OPTIONS = {
+  maxAgeDays: 90, // entries not reused for this long are dropped
+  maxEntries: 5000, // beyond this, the least recently used entries are dropped
+};
+
+/**
+ * Byte offsets of the sampled blocks for a file of the given size
+ */
+export function sampleOffsets(fileSize, options = {}) {
+  const { blockSize, sampleCount } = { ...DEFAULT_HASH_OPTIONS, ...options };
+  if (fileSize <= blockSize * sampleCount) {
+    // Small enough to hash whole
+    const offsets = [];
+    for (let offset = 0; offset < fileSize; offset += blockSize) {
+      offsets.push(offset);
+    }
+    return offsets;
+  }
+
+  const lastOffset = fileSize - blockSize;
+  const offsets = [];
+  for (let i = 0; i < sampleCount; i++) {
+    offsets.push(Math.floor((lastOffset * i) / (sampleCount - 1)));
+  }
+  return offsets;
+}
+
+/**
+ * Compute a partial content hash ("<size>:<sha256 of sampled blocks>") for a file
+ */
+export async function computePartialContentHash(filePath, options = {}) {
+  const { blockSize } = { ...DEFAULT_HASH_OPTIONS, ...options };
+  const handle = await fsp.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    const hash = crypto.createHash('sha256');
+    hash.update(String(size));
+
+    const buffer = Buffer.alloc(blockSize);
+    for (const offset of sampleOffsets(size, options)) {
+      const { bytesRead } = await handle.read(buffer, 0, blockSize, offset);
+      hash.update(buffer.subarray(0, bytesRead));
+    }
+    return `${size}:${hash.digest('hex')}`;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Describe which parts of a file a fingerprint covers, so differently windowed
+ * fingerprints of the same file are cached separately
+ */
+export function searchWindowKey(windows) {
+  if (!windows) {
+    return 'full';
+  }
+  return windows.map((range) => `${range.label}:${Math.round(range.start)}+${Math.round(range.duration)}`).join(',');
+}
+
+/**
+ * Look up cached fingerprint chunks for a content hash and search window key
+ */
+export async function getCachedFingerprints(contentHash, windowKey) {
+  const db = await getDb();
+  const row = db.prepare(`
+    SELECT fingerprint_data, file_duration, backend
+    FROM fingerprint_cache
+    WHERE content_hash = ? AND search_windows = ?
+  `).get(contentHash, windowKey);
+
+  if (!row) {
+    return null;
+  }
+
+  try {
+    const fingerprints = JSON.parse(row.fingerprint_data);
+    db.prepare('UPDATE fingerprint_cache SET last_used_at = ? WHERE content_hash = ? AND search_windows = ?')
+      .run(new Date().toISOString(), contentHash, windowKey);
+    return { fingerprints, fileDuration: row.file_duration, backend: row.backend };
+  } catch (error) {
+    workerLogger.warn({ contentHash, error: error.message }, 'Discarding unreadable fingerprint cache entry');
+    db.prepare('DELETE FROM fingerprint_cache WHERE content_hash = ? AND search_windows = ?').run(contentHash, windowKey);
+    return null;
+  }
+}
+
+/**
+ * Store fingerprint chunks in the cache
+ */
+export async function storeCachedFingerprints(contentHash, windowKey, fingerprints, fileDuration, backend) {
+  const db = await getDb();
+  const now = new Date().toISOString();
+  db.prepare(`
+    INSERT OR REPLACE INTO fingerprint_cache
+    (content_hash, search_windows, fingerprint_data, file_duration, backend, created_at, last_used_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(contentHash, windowKey, JSON.stringify(fingerprints), fileDuration, backend, now, now);
+  await pruneFingerprintCache();
+}
+
+/**
+ * Evict cache entries that haven't been used recently, then the least recently used ones
+ * past the size limit. Content hashes aren't tied to episode files, so age is the only
+ * signal that a file is gone. Returns the number of entries removed.
+ */
+export async function pruneFingerprintCache(options = {}) {
+  const { maxAgeDays, maxEntries } = { ...DEFAULT_PRUNE_OPTIONS, ...options };
+  const db = await getDb();
+  const cutoff = new Date(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000).toISOString();
+  const expired = db.prepare('DELETE FROM fingerprint_cache WHERE last_used_at < ?').run(cutoff).changes;
+  const overflow = db.prepare(`
+    DELETE FROM fingerprint_cache WHERE rowid IN (
+      SELECT rowid FROM fingerprint_cache ORDER BY last_used_at DESC LIMIT -1 OFFSET ?
+    )
+  `).run(maxEntries).changes;
+
+  if (expired + overflow > 0) {
+    workerLogger.info({ expired, overflow, maxAgeDays, maxEntries }, 'Pruned fingerprint cache');
+  }
+  return expired + overflow;
+}
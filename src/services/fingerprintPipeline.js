@@ -5,13 +5,39 @@ import { execFile, spawn } from 'child_process';
 import lodash from 'lodash';
 import { v4 as uuidv4 } from 'uuid';
 import { workerLogger } from './logger.js';
-import { getDb, getSetting } from '../database/Db_Operations.js';
-
-const { ceil, round } = lodash;
+import { getDb, getSetting, getSearchWindows, getAudioTrackPreference } from '../database/Db_Operations.js';
+import { stitchRawFingerprint, alignEpisodePair } from './fingerprintAlignment.js';
+import { refineSegmentBoundaries } from './boundaryRefinement.js';
+import { getVideoCreditsResult, mergeCreditsDetection } from './videoCreditsDetector.js';
+import { detectSeasonRecaps, detectSeasonPreviews } from './recapDetection.js';
+import { fingerprintAudioFile } from './chromaprint.js';
+import {
+  buildConfidenceBreakdown,
+  buildTemplateConfidenceBreakdown,
+  withVideoCreditsAdjustment,
+} from './confidenceBreakdown.js';
+import { DEFAULT_SEGMENT_RULES, labelSegments, normalizeSegmentRules } from './segmentRules.js';
+import { getSegmentTemplates, matchTemplate } from './segmentTemplates.js';
+import { getLibraryIdents, findIdentOccurrences, maskTimeline } from './identDetection.js';
+import { probeAudioStreams, selectAudioStream, downmixFilter, describeAudioStream } from './audioStreams.js';
+import { trackProcessingStage } from './jobStages.js';
+import {
+  computePartialContentHash,
+  searchWindowKey,
+  getCachedFingerprints,
+  storeCachedFingerprints,
+} from './fingerprintCache.js';
+
+const { ceil, round, countBy, maxBy, partition } = lodash;
 
 /**
  * Enhanced fingerprint pipeline for robust intro/credits detection
  * Features:
+ * - Single-decode in-process Chromaprint, with chunked fpcalc as a fallback backend
+ * - Raw Chromaprint alignment between episode pairs for sub-second boundaries
+ * - Video-based credits estimates merged into the audio result
+ * - Recap detection from audio shared with earlier episodes' bodies
+ * - Next-episode preview detection after the credits
  * - Per-season batch processing with cross-season fallback
  * - High-precision confidence scores (0.00-1.00)
  * - Smart data preservation to prevent accidental data loss
@@ -33,6 +59,8 @@ const FINGERPRINT_SCHEMA = [
     fingerprint_data TEXT NOT NULL,
     file_duration REAL NOT NULL,
     file_size INTEGER NOT NULL,
+    content_hash TEXT,
+    audio_track TEXT,
     is_valid BOOLEAN DEFAULT 1,
     created_at TEXT NOT NULL,
     updated_at TEXT NOT NULL,
@@ -49,21 +77,85 @@ const FINGERPRINT_SCHEMA = [
     intro_end REAL,
     credits_start REAL,
     credits_end REAL,
+    recap_start REAL,
+    recap_end REAL,
+    preview_start REAL,
+    preview_end REAL,
     stingers_data TEXT,
     segments_data TEXT,
     confidence_score REAL NOT NULL,
     detection_method TEXT NOT NULL,
     approval_status TEXT DEFAULT 'pending',
     processing_notes TEXT,
+    credits_merge_data TEXT,
+    confidence_breakdown TEXT,
+    idents_data TEXT,
     created_at TEXT NOT NULL,
     updated_at TEXT NOT NULL,
     FOREIGN KEY (episode_file_id) REFERENCES episode_files(id) ON DELETE CASCADE,
     UNIQUE(show_id, season_number, episode_number, episode_file_id)
   )`,
+  // Approved segment fingerprints; season_number is NULL for the show-wide template
+  `CREATE TABLE IF NOT EXISTS segment_templates (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    show_id INTEGER NOT NULL,
+    season_number INTEGER,
+    label TEXT NOT NULL,
+    fingerprint_data TEXT NOT NULL,
+    duration REAL NOT NULL,
+    source_episode_file_id INTEGER,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    FOREIGN KEY (show_id) REFERENCES shows(id) ON DELETE CASCADE
+  )`,
+  // Network idents and studio logos shared across shows, found by the library-wide pass
+  `CREATE TABLE IF NOT EXISTS library_idents (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    fingerprint_data TEXT NOT NULL,
+    duration REAL NOT NULL,
+    show_count INTEGER NOT NULL,
+    source_episode_file_id INTEGER,
+    created_at TEXT NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS video_credits_results (
+    episode_file_id INTEGER PRIMARY KEY,
+    credits_start REAL,
+    credits_end REAL,
+    confidence REAL NOT NULL,
+    frames_analyzed INTEGER NOT NULL,
+    created_at TEXT NOT NULL,
+    FOREIGN KEY (episode_file_id) REFERENCES episode_files(id) ON DELETE CASCADE
+  )`,
+  // Keyed by file content rather than episode_file_id so it outlives renames and re-imports
+  `CREATE TABLE IF NOT EXISTS fingerprint_cache (
+    content_hash TEXT NOT NULL,
+    search_windows TEXT NOT NULL,
+    fingerprint_data TEXT NOT NULL,
+    file_duration REAL NOT NULL,
+    backend TEXT,
+    created_at TEXT NOT NULL,
+    last_used_at TEXT NOT NULL,
+    PRIMARY KEY (content_hash, search_windows)
+  )`,
   'CREATE INDEX IF NOT EXISTS idx_episode_fingerprints_show_season ON episode_fingerprints(show_id, season_number)',
+  'CREATE INDEX IF NOT EXISTS idx_fingerprint_cache_last_used ON fingerprint_cache(last_used_at)',
   'CREATE INDEX IF NOT EXISTS idx_episode_fingerprints_valid ON episode_fingerprints(is_valid)',
   'CREATE INDEX IF NOT EXISTS idx_detection_results_show_season ON detection_results(show_id, season_number)',
   'CREATE INDEX IF NOT EXISTS idx_detection_results_approval ON detection_results(approval_status)',
+  'CREATE INDEX IF NOT EXISTS idx_segment_templates_show_season ON segment_templates(show_id, season_number)',
+];
+
+// Columns added after tables were first created; applied to existing databases when missing
+const FINGERPRINT_COLUMN_MIGRATIONS = [
+  { table: 'detection_results', column: 'credits_merge_data', definition: 'TEXT' },
+  { table: 'detection_results', column: 'recap_start', definition: 'REAL' },
+  { table: 'detection_results', column: 'recap_end', definition: 'REAL' },
+  { table: 'detection_results', column: 'preview_start', definition: 'REAL' },
+  { table: 'detection_results', column: 'preview_end', definition: 'REAL' },
+  { table: 'detection_results', column: 'confidence_breakdown', definition: 'TEXT' },
+  { table: 'detection_results', column: 'idents_data', definition: 'TEXT' },
+  { table: 'episode_fingerprints', column: 'content_hash', definition: 'TEXT' },
+  { table: 'episode_fingerprints', column: 'audio_track', definition: 'TEXT' },
 ];
 
 // Initialize database schema
@@ -72,6 +164,13 @@ export async function initializeFingerprintSchema() {
   for (const statement of FINGERPRINT_SCHEMA) {
     db.prepare(statement).run();
   }
+  for (const { table, column, definition } of FINGERPRINT_COLUMN_MIGRATIONS) {
+    const columns = db.prepare(`PRAGMA table_info(${table})`).all();
+    if (!columns.some((col) => col.name === column)) {
+      db.prepare(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`).run();
+      workerLogger.info({ table, column }, 'Added missing fingerprint schema column');
+    }
+  }
   workerLogger.info('Fingerprint database schema initialized');
 }
 
@@ -124,17 +223,25 @@ async function analyzeFileState(filePath) {
 }
 
 /**
- * Extract audio from video file using ffmpeg, normalize, and band-pass filter (combined)
+ * Extract audio from video file using ffmpeg, normalize, and band-pass filter (combined).
+ * With a `range` ({ start, duration }) only that part of the file is decoded.
+ * With a probed `stream` that audio track is decoded and downmixed for its channel layout.
  */
-async function extractAudioFromFile(filePath, tempDir, episodeFileId) {
+async function extractAudioFromFile(filePath, tempDir, episodeFileId, range = null, stream = null) {
   const baseName = path.basename(filePath, path.extname(filePath));
-  const filteredPath = path.join(tempDir, baseName + '.filtered.wav');
+  const suffix = range ? `.${Math.round(range.start)}` : '';
+  const filteredPath = path.join(tempDir, baseName + suffix + '.filtered.wav');
+  // Input seeking keeps ffmpeg from decoding the skipped part of the file
+  const seekArgs = range ? ['-ss', String(range.start), '-t', String(range.duration)] : [];
+  const mapArgs = stream ? ['-map', `0:a:${stream.audioIndex}`] : [];
 
   // Use a simpler, more robust filter chain that's less likely to fail
   // Basic normalization and band-pass filtering without complex loudnorm
-  const filterChain = 'aresample=44100,pan=mono|c0=.5*c0+.5*c1,highpass=f=300,lowpass=f=3000,volume=1.5';
+  const filterChain = `aresample=44100,${downmixFilter(stream)},highpass=f=300,lowpass=f=3000,volume=1.5`;
   const ffmpegArgs = [
+    ...seekArgs,
     '-i', filePath,
+    ...mapArgs,
     '-af', filterChain,
     '-acodec', 'pcm_s16le',
     '-ar', '44100',
@@ -159,11 +266,13 @@ async function extractAudioFromFile(filePath, tempDir, episodeFileId) {
       });
     });
   };
-  let totalDuration = 0;
-  try {
-    totalDuration = await getDuration(filePath);
-  } catch (e) {
-    workerLogger.warn({ filePath, error: e.message }, 'Failed to get duration for audio extraction progress');
+  let totalDuration = range ? range.duration : 0;
+  if (!range) {
+    try {
+      totalDuration = await getDuration(filePath);
+    } catch (e) {
+      workerLogger.warn({ filePath, error: e.message }, 'Failed to get duration for audio extraction progress');
+    }
   }
 
   const t0 = Date.now();
@@ -222,7 +331,9 @@ async function extractAudioFromFile(filePath, tempDir, episodeFileId) {
     // Fallback to even simpler extraction if the first attempt fails
     workerLogger.warn({ filePath, error: extractionError.message }, 'Primary audio extraction failed, trying fallback method');
     const fallbackArgs = [
+      ...seekArgs,
       '-i', filePath,
+      ...mapArgs,
       '-vn',
       '-acodec', 'pcm_s16le',
       '-ar', '44100',
@@ -308,7 +419,7 @@ async function extractAudioFromFile(filePath, tempDir, episodeFileId) {
 }
 
 /**
- * Generate fingerprints for sliding windows in an audio file
+ * Generate raw (integer) fingerprints for sliding windows in an audio file
  */
 async function fingerprintEpisodeChunks(filePath, chunkLength = 30, overlap = 20, episodeFileId = null, progressCallback = null) {
   const getAudioDuration = async (file) => {
@@ -390,7 +501,7 @@ async function fingerprintEpisodeChunks(filePath, chunkLength = 30, overlap = 20
       // Fingerprint the chunk
       const tFp = Date.now();
       const fp = await new Promise((resolve, reject) => {
-        execFile('fpcalc', ['-json', chunkPath], (err, stdout) => {
+        execFile('fpcalc', ['-raw', '-json', chunkPath], (err, stdout) => {
           if (err) {
             return reject(err);
           }
@@ -448,17 +559,107 @@ async function fingerprintEpisodeChunks(filePath, chunkLength = 30, overlap = 20
   return results;
 }
 
+/**
+ * Generate raw fingerprints for a whole audio file with one decode and in-process Chromaprint.
+ * Returns a single chunk starting at 0 so storage and stitching match the chunked backend.
+ */
+async function fingerprintEpisodeAudio(filePath, fileDuration, episodeFileId = null, progressCallback = null) {
+  const t0 = Date.now();
+  try {
+    const { fingerprint, duration } = await fingerprintAudioFile(filePath, {
+      onSpawn: (ffmpeg) => {
+        if (episodeFileId) {
+          activeFfmpegJobs[episodeFileId] = {
+            pid: ffmpeg.pid,
+            filePath,
+            startTime: Date.now(),
+            status: 'fingerprinting',
+          };
+        }
+      },
+      onProgress: (seconds) => {
+        if (progressCallback && fileDuration > 0) {
+          const fraction = Math.min(1, seconds / fileDuration);
+          progressCallback(20 + Math.round(fraction * 50), `Fingerprinted ${Math.round(seconds)}s of audio`);
+        }
+      },
+    });
+
+    workerLogger.info({
+      filePath,
+      items: fingerprint.length,
+      audioSeconds: Math.round(duration),
+      durationMs: Date.now() - t0,
+    }, 'In-process fingerprinting complete');
+
+    return [{ start: 0, fingerprint }];
+  } finally {
+    if (episodeFileId) {
+      delete activeFfmpegJobs[episodeFileId];
+    }
+  }
+}
+
+/**
+ * Get the configured fingerprint backend ('inprocess' or 'fpcalc')
+ */
+async function getFingerprintBackend() {
+  const db = await getDb();
+  return getSetting(db, 'fingerprint_backend', 'inprocess') === 'fpcalc' ? 'fpcalc' : 'inprocess';
+}
+
+/**
+ * Work out which parts of an episode to extract and fingerprint.
+ * Returns [{ label, start, duration }] or null when the whole file should be used:
+ * full-file mode (needed to find mid-episode stingers), an unknown duration, or
+ * head and tail windows that would cover the file anyway.
+ */
+function planSearchWindows(fileDuration, windows) {
+  if (!windows || windows.mode === 'full' || !fileDuration) {
+    return null;
+  }
+  if (windows.headSec + windows.tailSec >= fileDuration) {
+    return null;
+  }
+
+  const tailStart = Math.floor(fileDuration - windows.tailSec);
+  return [
+    { label: 'head', start: 0, duration: windows.headSec },
+    // Tail runs to the end of the file; the extra second absorbs probe rounding
+    { label: 'tail', start: tailStart, duration: fileDuration - tailStart + 1 },
+  ];
+}
+
+/**
+ * Fingerprint one extracted audio file with the chosen backend, falling back to chunked fpcalc
+ */
+async function fingerprintExtractedAudio(audioPath, audioDuration, backend, chunking, episodeFileId, progressCallback) {
+  const { chunkLength, overlap } = chunking;
+  if (backend === 'fpcalc') {
+    return fingerprintEpisodeChunks(audioPath, chunkLength, overlap, episodeFileId, progressCallback);
+  }
+  try {
+    return await fingerprintEpisodeAudio(audioPath, audioDuration, episodeFileId, progressCallback);
+  } catch (error) {
+    workerLogger.warn({
+      episodeFileId,
+      error: error.message,
+    }, 'In-process fingerprinting failed, falling back to chunked fpcalc');
+    return fingerprintEpisodeChunks(audioPath, chunkLength, overlap, episodeFileId, progressCallback);
+  }
+}
+
 /**
  * Store episode fingerprint data in database
  */
-async function storeEpisodeFingerprints(showId, seasonNumber, episodeNumber, episodeFileId, fingerprintData, fileDuration, fileSize) {
+async function storeEpisodeFingerprints(showId, seasonNumber, episodeNumber, episodeFileId, fingerprintData, fileDuration, fileSize, contentHash = null, audioTrack = null) {
   const db = await getDb();
   const now = new Date().toISOString();
 
   const sql = `
     INSERT OR REPLACE INTO episode_fingerprints 
-    (show_id, season_number, episode_number, episode_file_id, fingerprint_data, file_duration, file_size, created_at, updated_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    (show_id, season_number, episode_number, episode_file_id, fingerprint_data, file_duration, file_size, content_hash, audio_track, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `;
 
   db.prepare(sql).run(
@@ -469,6 +670,8 @@ async function storeEpisodeFingerprints(showId, seasonNumber, episodeNumber, epi
     JSON.stringify(fingerprintData),
     fileDuration,
     fileSize,
+    contentHash,
+    audioTrack ? JSON.stringify(audioTrack) : null,
     now,
     now,
   );
@@ -492,7 +695,8 @@ async function getSeasonFingerprints(showId, seasonNumber, includeInvalid = fals
     SELECT 
       efp.*, 
       e.episode_number, 
-      e.title as episode_title
+      e.title as episode_title,
+      f.file_path
     FROM seasons s
     JOIN episodes e ON e.season_id = s.id
     JOIN episode_files f ON f.episode_id = e.id
@@ -552,130 +756,246 @@ async function getPreviousSeasonFingerprints(showId, currentSeasonNumber, limit
 }
 
 /**
- * Build fingerprint map across episodes
+ * Keep only episodes fingerprinted from comparable audio tracks: the most common known language wins.
+ * Episodes without a known track language (e.g. fingerprinted before tracks were recorded) are kept.
  */
-function buildFingerprintMap(episodes) {
-  const fpMap = new Map(); // fingerprint → [ { epId, time } ... ]
+function selectComparableEpisodes(episodes) {
+  const languageOf = (episode) => {
+    try {
+      const language = episode.audio_track ? JSON.parse(episode.audio_track).language : null;
+      return language && language !== 'und' ? language : null;
+    } catch (error) {
+      return null;
+    }
+  };
 
-  for (const episode of episodes) {
-    const epId = episode.episode_file_id;
-    const fingerprints = episode.fingerprint_data;
+  const counts = countBy(episodes.map(languageOf).filter(Boolean));
+  const languages = Object.keys(counts);
+  if (languages.length <= 1) {
+    return { episodes, excluded: [], language: languages[0] || null };
+  }
+  const language = maxBy(languages, (lang) => counts[lang]);
+  const [kept, excluded] = partition(episodes, (episode) => [null, language].includes(languageOf(episode)));
+  return { episodes: kept, excluded, language };
+}
+
+/**
+ * Align every episode pair and collect the shared audio regions found in each episode.
+ * `masks` maps an episode to ranges (known idents) that are blanked before aligning.
+ */
+function buildSharedRegionMap(episodes, options = {}, masks = new Map()) {
+  const regionMap = new Map(); // epId → [ { start, end, partnerId, partnerStart, bitErrorRate } ... ]
+  const timelines = episodes.map((episode) => ({
+    epId: episode.episode_file_id,
+    timeline: maskTimeline(stitchRawFingerprint(episode.fingerprint_data), masks.get(episode.episode_file_id)),
+  }));
 
-    for (const chunk of fingerprints) {
-      const fp = chunk.fingerprint;
-      if (!fpMap.has(fp)) {
-        fpMap.set(fp, []);
+  for (const { epId, timeline } of timelines) {
+    regionMap.set(epId, []);
+    if (timeline.length === 0) {
+      workerLogger.warn({ episodeFileId: epId }, 'No raw fingerprint data for episode, re-fingerprint required');
+    }
+  }
+
+  for (let i = 0; i < timelines.length; i++) {
+    for (let j = i + 1; j < timelines.length; j++) {
+      const lhs = timelines[i];
+      const rhs = timelines[j];
+      if (lhs.epId === rhs.epId) {
+        continue;
+      }
+      const regions = alignEpisodePair(lhs.timeline, rhs.timeline, options.alignment);
+      for (const region of regions) {
+        regionMap.get(lhs.epId).push({
+          start: region.lhsStart,
+          end: region.lhsEnd,
+          partnerId: rhs.epId,
+          partnerStart: region.rhsStart,
+          bitErrorRate: region.bitErrorRate,
+        });
+        regionMap.get(rhs.epId).push({
+          start: region.rhsStart,
+          end: region.rhsEnd,
+          partnerId: lhs.epId,
+          partnerStart: region.lhsStart,
+          bitErrorRate: region.bitErrorRate,
+        });
       }
-      fpMap.get(fp).push({ epId, time: chunk.start });
     }
   }
 
-  return fpMap;
+  return regionMap;
+}
+
+/**
+ * Median of a numeric array
+ */
+function median(values) {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
 }
 
 /**
- * Select fingerprints that appear in ≥ threshold percent of episodes
+ * Merge each episode's pairwise regions and keep those shared by ≥ threshold percent of episodes
  */
-function selectCommonFingerprints(fpMap, episodesCount, thresholdPercent = 0.8) {
+function selectCommonRegions(regionMap, episodesCount, thresholdPercent = 0.8) {
   const minCount = ceil(episodesCount * thresholdPercent);
-  const commonFpMap = new Map();
+  const commonRegionMap = new Map();
+
+  for (const [epId, regions] of regionMap) {
+    const sorted = [...regions].sort((a, b) => a.start - b.start);
+    const groups = [];
+    for (const region of sorted) {
+      const current = groups[groups.length - 1];
+      if (current && region.start <= current.end) {
+        current.end = Math.max(current.end, region.end);
+        current.regions.push(region);
+      } else {
+        groups.push({ end: region.end, regions: [region] });
+      }
+    }
 
-  for (const [fp, occs] of fpMap) {
-    const uniqueEpisodes = new Set(occs.map((o) => o.epId));
-    if (uniqueEpisodes.size >= minCount) {
-      commonFpMap.set(fp, occs);
+    const common = groups
+      .map((group) => {
+        const partners = new Set(group.regions.map((r) => r.partnerId));
+        return {
+          // Median boundaries keep one long partner match from stretching the region
+          start: median(group.regions.map((r) => r.start)),
+          end: median(group.regions.map((r) => r.end)),
+          episodeCount: partners.size + 1,
+          bitErrorRate: group.regions.reduce((sum, r) => sum + r.bitErrorRate, 0) / group.regions.length,
+          links: group.regions.map((r) => ({ partnerId: r.partnerId, partnerStart: r.partnerStart })),
+        };
+      })
+      .filter((region) => region.episodeCount >= minCount);
+
+    if (common.length > 0) {
+      commonRegionMap.set(epId, common);
     }
   }
 
-  return commonFpMap;
+  return commonRegionMap;
 }
 
 /**
- * Cluster fingerprints by time proximity
+ * Cluster shared regions that were aligned with each other.
+ * Linking by alignment rather than timestamp keeps an intro together even when
+ * cold opens put it at a different offset in every episode.
  */
-function clusterByTime(entries, timeThreshold = 15) {
+function clusterByAlignment(entries, linkToleranceSec = 1) {
   if (entries.length === 0) {
     return [];
   }
 
-  // Sort entries by time for efficient clustering
-  entries.sort((a, b) => a.time - b.time);
-
-  const clusters = [];
-  let currentCluster = [entries[0]];
+  const parent = entries.map((_entry, index) => index);
+  const find = (index) => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
 
-  for (let i = 1; i < entries.length; i++) {
-    const entry = entries[i];
-    const lastEntry = currentCluster[currentCluster.length - 1];
+  const byEpisode = new Map();
+  entries.forEach((entry, index) => {
+    if (!byEpisode.has(entry.epId)) {
+      byEpisode.set(entry.epId, []);
+    }
+    byEpisode.get(entry.epId).push(index);
+  });
 
-    // If this entry is within the time threshold of the last entry in current cluster
-    if (Math.abs(entry.time - lastEntry.time) <= timeThreshold) {
-      currentCluster.push(entry);
-    } else {
-      // Start a new cluster
-      clusters.push(currentCluster);
-      currentCluster = [entry];
+  entries.forEach((entry, index) => {
+    for (const link of entry.links || []) {
+      const partnerIndex = (byEpisode.get(link.partnerId) || []).find((candidate) =>
+        link.partnerStart >= entries[candidate].time - linkToleranceSec &&
+        link.partnerStart <= entries[candidate].end + linkToleranceSec);
+      if (partnerIndex !== undefined) {
+        parent[find(index)] = find(partnerIndex);
+      }
     }
-  }
+  });
 
-  // Don't forget the last cluster
-  clusters.push(currentCluster);
+  const clusters = new Map();
+  entries.forEach((entry, index) => {
+    const root = find(index);
+    if (!clusters.has(root)) {
+      clusters.set(root, []);
+    }
+    clusters.get(root).push(entry);
+  });
 
-  return clusters;
+  return [...clusters.values()];
 }
 
 /**
  * Detect segments using clustering approach
- * Fingerprint everywhere, cluster by timestamp, label by position
+ * Align fingerprints between episodes, cluster shared regions by alignment, label by position
+ * and duration-plausibility rules (`options.segmentRules`)
  */
-function detectSegments(commonFpMap, episodeDuration, options = {}) {
+export function detectSegments(commonRegionMap, episodeDuration, options = {}) {
   const {
-    timeThreshold = 15, // seconds for clustering
-    marginSec = 5, // margin around detected segments
-    windowSec = 10, // fingerprint window size
+    marginSec = 0, // optional padding around detected segments
     minEpisodeCoverage = 0.7, // minimum % of episodes a segment must appear in
   } = options;
 
-  if (!commonFpMap || commonFpMap.size === 0) {
-    return { segments: [], intro: null, credits: null };
+  if (!commonRegionMap || commonRegionMap.size === 0) {
+    return { segments: [], intro: null, credits: null, stingers: [], demoted: [] };
   }
 
-  // 1) Flatten to array of all { fp, time, epId } entries
+  // 1) Flatten to array of all { time, end, epId } shared regions
   const entries = [];
-  for (const [fp, occs] of commonFpMap) {
-    for (const occ of occs) {
-      entries.push({ fp, time: occ.time, epId: occ.epId });
+  for (const [epId, regions] of commonRegionMap) {
+    for (const region of regions) {
+      entries.push({
+        time: region.start,
+        end: region.end,
+        epId,
+        bitErrorRate: region.bitErrorRate,
+        links: region.links,
+      });
     }
   }
 
   workerLogger.info({
     totalEntries: entries.length,
-    uniqueFingerprints: commonFpMap.size,
-  }, 'Flattened fingerprint entries for clustering');
+    episodesWithSharedRegions: commonRegionMap.size,
+  }, 'Flattened shared regions for clustering');
 
-  // 2) Cluster by time proximity
-  const clusters = clusterByTime(entries, timeThreshold);
+  // 2) Cluster regions linked by pairwise alignment
+  const clusters = clusterByAlignment(entries);
 
   workerLogger.info({
     clusterCount: clusters.length,
-    timeThreshold,
-  }, 'Time-based clustering completed');
+  }, 'Alignment-based clustering completed');
 
   // 3) For each cluster, compute segment info
   const segments = clusters.map((cluster, index) => {
     const times = cluster.map((e) => e.time);
+    const ends = cluster.map((e) => e.end);
     const episodeIds = cluster.map((e) => e.epId);
     const uniqueEpisodes = new Set(episodeIds);
 
+    // Where this segment sits in each episode, from that episode's own regions
+    const occurrences = {};
+    for (const epId of uniqueEpisodes) {
+      const own = cluster.filter((e) => e.epId === epId);
+      occurrences[epId] = {
+        start: Math.max(0, median(own.map((e) => e.time)) - marginSec),
+        end: Math.min(episodeDuration || Infinity, median(own.map((e) => e.end)) + marginSec),
+      };
+    }
+
     return {
       id: index,
-      start: Math.max(0, Math.min(...times) - marginSec),
-      end: Math.min(episodeDuration, Math.max(...times) + marginSec + windowSec),
-      medianTime: times.sort((a, b) => a - b)[Math.floor(times.length / 2)],
+      start: Math.max(0, median(times) - marginSec),
+      end: Math.min(episodeDuration || Infinity, median(ends) + marginSec),
+      medianTime: median(times),
       episodeCount: uniqueEpisodes.size,
       fingerprintCount: cluster.length,
+      bitErrorRate: round(cluster.reduce((sum, e) => sum + e.bitErrorRate, 0) / cluster.length, 3),
       episodeIds: Array.from(uniqueEpisodes),
       times: times,
+      occurrences,
     };
   });
 
@@ -696,37 +1016,16 @@ function detectSegments(commonFpMap, episodeDuration, options = {}) {
   // 5) Sort by start time
   goodSegments.sort((a, b) => a.start - b.start);
 
-  // 6) Label segments by position
-  let intro = null;
-  let credits = null;
-  const stingers = [];
-
-  if (goodSegments.length > 0) {
-    // First segment is almost always intro
-    intro = goodSegments[0];
-
-    // Last segment is usually credits
-    if (goodSegments.length > 1) {
-      credits = goodSegments[goodSegments.length - 1];
-
-      // Middle segments are stingers/bumpers
-      stingers.push(...goodSegments.slice(1, -1));
-    } else {
-      // Only one segment - could be either intro or credits
-      // Use position to determine
-      if (intro.medianTime < episodeDuration * 0.1) {
-        // In first 10% of episode - likely intro
-        workerLogger.info('Single segment detected in early position, labeling as intro');
-      } else if (intro.medianTime > episodeDuration * 0.8) {
-        // In last 20% of episode - likely credits
-        credits = intro;
-        intro = null;
-        workerLogger.info('Single segment detected in late position, labeling as credits');
-      } else {
-        // Middle position - unclear, treat as intro for now
-        workerLogger.info('Single segment detected in middle position, treating as intro');
-      }
-    }
+  // 6) Label segments by position, subject to the duration-plausibility rules
+  const { intro, credits, stingers, demoted } = labelSegments(
+    goodSegments,
+    episodeDuration,
+    options.segmentRules || DEFAULT_SEGMENT_RULES,
+  );
+  if (demoted.length > 0) {
+    workerLogger.info({
+      demoted: demoted.map((s) => ({ start: s.start, end: s.end, ...s.demotion })),
+    }, 'Segments demoted to stingers by plausibility rules');
   }
 
   // Log detailed segment analysis
@@ -757,32 +1056,24 @@ function detectSegments(commonFpMap, episodeDuration, options = {}) {
     intro,
     credits,
     stingers,
+    demoted,
   };
 }
 
 /**
- * Calculate confidence score for clustering-based detection
+ * Resolve a season-level segment to its position in one episode.
+ * Falls back to the season template when the episode has no occurrence in the cluster.
  */
-function calculateClusteringConfidence(segments, totalEpisodes, episodeDuration) {
-  if (!segments || segments.length === 0) {
-    return 0.00;
+function resolveEpisodeSegment(segment, episodeFileId) {
+  if (!segment) {
+    return null;
   }
-
-  // Base confidence from segment coverage
-  const totalSegmentEpisodes = segments.reduce((sum, seg) => sum + seg.episodeCount, 0);
-  const avgEpisodeCoverage = totalSegmentEpisodes / (segments.length * totalEpisodes);
-  const coverageConfidence = Math.min(avgEpisodeCoverage * 0.6, 0.6);
-
-  // Segment count bonus (more segments = more confidence)
-  const segmentBonus = Math.min(segments.length * 0.1, 0.2);
-
-  // Episode count bonus
-  const episodeBonus = Math.min(totalEpisodes / 10, 0.2);
-
-  const totalConfidence = coverageConfidence + segmentBonus + episodeBonus;
-
-  // Round to 2 decimal places
-  return round(Math.min(totalConfidence, 1.00), 2);
+  const { occurrences, ...template } = segment;
+  const own = occurrences?.[episodeFileId];
+  if (own) {
+    return { ...template, start: own.start, end: own.end, source: 'episode' };
+  }
+  return { ...template, source: 'season_template' };
 }
 
 /**
@@ -832,32 +1123,43 @@ async function storeDetectionResults(showId, seasonNumber, episodeNumber, episod
   const sql = `
     INSERT OR REPLACE INTO detection_results 
     (show_id, season_number, episode_number, episode_file_id, 
-     intro_start, intro_end, credits_start, credits_end, 
-     stingers_data, segments_data,
+     intro_start, intro_end, credits_start, credits_end, recap_start, recap_end,
+     preview_start, preview_end, stingers_data, segments_data,
      confidence_score, detection_method, approval_status, 
-     processing_notes, created_at, updated_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     processing_notes, credits_merge_data, confidence_breakdown, idents_data, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `;
 
-  // Serialize stingers and segments data
+  // Serialize stingers, segments, credits merge data, the confidence breakdown and idents
   const stingersData = detectionData.stingers ? JSON.stringify(detectionData.stingers) : null;
   const segmentsData = detectionData.segments ? JSON.stringify(detectionData.segments) : null;
+  const creditsMergeData = detectionData.credits_merge ? JSON.stringify(detectionData.credits_merge) : null;
+  const confidenceBreakdownData = detectionData.confidence_breakdown ?
+    JSON.stringify(detectionData.confidence_breakdown) : null;
+  const identsData = detectionData.idents?.length ? JSON.stringify(detectionData.idents) : null;
 
   db.prepare(sql).run(
     showId,
     seasonNumber,
     episodeNumber,
     episodeFileId,
-    detectionData.intro?.start || null,
-    detectionData.intro?.end || null,
-    detectionData.credits?.start || null,
-    detectionData.credits?.end || null,
+    detectionData.intro?.start ?? null,
+    detectionData.intro?.end ?? null,
+    detectionData.credits?.start ?? null,
+    detectionData.credits?.end ?? null,
+    detectionData.recap?.start ?? null,
+    detectionData.recap?.end ?? null,
+    detectionData.preview?.start ?? null,
+    detectionData.preview?.end ?? null,
     stingersData,
     segmentsData,
     detectionData.confidence_score,
     detectionData.detection_method,
     detectionData.approval_status || 'pending',
     detectionData.processing_notes || '',
+    creditsMergeData,
+    confidenceBreakdownData,
+    identsData,
     now,
     now,
   );
@@ -871,7 +1173,10 @@ async function storeDetectionResults(showId, seasonNumber, episodeNumber, episod
     method: detectionData.detection_method,
     intro: detectionData.intro ? `${detectionData.intro.start}s-${detectionData.intro.end}s` : 'none',
     credits: detectionData.credits ? `${detectionData.credits.start}s-${detectionData.credits.end}s` : 'none',
+    recap: detectionData.recap ? `${detectionData.recap.start}s-${detectionData.recap.end}s` : 'none',
+    preview: detectionData.preview ? `${detectionData.preview.start}s-${detectionData.preview.end}s` : 'none',
     stingers: detectionData.stingers ? detectionData.stingers.length : 0,
+    idents: detectionData.idents ? detectionData.idents.length : 0,
     segments: detectionData.segments ? detectionData.segments.length : 0,
   }, 'Detection results stored in database');
 }
@@ -890,6 +1195,219 @@ async function getAutoProcessingSettings() {
   };
 }
 
+/**
+ * Get boundary refinement settings
+ */
+async function getBoundaryRefinementSettings() {
+  const db = await getDb();
+  const enabled = getSetting(db, 'boundary_refinement_enabled', '1') === '1';
+  const toleranceSec = parseFloat(getSetting(db, 'boundary_refinement_tolerance', '3')) || 3;
+
+  return {
+    enabled,
+    toleranceSec,
+  };
+}
+
+/**
+ * Get the segment plausibility rules for a show: defaults, then the global rules, then the show's override
+ */
+async function getSegmentRules(showId) {
+  const db = await getDb();
+  const parse = (key) => {
+    try {
+      return JSON.parse(getSetting(db, key, null) || 'null');
+    } catch (error) {
+      workerLogger.warn({ key, error: error.message }, 'Ignoring malformed segment rules setting');
+      return null;
+    }
+  };
+  return normalizeSegmentRules(parse('segment_rules'), parse(`segment_rules_show_${showId}`));
+}
+
+/**
+ * Snap an episode's intro/credits to nearby silence or black frames.
+ * Returns the refined segments plus the refinement records keyed by segment id.
+ */
+async function refineEpisodeBoundaries(episode, segments, settings) {
+  const refinements = {};
+  const refined = {};
+
+  for (const [label, segment] of Object.entries(segments)) {
+    if (!segment) {
+      refined[label] = segment;
+      continue;
+    }
+    const refinement = await refineSegmentBoundaries(
+      episode.file_path,
+      segment,
+      label,
+      episode.file_duration,
+      { toleranceSec: settings.toleranceSec },
+    );
+    if (!refinement) {
+      refined[label] = segment;
+      continue;
+    }
+    refinements[segment.id] = refinement;
+    refined[label] = {
+      ...segment,
+      start: refinement.start.refined,
+      end: refinement.end.refined,
+      refined: refinement.start.moved !== 0 || refinement.end.moved !== 0,
+    };
+  }
+
+  return { ...refined, refinements };
+}
+
+/**
+ * Find the known library idents in each episode. Returns a Map of episode file ID to occurrences;
+ * empty when ident masking is turned off with `options.maskIdents = false` or no idents are known.
+ */
+async function findEpisodeIdents(episodes, options = {}) {
+  const occurrences = new Map();
+  if (options.maskIdents === false) {
+    return occurrences;
+  }
+  const idents = await getLibraryIdents();
+  if (idents.length === 0) {
+    return occurrences;
+  }
+  for (const episode of episodes) {
+    const found = findIdentOccurrences(stitchRawFingerprint(episode.fingerprint_data), idents, options.identMatch);
+    if (found.length > 0) {
+      occurrences.set(episode.episode_file_id, found);
+    }
+  }
+  workerLogger.info({
+    identCount: idents.length,
+    episodesWithIdents: occurrences.size,
+  }, 'Masked library idents before clustering');
+  return occurrences;
+}
+
+/**
+ * Detect one episode's intro and credits by matching it against the approved templates.
+ * Returns a season-detection-shaped result for that episode, or null when the intro template
+ * is missing or not found, so the caller can fall back to season detection.
+ */
+async function detectEpisodeWithTemplates(episodeFile, fingerprints, fileDuration, options = {}) {
+  const { show_id: showId, season_number: seasonNumber, episode_number: episodeNumber } = episodeFile;
+  const episodeFileId = episodeFile.episode_file_id;
+  const templates = await getSegmentTemplates(showId, seasonNumber);
+  if (!templates.intro) {
+    return null;
+  }
+
+  const timeline = stitchRawFingerprint(fingerprints);
+  const introMatch = matchTemplate(templates.intro.fingerprint, timeline, options.templateMatch);
+  if (!introMatch) {
+    workerLogger.info({ episodeFileId, templateId: templates.intro.id }, 'Intro template not found, falling back to season detection');
+    return null;
+  }
+  const creditsMatch = templates.credits ?
+    matchTemplate(templates.credits.fingerprint, timeline, options.templateMatch) : null;
+  const idents = findIdentOccurrences(timeline, await getLibraryIdents(), options.identMatch);
+
+  const toSegment = (label, match, template) => (match ? {
+    id: `template-${label}`,
+    start: match.start,
+    end: match.end,
+    medianTime: match.start,
+    episodeCount: 1,
+    fingerprintCount: template.fingerprint.length,
+    episodeIds: [episodeFileId],
+    times: [match.start],
+    source: 'template',
+    templateId: template.id,
+  } : null);
+  let intro = toSegment('intro', introMatch, templates.intro);
+  let credits = toSegment('credits', creditsMatch, templates.credits);
+
+  const refinementSettings = await getBoundaryRefinementSettings();
+  let refinements = {};
+  if (options.refineBoundaries ?? refinementSettings.enabled) {
+    ({ intro, credits, refinements } = await refineEpisodeBoundaries(
+      { file_path: episodeFile.file_path, file_duration: fileDuration },
+      { intro, credits },
+      refinementSettings,
+    ));
+  }
+
+  const breakdown = buildTemplateConfidenceBreakdown(introMatch, creditsMatch);
+  const creditsMerge = mergeCreditsDetection(
+    { credits, confidence: breakdown.score },
+    await getVideoCreditsResult(episodeFileId),
+  );
+  credits = creditsMerge.credits;
+
+  const autoSettings = await getAutoProcessingSettings();
+  const approvalStatus = (creditsMerge.confidence >= autoSettings.threshold && autoSettings.autoProcess) ?
+    'auto_approved' : 'pending';
+  const segments = [intro, credits].filter(Boolean).map((segment) => (refinements[segment.id] ?
+    { ...segment, refinement: refinements[segment.id] } : segment));
+  const scope = templates.intro.seasonNumber === null ? 'show' : `season ${templates.intro.seasonNumber}`;
+
+  await storeDetectionResults(showId, seasonNumber, episodeNumber, episodeFileId, {
+    intro,
+    credits,
+    recap: null,
+    preview: null,
+    stingers: [],
+    idents,
+    segments,
+    credits_merge: creditsMerge.record,
+    confidence_score: creditsMerge.confidence,
+    confidence_breakdown: withVideoCreditsAdjustment(breakdown, creditsMerge.confidence, creditsMerge.record.source),
+    detection_method: 'template',
+    approval_status: approvalStatus,
+    processing_notes: `Matched against the approved ${scope} template ` +
+      `(intro ${Math.round(introMatch.coverage * 100)}%` +
+      `${creditsMatch ? `, credits ${Math.round(creditsMatch.coverage * 100)}%` : ''}). Season not re-clustered.`,
+  });
+
+  workerLogger.info({
+    episodeFileId,
+    showId,
+    seasonNumber,
+    intro: `${intro.start}s-${intro.end}s`,
+    credits: credits ? `${credits.start}s-${credits.end}s` : 'none',
+    confidence: creditsMerge.confidence,
+  }, 'Episode detected from approved templates');
+
+  return {
+    success: true,
+    confidence_score: creditsMerge.confidence,
+    detection_method: 'template',
+    approval_status: approvalStatus,
+    intro,
+    credits,
+    stingers: [],
+    segments,
+    episodes: {
+      [episodeFileId]: {
+        intro,
+        credits,
+        recap: null,
+        preview: null,
+        stingers: [],
+        idents,
+        confidence: creditsMerge.confidence,
+      },
+    },
+    confidence_breakdown: breakdown,
+  };
+}
+
+/**
+ * Check whether new episodes are matched against approved templates before season detection
+ */
+async function getTemplateMatchingEnabled() {
+  const db = await getDb();
+  return getSetting(db, 'segment_templates_enabled', '1') === '1';
+}
+
 /**
  * Main detection pipeline for a season
  */
@@ -946,6 +1464,18 @@ export async function detectIntroAndCreditsForSeason(showId, seasonNumber, optio
       }
     }
 
+    // Fingerprints of different dubs share no audio, so mixed languages would cluster into nothing
+    const comparable = selectComparableEpisodes(detectionEpisodes);
+    if (comparable.excluded.length > 0) {
+      workerLogger.warn({
+        showId,
+        seasonNumber,
+        language: comparable.language,
+        excludedEpisodeFileIds: comparable.excluded.map((episode) => episode.episode_file_id),
+      }, 'Leaving out episodes fingerprinted from a different audio language');
+      detectionEpisodes = comparable.episodes;
+    }
+
     if (detectionEpisodes.length === 0) {
       workerLogger.warn({
         showId,
@@ -960,17 +1490,21 @@ export async function detectIntroAndCreditsForSeason(showId, seasonNumber, optio
       };
     }
 
-    // Build fingerprint map
-    const fpMap = buildFingerprintMap(detectionEpisodes);
+    // Library idents are shared with other shows, so keep them out of this show's clustering
+    const identOccurrences = await findEpisodeIdents(detectionEpisodes, options);
+
+    // Align episode pairs to find shared audio regions
+    const regionMap = buildSharedRegionMap(detectionEpisodes, options, identOccurrences);
+    const pairwiseRegions = [...regionMap.values()].reduce((sum, regions) => sum + regions.length, 0);
     workerLogger.info({
       showId,
       seasonNumber,
-      uniqueFingerprints: fpMap.size,
-    }, 'Built fingerprint map');
+      pairwiseRegions,
+    }, 'Built shared region map');
 
-    // Select common fingerprints
+    // Select regions shared by enough episodes
     const thresholdPercent = options.thresholdPercent || 0.5;
-    const commonFpMap = selectCommonFingerprints(fpMap, detectionEpisodes.length, thresholdPercent);
+    const commonRegionMap = selectCommonRegions(regionMap, detectionEpisodes.length, thresholdPercent);
 
     // Log detailed confidence calculation breakdown
     const minRequiredEpisodes = Math.ceil(detectionEpisodes.length * thresholdPercent);
@@ -978,29 +1512,38 @@ export async function detectIntroAndCreditsForSeason(showId, seasonNumber, optio
       showId,
       seasonNumber,
       totalEpisodes: detectionEpisodes.length,
-      uniqueFingerprints: fpMap.size,
-      commonFingerprints: commonFpMap.size,
+      pairwiseRegions,
+      episodesWithCommonRegions: commonRegionMap.size,
       thresholdPercent: `${(thresholdPercent * 100).toFixed(1)}%`,
       minRequiredEpisodes,
       thresholdCalculation: `${detectionEpisodes.length} episodes × ${(thresholdPercent * 100).toFixed(1)}% = ${minRequiredEpisodes} episodes required`,
-      noCommonFingerprints: commonFpMap.size === 0 ? 'No fingerprints found in enough episodes to meet threshold' : null,
-    }, 'Fingerprint selection analysis');
+      noCommonRegions: commonRegionMap.size === 0 ? 'No shared audio found in enough episodes to meet threshold' : null,
+    }, 'Shared region selection analysis');
 
     // Get episode duration for detection
     const episodeDuration = detectionEpisodes[0]?.file_duration || 0;
 
-    // Detect ranges
-    const ranges = detectSegments(commonFpMap, episodeDuration, options);
+    // Detect ranges, labelling intro/credits only when their lengths and positions are plausible
+    const segmentRules = options.segmentRules || await getSegmentRules(showId);
+    const ranges = detectSegments(commonRegionMap, episodeDuration, { ...options, segmentRules });
 
-    // Calculate confidence with detailed breakdown
-    const confidence = calculateClusteringConfidence(ranges.segments, detectionEpisodes.length, episodeDuration);
+    // Calculate confidence, keeping every component for reviewers
+    const confidenceBreakdown = buildConfidenceBreakdown(
+      ranges,
+      detectionEpisodes.length,
+      detectionMethod,
+      crossSeasonData,
+      segmentRules,
+    );
+    const confidence = confidenceBreakdown.score;
 
     // Log confidence calculation details
     workerLogger.info({
       showId,
       seasonNumber,
       finalConfidence: `${(confidence * 100).toFixed(2)}%`,
-      commonFingerprints: commonFpMap.size,
+      components: confidenceBreakdown.components.map((c) => `${c.key}=${c.effect}`).join(', '),
+      episodesWithCommonRegions: commonRegionMap.size,
       totalEpisodes: detectionEpisodes.length,
       episodeDuration: `${episodeDuration.toFixed(1)}s`,
       introDetected: !!ranges.intro,
@@ -1041,19 +1584,118 @@ export async function detectIntroAndCreditsForSeason(showId, seasonNumber, optio
     const approvalStatus = (confidence >= autoSettings.threshold && autoSettings.autoProcess) ?
       'auto_approved' : 'pending';
 
-    // Store detection results for each episode in the season
+    // Recaps and previews only come from neighbouring episodes of this season
+    const seasonTimelines = currentSeasonEpisodes.map((episode) => ({
+      epId: episode.episode_file_id,
+      episodeNumber: episode.episode_number,
+      timeline: stitchRawFingerprint(episode.fingerprint_data),
+    }));
+    const recurringSegments = (epId) =>
+      ranges.segments.map((segment) => resolveEpisodeSegment(segment, epId));
+    const previews = detectSeasonPreviews(
+      seasonTimelines,
+      recurringSegments,
+      (epId) => resolveEpisodeSegment(ranges.credits, epId),
+      options.preview,
+    );
+    // A preview reappearing at the head of the next episode is its cold open, not a recap
+    const recaps = detectSeasonRecaps(
+      seasonTimelines,
+      (epId) => [...recurringSegments(epId), previews[epId]],
+      options.recap,
+    );
+    workerLogger.info({
+      showId,
+      seasonNumber,
+      recapsDetected: Object.keys(recaps).length,
+      previewsDetected: Object.keys(previews).length,
+    }, 'Recap and preview detection completed');
+    // Recaps replay earlier episodes' bodies, which head/tail windows never fingerprint
+    const windowed = getSearchWindows(await getDb(), showId).mode !== 'full';
+    if (windowed) {
+      workerLogger.warn(
+        { showId, seasonNumber },
+        'Search windows are on, recaps only match audio inside earlier episodes\' windows',
+      );
+    }
+
+    // Boundary refinement can be forced on/off per call, otherwise follows settings
+    const refinementSettings = await getBoundaryRefinementSettings();
+    const refineBoundaries = options.refineBoundaries ?? refinementSettings.enabled;
+
+    // Store detection results for each episode in the season, positioned per episode
+    const episodeResults = {};
     for (const episode of currentSeasonEpisodes) {
+      let intro = resolveEpisodeSegment(ranges.intro, episode.episode_file_id);
+      let credits = resolveEpisodeSegment(ranges.credits, episode.episode_file_id);
+      const stingers = (ranges.stingers || [])
+        .map((stinger) => resolveEpisodeSegment(stinger, episode.episode_file_id));
+
+      let refinements = {};
+      if (refineBoundaries) {
+        ({ intro, credits, refinements } = await refineEpisodeBoundaries(
+          episode,
+          { intro, credits },
+          refinementSettings,
+        ));
+      }
+
+      // Merge any stored video credits estimate for this file
+      const creditsMerge = mergeCreditsDetection(
+        { credits, confidence },
+        await getVideoCreditsResult(episode.episode_file_id),
+      );
+      credits = creditsMerge.credits;
+      const recap = recaps[episode.episode_file_id] || null;
+      const preview = previews[episode.episode_file_id] || null;
+      const idents = identOccurrences.get(episode.episode_file_id) || [];
+      episodeResults[episode.episode_file_id] = {
+        intro,
+        credits,
+        recap,
+        preview,
+        stingers,
+        idents,
+        confidence: creditsMerge.confidence,
+      };
+
+      // Keep the season template in segments_data, annotated with this episode's refinements
+      const segments = ranges.segments.map((segment) => (refinements[segment.id] ?
+        { ...segment, refinement: refinements[segment.id] } : segment));
+
+      const templateNote = [intro, credits]
+        .some((segment) => segment?.source === 'season_template') ?
+        ' Some boundaries use the season template (no match in this episode).' : '';
+      const demotionNote = ranges.demoted?.length ?
+        ` Demoted to stinger: ${ranges.demoted.map((segment) => segment.demotion.reason).join(', ')}.` : '';
+      const recapNote = recap ?
+        ` Recap ${recap.start}s-${recap.end}s matched ${recap.sourceEpisodeIds.length} earlier episode(s).` : '';
+      const previewNote = preview ?
+        ` Preview ${preview.start}s-${preview.end}s matched the next episode.` : '';
+      const windowNote = windowed ? ' Search windows on: recaps of earlier episodes\' bodies cannot be found.' : '';
+      const identNote = idents.length ? ` ${idents.length} library ident(s) excluded from clustering.` : '';
+      const trackNote = comparable.excluded.length ?
+        ` ${comparable.excluded.length} episode(s) with a non-${comparable.language} audio track left out of clustering.` : '';
       const detectionData = {
-        intro: ranges.intro,
-        credits: ranges.credits,
-        stingers: ranges.stingers,
-        segments: ranges.segments,
-        confidence_score: confidence,
+        intro,
+        credits,
+        recap,
+        preview,
+        stingers,
+        idents,
+        segments,
+        credits_merge: creditsMerge.record,
+        confidence_score: creditsMerge.confidence,
+        confidence_breakdown: withVideoCreditsAdjustment(
+          confidenceBreakdown,
+          creditsMerge.confidence,
+          creditsMerge.record.source,
+        ),
         detection_method: detectionMethod,
         approval_status: approvalStatus,
         processing_notes: `Season batch detection. ${crossSeasonData ?
           `Cross-season: ${crossSeasonData.currentSeasonCount} current + ${crossSeasonData.previousSeasonCount} previous episodes` :
-          `${detectionEpisodes.length} episodes analyzed`}`,
+          `${detectionEpisodes.length} episodes analyzed`}.${templateNote}${demotionNote}${recapNote}${windowNote}${previewNote}${identNote}${trackNote}`,
       };
 
       await storeDetectionResults(
@@ -1088,7 +1730,9 @@ export async function detectIntroAndCreditsForSeason(showId, seasonNumber, optio
       credits: ranges.credits,
       stingers: ranges.stingers,
       segments: ranges.segments,
+      episodes: episodeResults,
       cross_season_data: crossSeasonData,
+      confidence_breakdown: confidenceBreakdown,
       processing_time_ms: duration,
     };
 
@@ -1106,7 +1750,9 @@ export async function detectIntroAndCreditsForSeason(showId, seasonNumber, optio
 }
 
 /**
- * Process a single episode and trigger season batch detection
+ * Process a single episode and trigger season batch detection.
+ * With `options.dbJobId`, audio extraction, fingerprinting and detection are recorded as
+ * stages of that job.
  */
 export async function processEpisodeAndTriggerSeasonDetection(episodeFileId, options = {}, progressCallback = null) {
   const startTime = Date.now();
@@ -1144,34 +1790,111 @@ export async function processEpisodeAndTriggerSeasonDetection(episodeFileId, opt
     await fsp.mkdir(tempDir, { recursive: true });
 
     try {
-      // Extract audio
-      if (progressCallback) {
-        progressCallback(5, 'Starting audio extraction...');
+      // Only the head and tail of each episode are searched unless full-file mode is on
+      const searchWindows = options.searchWindows || getSearchWindows(db, show_id);
+      const windows = planSearchWindows(fileState.duration, searchWindows);
+      const ranges = windows || [{ label: 'full', start: 0, duration: fileState.duration }];
+      const chunkLength = options.chunkLength || 30;
+      const overlap = options.overlap || 20;
+      const backend = options.fingerprintBackend || await getFingerprintBackend();
+      const { dbJobId } = options;
+
+      // Pick the audio track the show's other episodes were fingerprinted from
+      const audioPreference = options.audioTrack || getAudioTrackPreference(db, show_id);
+      let audioSelection = null;
+      try {
+        audioSelection = selectAudioStream(await probeAudioStreams(filePath), audioPreference);
+      } catch (error) {
+        workerLogger.warn({ episodeFileId, filePath, error: error.message }, 'Audio stream probe failed, decoding the default track');
       }
-      workerLogger.info({ episodeFileId, filePath }, 'Starting audio extraction...');
-      const audioPath = await extractAudioFromFile(filePath, tempDir, episodeFileId);
-      if (progressCallback) {
-        progressCallback(15, 'Audio extraction completed');
+      const audioTrack = describeAudioStream(audioSelection);
+      workerLogger.info({
+        episodeFileId,
+        backend,
+        chunkLength,
+        overlap,
+        searchWindows,
+        ranges,
+        audioPreference,
+        audioTrack,
+      }, 'Starting audio extraction and fingerprint generation...');
+
+      // Identical content (a renamed, moved, or re-imported file) reuses its cached fingerprints
+      const windowKey = searchWindowKey(windows) + (audioTrack ? `@a${audioTrack.audioIndex}` : '');
+      let contentHash = null;
+      try {
+        contentHash = await computePartialContentHash(filePath);
+      } catch (error) {
+        workerLogger.warn({ episodeFileId, filePath, error: error.message }, 'Content hash failed, fingerprint cache skipped');
+      }
+      const cached = contentHash && !options.skipFingerprintCache
+        ? await getCachedFingerprints(contentHash, windowKey)
+        : null;
+      if (cached) {
+        workerLogger.info({ episodeFileId, contentHash, windowKey }, 'Reusing cached fingerprints for identical file content');
       }
-      workerLogger.info({ episodeFileId, audioPath }, 'Audio extraction completed');
 
-      // Generate fingerprints
-      const chunkLength = options.chunkLength || 30;
-      const overlap = options.overlap || 20;
-      if (progressCallback) {
-        progressCallback(20, 'Starting fingerprint generation...');
+      // All window audio is extracted before any is fingerprinted, so each step is one job stage
+      const fingerprints = cached ? cached.fingerprints : [];
+      if (!cached) {
+        const extracted = await trackProcessingStage(dbJobId, 'audio-extraction', async () => {
+          const audioFiles = [];
+          for (const range of ranges) {
+            if (progressCallback) {
+              progressCallback(5, `Starting audio extraction (${range.label})...`);
+            }
+            const audioPath = await extractAudioFromFile(
+              filePath,
+              tempDir,
+              episodeFileId,
+              windows ? range : null,
+              audioSelection?.stream,
+            );
+            if (progressCallback) {
+              progressCallback(15, `Audio extraction completed (${range.label})`);
+            }
+            workerLogger.info({ episodeFileId, audioPath, range: range.label }, 'Audio extraction completed');
+            audioFiles.push({ range, audioPath });
+          }
+          return audioFiles;
+        });
+
+        await trackProcessingStage(dbJobId, 'fingerprinting', async () => {
+          for (const { range, audioPath } of extracted) {
+            // Generate fingerprints, shifted back into file time
+            if (progressCallback) {
+              progressCallback(20, `Starting fingerprint generation (${range.label})...`);
+            }
+            const chunks = await fingerprintExtractedAudio(
+              audioPath,
+              range.duration,
+              backend,
+              { chunkLength, overlap },
+              episodeFileId,
+              progressCallback,
+            );
+            fingerprints.push(...chunks.map((chunk) => ({ ...chunk, start: chunk.start + range.start })));
+
+            // Window audio is no longer needed once fingerprinted
+            await fsp.unlink(audioPath).catch((error) => {
+              workerLogger.debug({ episodeFileId, audioPath, error: error.message }, 'Failed to remove window audio');
+            });
+          }
+        });
       }
-      workerLogger.info({ episodeFileId, chunkLength, overlap }, 'Starting fingerprint generation...');
-      const fingerprints = await fingerprintEpisodeChunks(audioPath, chunkLength, overlap, episodeFileId, progressCallback);
       if (progressCallback) {
         progressCallback(70, 'Fingerprint generation completed');
       }
       workerLogger.info({
         episodeFileId,
+        backend,
         fingerprintCount: fingerprints.length,
-        chunkLength,
-        overlap,
+        windowed: Boolean(windows),
+        fromCache: Boolean(cached),
       }, 'Fingerprint generation completed');
+      if (contentHash && !cached && fingerprints.length > 0) {
+        await storeCachedFingerprints(contentHash, windowKey, fingerprints, fileState.duration, backend);
+      }
 
       // Store fingerprints
       if (progressCallback) {
@@ -1185,17 +1908,37 @@ export async function processEpisodeAndTriggerSeasonDetection(episodeFileId, opt
         fingerprints,
         fileState.duration,
         fileState.fileSize,
+        contentHash,
+        audioTrack,
       );
       if (progressCallback) {
         progressCallback(80, 'Fingerprints stored');
       }
 
-      // Trigger season batch detection
-      if (progressCallback) {
-        progressCallback(85, 'Starting season detection...');
-      }
-      workerLogger.info({ episodeFileId, show_id, season_number }, 'Starting season detection...');
-      const seasonDetectionResult = await detectIntroAndCreditsForSeason(show_id, season_number, options);
+      const seasonDetectionResult = await trackProcessingStage(dbJobId, 'detection', async () => {
+        // An approved template finds this episode's intro on its own, without re-clustering the season
+        if (options.useTemplates ?? await getTemplateMatchingEnabled()) {
+          if (progressCallback) {
+            progressCallback(82, 'Matching against approved templates...');
+          }
+          const templateResult = await detectEpisodeWithTemplates(
+            episodeFile,
+            fingerprints,
+            fileState.duration,
+            options,
+          );
+          if (templateResult) {
+            return templateResult;
+          }
+        }
+
+        // Otherwise trigger season batch detection
+        if (progressCallback) {
+          progressCallback(85, 'Starting season detection...');
+        }
+        workerLogger.info({ episodeFileId, show_id, season_number }, 'Starting season detection...');
+        return detectIntroAndCreditsForSeason(show_id, season_number, options);
+      });
       if (progressCallback) {
         progressCallback(95, 'Season detection completed');
       }
@@ -1217,6 +1960,7 @@ export async function processEpisodeAndTriggerSeasonDetection(episodeFileId, opt
         season_number,
         episode_number,
         fingerprintCount: fingerprints.length,
+        fingerprintsFromCache: Boolean(cached),
         seasonDetection: seasonDetectionResult,
         processing_time_ms: duration,
       };
@@ -1291,7 +2035,8 @@ async function getExistingDetectionResults(showId, seasonNumber) {
 }
 
 /**
- * Invalidate fingerprint data for a show/season (for rescan scenarios)
+ * Invalidate fingerprint data for a show/season (for rescan scenarios).
+ * The content-addressed fingerprint cache is kept, so unchanged files are not re-fingerprinted.
  */
 export async function invalidateFingerprintData(showId, seasonNumber = null) {
   const db = await getDb();
@@ -0,0 +1,238 @@
+// Library-wide detection of network idents and studio logos heard across different shows.
+// Known idents are masked out of per-show clustering and stored as their own segment type.
+import { workerLogger } from './logger.js';
+import { getDb, getSetting } from '../database/Db_Operations.js';
+import { alignEpisodePair, stitchRawFingerprint, FINGERPRINT_ITEM_SEC } from './fingerprintAlignment.js';
+import { sliceTemplate, matchTemplate } from './segmentTemplates.js';
+
+const DEFAULT_IDENT_OPTIONS = {
+  minShows: 3, // shared audio must be heard in this many different shows to be an ident
+  episodesPerShow: 2, // episodes sampled from each show for the library pass
+  maxIdentSec: 30, // longer shared audio is music or a stock cue, not an ident
+  alignment: { minMatchSec: 3 },
+  match: { minCoverage: 0.8, alignment: { minMatchSec: 3 } },
+};
+
+const round2 = (value) => Math.round(value * 100) / 100;
+
+/**
+ * Sample a few fingerprinted episodes from every show
+ */
+async function getIdentSampleEpisodes(episodesPerShow) {
+  const db = await getDb();
+  const rows = db.prepare(`
+    SELECT episode_file_id, show_id, fingerprint_data
+    FROM (
+      SELECT efp.*, ROW_NUMBER() OVER (
+        PARTITION BY efp.show_id ORDER BY efp.season_number, efp.episode_number
+      ) AS show_rank
+      FROM episode_fingerprints efp
+      WHERE efp.is_valid = 1
+    )
+    WHERE show_rank <= ?
+  `).all(episodesPerShow);
+
+  return rows.map((row) => ({
+    epId: row.episode_file_id,
+    showId: row.show_id,
+    timeline: stitchRawFingerprint(JSON.parse(row.fingerprint_data)),
+  }));
+}
+
+/**
+ * Find regions of each episode that are shared with episodes of at least `minShows - 1` other shows.
+ * Returns candidates { epId, start, end, showCount } sorted by how many shows share them.
+ */
+export function findCrossShowRegions(episodes, options = {}) {
+  const opts = { ...DEFAULT_IDENT_OPTIONS, ...options };
+  const regionMap = new Map(episodes.map((episode) => [episode.epId, []]));
+
+  for (let i = 0; i < episodes.length; i++) {
+    for (let j = i + 1; j < episodes.length; j++) {
+      const lhs = episodes[i];
+      const rhs = episodes[j];
+      // Audio shared within a show is its intro or credits, which season detection handles
+      if (lhs.showId === rhs.showId) {
+        continue;
+      }
+      for (const region of alignEpisodePair(lhs.timeline, rhs.timeline, opts.alignment)) {
+        regionMap.get(lhs.epId).push({ start: region.lhsStart, end: region.lhsEnd, partnerShowId: rhs.showId });
+        regionMap.get(rhs.epId).push({ start: region.rhsStart, end: region.rhsEnd, partnerShowId: lhs.showId });
+      }
+    }
+  }
+
+  const candidates = [];
+  for (const [epId, regions] of regionMap) {
+    const sorted = [...regions].sort((a, b) => a.start - b.start);
+    const groups = [];
+    for (const region of sorted) {
+      const current = groups[groups.length - 1];
+      if (current && region.start <= current.end) {
+        current.end = Math.max(current.end, region.end);
+        current.showIds.add(region.partnerShowId);
+      } else {
+        groups.push({ start: region.start, end: region.end, showIds: new Set([region.partnerShowId]) });
+      }
+    }
+    for (const group of groups) {
+      const showCount = group.showIds.size + 1;
+      if (showCount >= opts.minShows && group.end - group.start <= opts.maxIdentSec) {
+        candidates.push({ epId, start: group.start, end: group.end, showCount });
+      }
+    }
+  }
+
+  return candidates.sort((a, b) => b.showCount - a.showCount);
+}
+
+/**
+ * Run the library-wide ident pass and replace the stored idents with its result
+ */
+export async function detectLibraryIdents(options = {}) {
+  const opts = { ...DEFAULT_IDENT_OPTIONS, ...options };
+  const startTime = Date.now();
+  const episodes = await getIdentSampleEpisodes(opts.episodesPerShow);
+  const showCount = new Set(episodes.map((episode) => episode.showId)).size;
+  if (showCount < opts.minShows) {
+    workerLogger.info({ showCount, minShows: opts.minShows }, 'Not enough fingerprinted shows for ident detection');
+    return { success: false, reason: `Need fingerprints from at least ${opts.minShows} shows`, idents: 0 };
+  }
+
+  const timelines = new Map(episodes.map((episode) => [episode.epId, episode.timeline]));
+  const idents = [];
+  for (const candidate of findCrossShowRegions(episodes, opts)) {
+    const items = sliceTemplate(timelines.get(candidate.epId), candidate);
+    if (!items) {
+      continue;
+    }
+    // The same ident is found once in every sampled episode; keep the first copy
+    const known = idents.some((ident) =>
+      matchTemplate(ident.items, items, opts.match) || matchTemplate(items, ident.items, opts.match));
+    if (!known) {
+      idents.push({ ...candidate, items });
+    }
+  }
+
+  const db = await getDb();
+  const now = new Date().toISOString();
+  db.transaction(() => {
+    db.prepare('DELETE FROM library_idents').run();
+    const insert = db.prepare(`
+      INSERT INTO library_idents (fingerprint_data, duration, show_count, source_episode_file_id, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    for (const ident of idents) {
+      insert.run(
+        JSON.stringify(ident.items),
+        round2(ident.items.length * FINGERPRINT_ITEM_SEC),
+        ident.showCount,
+        ident.epId,
+        now,
+      );
+    }
+  })();
+
+  workerLogger.info({
+    sampledEpisodes: episodes.length,
+    showCount,
+    identsFound: idents.length,
+    duration: Date.now() - startTime,
+  }, 'Library ident detection completed');
+  return { success: true, sampledEpisodes: episodes.length, showCount, idents: idents.length };
+}
+
+/**
+ * Get the stored idents with their fingerprint items
+ */
+export async function getLibraryIdents() {
+  const db = await getDb();
+  return db.prepare('SELECT id, fingerprint_data, duration FROM library_idents').all()
+    .map((row) => ({ id: row.id, fingerprint: JSON.parse(row.fingerprint_data), duration: row.duration }));
+}
+
+/**
+ * List the stored idents without their fingerprint data
+ */
+export async function listLibraryIdents() {
+  const db = await getDb();
+  return db.prepare(`
+    SELECT id, duration, show_count, source_episode_file_id, created_at
+    FROM library_idents
+    ORDER BY show_count DESC, id
+  `).all();
+}
+
+/**
+ * Forget one ident, so its audio is clustered with the rest of each show again
+ */
+export async function deleteLibraryIdent(identId) {
+  const db = await getDb();
+  return db.prepare('DELETE FROM library_idents WHERE id = ?').run(identId).changes;
+}
+
+/**
+ * Find where the known idents occur in an episode timeline.
+ * Returns [{ identId, start, end, coverage }] sorted by start.
+ */
+export function findIdentOccurrences(timeline, idents, options = {}) {
+  const matchOptions = { ...DEFAULT_IDENT_OPTIONS.match, ...options };
+  return idents
+    .map((ident) => {
+      const match = matchTemplate(ident.fingerprint, timeline, matchOptions);
+      return match ? { identId: ident.id, start: match.start, end: match.end, coverage: match.coverage } : null;
+    })
+    .filter(Boolean)
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Blank the fingerprint items under the given ranges, so alignment treats them as holes
+ */
+export function maskTimeline(timeline, ranges) {
+  if (!ranges || ranges.length === 0) {
+    return timeline;
+  }
+  const masked = [...timeline];
+  for (const range of ranges) {
+    const first = Math.max(0, Math.floor(range.start / FINGERPRINT_ITEM_SEC));
+    const last = Math.min(masked.length, Math.ceil(range.end / FINGERPRINT_ITEM_SEC));
+    for (let i = first; i < last; i++) {
+      masked[i] = null;
+    }
+  }
+  return masked;
+}
+
+/**
+ * Check whether idents are offered as skippable segments
+ */
+export async function getIdentSkipEnabled() {
+  const db = await getDb();
+  return getSetting(db, 'skip_idents', '0') === '1';
+}
+
+/**
+ * The idents to skip in an episode file ([{ identId, start, end }]), from its latest detection.
+ * Empty unless skip_idents is on, so outputs only gain ident segments when asked to.
+ */
+export async function getSkippableIdents(episodeFileId) {
+  if (!await getIdentSkipEnabled()) {
+    return [];
+  }
+  const db = await getDb();
+  const row = db.prepare(`
+    SELECT idents_data FROM detection_results
+    WHERE episode_file_id = ?
+    ORDER BY updated_at DESC
+    LIMIT 1
+  `).get(episodeFileId);
+  try {
+    return (JSON.parse(row?.idents_data || '[]') || [])
+      .filter((ident) => Number.isFinite(ident.start) && ident.end > ident.start)
+      .map((ident) => ({ identId: ident.identId, start: ident.start, end: ident.end }));
+  } catch (error) {
+    workerLogger.warn({ episodeFileId, error: error.message }, 'Ignoring unreadable idents data');
+    return [];
+  }
+}
@@ -0,0 +1,92 @@
+// Serves approved segments in the shapes Jellyfin's intro-skipper plugin and its clients expect.
+// Cliparr doesn't know Jellyfin item ids, so episodes are found by media path or by series/season/episode.
+import { getApprovedEpisodes } from './sidecarExport.js';
+import { getDb, getPathMappings } from '../database/Db_Operations.js';
+import { mapJellyfinPath } from '../utils/pathMap.js';
+import { getSkippableIdents } from './identDetection.js';
+
+// Same defaults as the plugin: prompt 5s before the intro, hide it 10s after the intro starts
+const DEFAULT_PROMPT_OPTIONS = {
+  showPromptAdjustment: 5,
+  hidePromptAdjustment: 10,
+};
+
+// Intro-skipper segment names and the episode columns they are read from
+const SEGMENT_MODES = {
+  Introduction: 'intro',
+  Credits: 'credits',
+  Recap: 'recap',
+  Preview: 'preview',
+  // Network idents, when skip_idents is on; the Intro shape only holds the first one
+  Commercial: 'ident',
+};
+
+/**
+ * Add the episode's first skippable ident as ident_start/ident_end
+ */
+async function withIdent(episode) {
+  if (!episode) {
+    return null;
+  }
+  const [ident] = await getSkippableIdents(episode.episode_file_id);
+  return { ...episode, ident_start: ident?.start ?? null, ident_end: ident?.end ?? null };
+}
+
+/**
+ * Find the approved episode a Jellyfin request refers to.
+ * `path` is the media path as Jellyfin sees it; otherwise `series`, `season` and `episode` identify it.
+ * Episodes trimmed in place aren't found, as getApprovedEpisodes leaves them out.
+ */
+export async function findJellyfinEpisode({ path = null, series = null, season = null, episode = null }) {
+  if (path) {
+    const db = await getDb();
+    // Try the mapped path first, then the path as given when both see the same mount
+    for (const filePath of new Set([mapJellyfinPath(path, getPathMappings(db, 'jellyfin')), path])) {
+      const [match] = await getApprovedEpisodes({ filePath });
+      if (match) {
+        return withIdent(match);
+      }
+    }
+    return null;
+  }
+  if (series && Number.isInteger(season) && Number.isInteger(episode)) {
+    const [match] = await getApprovedEpisodes({ showTitle: series, seasonNumber: season, episodeNumber: episode });
+    return withIdent(match);
+  }
+  return null;
+}
+
+/**
+ * Build an intro-skipper `Intro` object for one segment of an episode.
+ * Missing segments come back with Valid false and zeroed times, as the plugin reports them.
+ */
+export function toIntroSkipperIntro(episode, mode, episodeId = null, options = {}) {
+  const { showPromptAdjustment, hidePromptAdjustment } = { ...DEFAULT_PROMPT_OPTIONS, ...options };
+  const column = SEGMENT_MODES[mode];
+  const start = column ? episode[`${column}_start`] : null;
+  const end = column ? episode[`${column}_end`] : null;
+  const valid = start !== null && start !== undefined && end > start;
+
+  return {
+    EpisodeId: episodeId || String(episode.episode_file_id),
+    Valid: valid,
+    IntroStart: valid ? start : 0,
+    IntroEnd: valid ? end : 0,
+    ShowSkipPromptAt: valid ? Math.max(0, start - showPromptAdjustment) : 0,
+    HideSkipPromptAt: valid ? start + hidePromptAdjustment : 0,
+  };
+}
+
+/**
+ * Build the plugin's per-episode segment map ({ Introduction, Credits, ... }) for the given modes
+ */
+export function toIntroSkipperSegments(episode, episodeId = null, modes = Object.keys(SEGMENT_MODES), options = {}) {
+  return Object.fromEntries(modes.map((mode) => [mode, toIntroSkipperIntro(episode, mode, episodeId, options)]));
+}
+
+/**
+ * Check a requested segment mode name
+ */
+export function isSegmentMode(mode) {
+  return Object.prototype.hasOwnProperty.call(SEGMENT_MODES, mode);
+}
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { toIntroSkipperIntro, toIntroSkipperSegments, isSegmentMode } from './jellyfinCompat.js';
+
+const EPISODE = {
+  episode_file_id: 42,
+  intro_start: 3,
+  intro_end: 63,
+  credits_start: 2500,
+  credits_end: 2580,
+  recap_start: null,
+  recap_end: null,
+  preview_start: 2580,
+  preview_end: 2580,
+  ident_start: 0,
+  ident_end: 3,
+};
+
+test('toIntroSkipperIntro places the skip prompt around the segment start', () => {
+  assert.deepEqual(toIntroSkipperIntro(EPISODE, 'Introduction', 'abc123'), {
+    EpisodeId: 'abc123',
+    Valid: true,
+    IntroStart: 3,
+    IntroEnd: 63,
+    ShowSkipPromptAt: 0,
+    HideSkipPromptAt: 13,
+  });
+  const adjusted = { showPromptAdjustment: 2, hidePromptAdjustment: 8 };
+  assert.deepEqual(toIntroSkipperIntro(EPISODE, 'Credits', null, adjusted), {
+    EpisodeId: '42',
+    Valid: true,
+    IntroStart: 2500,
+    IntroEnd: 2580,
+    ShowSkipPromptAt: 2498,
+    HideSkipPromptAt: 2508,
+  });
+  assert.equal(toIntroSkipperIntro(EPISODE, 'Commercial').IntroEnd, 3);
+});
+
+test('missing, empty and unknown segments come back invalid with zeroed times', () => {
+  const invalid = {
+    EpisodeId: '42',
+    Valid: false,
+    IntroStart: 0,
+    IntroEnd: 0,
+    ShowSkipPromptAt: 0,
+    HideSkipPromptAt: 0,
+  };
+  assert.deepEqual(toIntroSkipperIntro(EPISODE, 'Recap'), invalid);
+  assert.deepEqual(toIntroSkipperIntro(EPISODE, 'Preview'), invalid);
+  assert.deepEqual(toIntroSkipperIntro(EPISODE, 'Outro'), invalid);
+});
+
+test('toIntroSkipperSegments maps every mode, or the ones asked for', () => {
+  assert.deepEqual(Object.keys(toIntroSkipperSegments(EPISODE)), [
+    'Introduction', 'Credits', 'Recap', 'Preview', 'Commercial',
+  ]);
+  const segments = toIntroSkipperSegments(EPISODE, 'abc123', ['Introduction', 'Credits']);
+  assert.deepEqual(Object.keys(segments), ['Introduction', 'Credits']);
+  assert.equal(segments.Credits.EpisodeId, 'abc123');
+
+  assert.equal(isSegmentMode('Credits'), true);
+  assert.equal(isSegmentMode('toString'), false);
+});
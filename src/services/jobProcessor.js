@@ -1,8 +1,18 @@
 // jobProcessor.js
 // Job processing functions will be moved here from queue.js
 import { workerLogger } from './logger.js';
-import { getDb, getEpisodeFileById } from '../database/Db_Operations.js';
-import { processEpisodeFile, extractAudioFromFile, generateAudioFingerprint, detectAudioSegments } from '../services/processors/showProcessor.js';
+import { getDb, getEpisodeFileById, getSetting, getProcessingJobById, getProcessingProfileById } from '../database/Db_Operations.js';
+import {
+  processEpisodeFile,
+  extractAudioFromFile,
+  generateAudioFingerprint,
+  detectAudioSegments,
+  runAutoApprovedOutputs,
+} from '../services/processors/showProcessor.js';
+import { runVideoCreditsStage } from './videoCreditsDetector.js';
+import { trimApprovedJob } from './segmentTrimmer.js';
+import { writeApprovedJobChapters } from './chapterWriter.js';
+import { registerJobBackup } from './episodeBackups.js';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 
@@ -28,6 +38,8 @@ export async function processJob(jobType, jobOrData) {
       return await processFingerprinting(jobOrData);
     case 'detection':
       return await processDetection(jobOrData);
+    case 'video-credits-detection':
+      return await processVideoCreditsDetection(jobOrData);
     case 'trimming':
       return await processTrimming(jobOrData);
     default:
@@ -57,11 +69,41 @@ export async function processDetection(jobData) {
   return { message: 'Segments detected', segments };
 }
 
-export async function processTrimming(jobData) {
-  workerLogger.info({ jobData }, 'Processing trimming');
-  // Simulate trimming
-  await new Promise((resolve) => setTimeout(resolve, 3000));
-  return { message: 'Video trimmed successfully', clips: 3 };
+export async function processVideoCreditsDetection(job) {
+  const { dbJobId, episodeFileId, filePath, autoApproved = false } = job.data;
+  workerLogger.info({ episodeFileId, filePath }, 'Processing video credits detection');
+  let stage;
+  try {
+    stage = await runVideoCreditsStage(episodeFileId, filePath);
+  } finally {
+    // The stage runs once; if it fails, the audio credits are the ones that get used
+    if (autoApproved) {
+      await runAutoApprovedOutputs(dbJobId, episodeFileId);
+    }
+  }
+  const { video, merged } = stage;
+  return {
+    message: video ? 'Video credits detected' : 'No credits found in video',
+    video,
+    source: merged?.record.source || null,
+  };
+}
+
+export async function processTrimming(job) {
+  const { dbJobId } = job.data;
+  // A processing profile can pick its own output mode; otherwise the global setting applies
+  const db = await getDb();
+  const dbJob = getProcessingJobById(db, dbJobId);
+  const profile = dbJob?.profile_id ? getProcessingProfileById(db, dbJob.profile_id) : null;
+  const outputMode = job.data.outputMode || profile?.output_mode || getSetting(db, 'output_mode', 'trim');
+  workerLogger.info({ dbJobId, outputMode }, 'Processing trimming');
+  const result = outputMode === 'chapters' ?
+    await writeApprovedJobChapters(dbJobId) :
+    await trimApprovedJob(dbJobId);
+  // The original is only backed up when the output replaced it in place
+  await registerJobBackup(db, dbJob, result);
+  const message = outputMode === 'chapters' ? 'Chapter markers written successfully' : 'Video trimmed successfully';
+  return { message, ...result };
 }
 
 // Kill any ffmpeg/fpcalc processes associated with a specific job
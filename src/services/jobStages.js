@@ -0,0 +1,57 @@
+// Pipeline stage tracking: records when each stage of a processing job (a queue job, or a step
+// inside one) started and finished, how often it ran, on which worker, and why it failed.
+// Tracking never gets in the way of the job itself.
+import { workerLogger } from './logger.js';
+import { getDb, startProcessingJobStage, finishProcessingJobStage } from '../database/Db_Operations.js';
+
+const recordStage = (write, context) => {
+  try {
+    write();
+  } catch (error) {
+    workerLogger.warn({ ...context, error: error.message }, 'Failed to record job stage');
+  }
+};
+
+/**
+ * Run one stage of a processing job, recording when it started and finished, its attempts and
+ * any error. Steps inside a queue job (audio extraction, fingerprinting, detection) are recorded
+ * this way too. Without a processing job the stage runs untracked.
+ */
+export async function trackProcessingStage(dbJobId, stage, run, {
+  queue = null,
+  workerId = null,
+  queueJobId = null,
+} = {}) {
+  if (!dbJobId) {
+    return run();
+  }
+  const db = await getDb();
+  const context = { dbJobId, stage, queueJobId };
+  recordStage(() => startProcessingJobStage(db, dbJobId, stage, { queue, workerId }), context);
+  try {
+    const result = await run();
+    recordStage(
+      () => finishProcessingJobStage(db, dbJobId, stage, { status: 'completed' }),
+      context,
+    );
+    return result;
+  } catch (error) {
+    recordStage(
+      () => finishProcessingJobStage(db, dbJobId, stage, { status: 'failed', error: error.message }),
+      context,
+    );
+    throw error;
+  }
+}
+
+/**
+ * Run a BullMQ job's processor, recording its stage (the job name) against the processing job
+ * in job.data.dbJobId. Jobs without a processing job run untracked.
+ */
+export function trackJobStage(job, queueName, workerId, run) {
+  return trackProcessingStage(Number(job.data?.dbJobId), job.name, run, {
+    queue: queueName,
+    workerId,
+    queueJobId: job.id,
+  });
+}
@@ -0,0 +1,60 @@
+// Processing profile field options and validation, mirroring the ProcessingProfile type on the frontend.
+// Pure functions only; storage lives in Db_Operations.
+
+// Allowed values for each enum field, in the order the UI lists them
+export const PROFILE_FIELD_OPTIONS = {
+  video_codec: ['h264', 'h265', 'av1', 'copy'],
+  audio_codec: ['aac', 'ac3', 'copy'],
+  container: ['mp4', 'mkv', 'avi'],
+  quality_preset: ['ultrafast', 'superfast', 'veryfast', 'faster', 'fast', 'medium', 'slow', 'slower', 'veryslow'],
+  hardware_acceleration: ['none', 'nvidia_nvenc', 'intel_qsv', 'amd_vce', 'vaapi'],
+  max_resolution: ['480p', '720p', '1080p', '1440p', '4k', 'original'],
+  output_mode: ['trim', 'chapters'],
+};
+
+// Seeded on first run: stream copy keeps quality and matches what the trimmer does without a profile
+export const DEFAULT_PROCESSING_PROFILE = {
+  name: 'Stream Copy',
+  description: 'Cut on keyframes without re-encoding',
+  video_codec: 'copy',
+  audio_codec: 'copy',
+  container: 'mkv',
+  quality_preset: 'medium',
+  hardware_acceleration: 'none',
+  target_bitrate: 0,
+  max_resolution: 'original',
+  output_mode: null,
+};
+
+/**
+ * Check a profile before storing it. With `partial`, only the fields present are checked (for updates).
+ * Returns an error string, or null when the profile is valid.
+ */
+export function validateProcessingProfile(profile, { partial = false } = {}) {
+  if (!profile || typeof profile !== 'object') {
+    return 'Profile must be an object';
+  }
+  const has = (field) => profile[field] !== undefined;
+
+  if (!partial || has('name')) {
+    if (typeof profile.name !== 'string' || !profile.name.trim()) {
+      return 'name is required';
+    }
+  }
+  for (const [field, options] of Object.entries(PROFILE_FIELD_OPTIONS)) {
+    // output_mode is optional: unset falls back to the global setting
+    if (field === 'output_mode' && (profile.output_mode === null || !has(field))) {
+      continue;
+    }
+    if ((!partial || has(field)) && !options.includes(profile[field])) {
+      return `${field} must be one of ${options.join(', ')}`;
+    }
+  }
+  if (!partial || has('target_bitrate')) {
+    const bitrate = Number(profile.target_bitrate);
+    if (!Number.isInteger(bitrate) || bitrate < 0) {
+      return 'target_bitrate must be a whole number of kbps, 0 or more';
+    }
+  }
+  return null;
+}
@@ -8,6 +8,7 @@ import {
   enqueueFingerprinting,
   enqueueDetection,
   enqueueTrimming,
+  enqueueVideoCreditsDetection,
 } from '../queue.js';
 import path from 'path';
 import fs from 'fs/promises';
@@ -18,6 +19,8 @@ import { Semaphore } from 'redis-semaphore';
 import Redis from 'ioredis';
 import os from 'os';
 import { processEpisodeAndTriggerSeasonDetection } from '../fingerprintPipeline.js';
+import { exportSidecars, getSidecarSettings } from '../sidecarExport.js';
+import { trimsInPlace } from '../segmentTrimmer.js';
 
 // Setup Redis and global ffmpeg semaphore
 const redis = new Redis({ host: 'localhost', port: 6379 });
@@ -189,35 +192,57 @@ async function processEpisodeFile(jobId, file, dbJobId, progressCallback) {
 
     // Use the new robust fingerprint pipeline
     const result = await processEpisodeAndTriggerSeasonDetection(file.id, {
+      dbJobId,
       chunkLength: 10,
       overlap: 5,
       thresholdPercent: 0.5, // Lowered threshold
-      marginSec: 5,
     }, progressCallback);
 
     if (!result.success) {
       throw new Error(`Pipeline failed: ${result.reason || 'Unknown error'}`);
     }
 
-    // Extract detection results from the season detection
+    // Extract this episode's own boundaries from the season detection
     const seasonDetection = result.seasonDetection;
+    const episodeDetection = seasonDetection.episodes?.[file.id];
     const segments = {
-      intro: seasonDetection.intro,
-      credits: seasonDetection.credits,
-      confidence: seasonDetection.confidence_score,
+      intro: episodeDetection ? episodeDetection.intro : seasonDetection.intro,
+      credits: episodeDetection ? episodeDetection.credits : seasonDetection.credits,
+      recap: episodeDetection?.recap || null,
+      confidence: episodeDetection?.confidence ?? seasonDetection.confidence_score,
     };
 
     // Update processing job with results
-    await updateProcessingResults(file.id, {
+    const previousJob = await updateProcessingResults(file.id, {
       intro_start: segments.intro?.start,
       intro_end: segments.intro?.end,
       credits_start: segments.credits?.start,
       credits_end: segments.credits?.end,
+      recap_start: segments.recap?.start ?? null,
+      recap_end: segments.recap?.end ?? null,
       confidence_score: segments.confidence || 0.0,
       status: seasonDetection.approval_status === 'auto_approved' ? 'verified' : 'detected',
-      processing_notes: `Robust pipeline detection complete. Method: ${seasonDetection.detection_method}, Confidence: ${(segments.confidence * 100).toFixed(2)}%, Approval: ${seasonDetection.approval_status}. Intro: ${segments.intro ? 'Yes' : 'No'}, Credits: ${segments.credits ? 'Yes' : 'No'}`,
+      processing_notes: `Robust pipeline detection complete. Method: ${seasonDetection.detection_method}, Confidence: ${(segments.confidence * 100).toFixed(2)}%, Approval: ${seasonDetection.approval_status}. Intro: ${segments.intro ? 'Yes' : 'No'}, Credits: ${segments.credits ? 'Yes' : 'No'}, Recap: ${segments.recap ? 'Yes' : 'No'}`,
     });
 
+    // Video credits detection runs as its own stage in the detection queue. Auto-approved
+    // detections go to their outputs at the end of it, once the credits are final.
+    const autoApproved = seasonDetection.approval_status === 'auto_approved' && Boolean(dbJobId) &&
+      previousJob?.status !== 'completed';
+    try {
+      await enqueueVideoCreditsDetection({
+        dbJobId,
+        episodeFileId: file.id,
+        filePath: file.file_path,
+        autoApproved,
+      });
+    } catch (error) {
+      workerLogger.warn({ jobId, dbJobId, error: error.message }, 'Failed to enqueue video credits detection');
+      if (autoApproved) {
+        await runAutoApprovedOutputs(dbJobId, file.id);
+      }
+    }
+
     // Broadcast completion progress
     workerLogger.info({ jobId, dbJobId }, 'Broadcasting completion progress');
     broadcastJobUpdate({
@@ -451,35 +476,51 @@ export async function detectAudioSegments(fingerprint, audioPath) {
   };
 }
 
-async function trimAudioSegments(segments, originalFilePath, jobId) {
-  // workerLogger.info({ originalFilePath }, 'Trimming audio segments');
-  // Use latest temp dir from DB
-  const tempDir = await getTempDir();
-  const introPath = segments.intro ? {
-    ...segments.intro,
-    trimmedPath: path.join(tempDir, 'trimmed', `intro_${jobId}.mp4`),
-  } : null;
-  const creditsPath = segments.credits ? {
-    ...segments.credits,
-    trimmedPath: path.join(tempDir, 'trimmed', `credits_${jobId}.mp4`),
-  } : null;
-  return {
-    intro: introPath,
-    credits: creditsPath,
-  };
+/**
+ * Send an auto-approved detection to its outputs: queue it for trimming when verified files are
+ * auto-processed, and export sidecars when that is on. Failures are logged, not thrown.
+ */
+export async function runAutoApprovedOutputs(dbJobId, episodeFileId) {
+  const db = await getDb();
+  const job = db.prepare('SELECT id, status, profile_id FROM processing_jobs WHERE id = ?')
+    .get(dbJobId);
+  if (!job || job.status === 'completed') {
+    return;
+  }
+  const autoTrim = getSetting(db, 'auto_process_verified', '0') === '1';
+  if (autoTrim) {
+    try {
+      await enqueueTrimming({ dbJobId, episodeFileId });
+    } catch (error) {
+      workerLogger.warn({ dbJobId, error: error.message }, 'Failed to enqueue trimming');
+    }
+  }
+  // Segments removed from the file itself leave nothing for sidecars to skip
+  if (getSidecarSettings(db).autoExport && !(autoTrim && trimsInPlace(db, job))) {
+    try {
+      await exportSidecars({ episodeFileId });
+    } catch (error) {
+      workerLogger.warn({ dbJobId, error: error.message }, 'Failed to export sidecars');
+    }
+  }
 }
 
 async function updateProcessingResults(fileId, results) {
   const db = await getDb();
 
   // Find the processing job for this file
-  const job = db.prepare('SELECT id FROM processing_jobs WHERE media_file_id = ?').get(fileId);
+  const job = db.prepare('SELECT id, status, profile_id FROM processing_jobs WHERE media_file_id = ?').get(fileId);
 
-  if (job) {
-    await updateProcessingJob(db, job.id, results);
-  } else {
+  if (!job) {
     workerLogger.warn({ fileId }, 'No processing job found for file');
+  } else if (job.status === 'completed') {
+    // Times detected in an already processed file don't apply to its original; the job stays
+    // completed until the original is restored
+    workerLogger.info({ fileId, dbJobId: job.id }, 'Processing job already completed, keeping its results');
+  } else {
+    await updateProcessingJob(db, job.id, results);
   }
+  return job;
 }
 
 async function updateJobStatus(jobId, status, notes) {
@@ -56,6 +56,7 @@ export const {
   processAudioExtraction,
   processFingerprinting,
   processDetection,
+  processVideoCreditsDetection,
   processTrimming,
   killJobProcesses,
 } = JobProcessor;
@@ -65,6 +66,7 @@ export const {
   enqueueAudioExtraction,
   enqueueFingerprinting,
   enqueueDetection,
+  enqueueVideoCreditsDetection,
   enqueueTrimming,
   enqueueCleanupJob,
   getQueueStatus,
@@ -3,6 +3,7 @@
 import { workerLogger } from './logger.js';
 import { getDb, getSetting } from '../database/Db_Operations.js';
 import { broadcastJobUpdate, broadcastQueueStatus } from './websocket.js';
+import { trackJobStage } from './jobStages.js';
 import { Queue, Worker, QueueEvents } from 'bullmq';
 import Redis from 'ioredis';
 
@@ -185,7 +186,7 @@ export async function startQueues() {
         workerLogger.info(`Starting worker for queue: ${config.name} with concurrency ${config.concurrency}`);
         const worker = new Worker(config.name, async (job) => {
           const { processJob } = await import('./jobProcessor.js');
-          return await processJob(job.name, job);
+          return await trackJobStage(job, config.name, worker.id, () => processJob(job.name, job));
         }, {
           connection: redis,
           concurrency: config.concurrency,
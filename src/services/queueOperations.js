@@ -208,6 +208,28 @@ export async function enqueueDetection(jobData) {
   return job.id;
 }
 
+// Enqueue video credits detection job (runs on the detection queue)
+export async function enqueueVideoCreditsDetection(jobData) {
+  const queue = queues['detection'];
+  if (!queue) {
+    throw new Error('Detection queue not initialized');
+  }
+  if (!jobData.dbJobId) {
+    throw new Error('dbJobId is required in jobData');
+  }
+  // dbJobId is required for all jobs
+  const job = await queue.add('video-credits-detection', jobData, {
+    priority: 2,
+    attempts: 1,
+    backoff: {
+      type: 'exponential',
+      delay: 1000,
+    },
+  });
+  workerLogger.info({ jobId: job.id, jobData }, 'Video credits detection job enqueued');
+  return job.id;
+}
+
 // Enqueue trimming job
 export async function enqueueTrimming(jobData) {
   const queue = queues['trimming'];
@@ -217,6 +239,13 @@ export async function enqueueTrimming(jobData) {
   if (!jobData.dbJobId) {
     throw new Error('dbJobId is required in jobData');
   }
+  // A processing job already waiting for or being trimmed isn't queued twice
+  const pending = await queue.getJobs(['waiting', 'prioritized', 'delayed', 'active']);
+  const existing = pending.find((queued) => String(queued?.data?.dbJobId) === String(jobData.dbJobId));
+  if (existing) {
+    workerLogger.info({ jobId: existing.id, dbJobId: jobData.dbJobId }, 'Trimming already queued');
+    return existing.id;
+  }
   // dbJobId is required for all jobs
   const job = await queue.add('trimming', jobData, {
     priority: 1,
@@ -403,6 +432,12 @@ const cleanupWorker = new Worker('cleanup', async (job) => {
       globalThis.db = db;
     }
     return await deleteShowsAndCleanup(showIds, db);
+  } else if (job.name === 'detectLibraryIdents') {
+    const { detectLibraryIdents } = await import('./identDetection.js');
+    return await detectLibraryIdents(job.data);
+  } else if (job.name === 'exportSidecars') {
+    const { exportSidecars } = await import('./sidecarExport.js');
+    return await exportSidecars(job.data);
   } else {
     throw new Error('Unknown cleanup job type: ' + job.name);
   }
@@ -417,7 +452,7 @@ cleanupWorker.on('failed', (job, err) => {
 
 /**
  * Enqueue a cleanup job.
- * @param {'deleteProcessingJobs'|'deleteShowsAndCleanup'} type
+ * @param {'deleteProcessingJobs'|'deleteShowsAndCleanup'|'detectLibraryIdents'|'exportSidecars'} type
  * @param {object} data
  * @returns {Promise<string>} jobId
  */
@@ -0,0 +1,225 @@
+// Recap ("Previously on...") and preview ("Next time on...") detection.
+// Matches an episode's head or post-credits audio against neighbouring episodes' bodies.
+import { alignEpisodePair, FINGERPRINT_ITEM_SEC } from './fingerprintAlignment.js';
+
+// Short clips, so alignment is looser than the season-wide intro/credits pass
+const CLIP_ALIGNMENT_OPTIONS = {
+  minMatchSec: 2, // recap/preview clips are often only a few seconds long
+  maxGapSec: 1,
+  minShiftVotes: 2,
+  maxCandidateShifts: 40,
+};
+
+const DEFAULT_RECAP_OPTIONS = {
+  windowSec: 240, // recaps live in the first minutes of an episode
+  lookbackEpisodes: 3, // earlier episodes searched for recap source material
+  maxClipGapSec: 15, // narration or new footage tolerated between recap clips
+  minMatchedSec: 8, // matched audio needed before a recap is reported
+  alignment: CLIP_ALIGNMENT_OPTIONS,
+};
+
+const DEFAULT_PREVIEW_OPTIONS = {
+  tailWindowSec: 180, // searched after the last credits frame, or at the very end without credits
+  maxClipGapSec: 10, // title cards and narration between preview clips
+  minMatchedSec: 5, // previews are short; a couple of clips is enough
+  alignment: CLIP_ALIGNMENT_OPTIONS,
+};
+
+// Overlap below this is treated as boundary jitter rather than shared material
+const MIN_OVERLAP_SEC = 0.5;
+
+/**
+ * True when [start, end) meaningfully overlaps any of the given ranges
+ */
+function overlapsAny(start, end, ranges) {
+  return ranges.some((range) =>
+    range && Math.min(end, range.end) - Math.max(start, range.start) > MIN_OVERLAP_SEC);
+}
+
+/**
+ * Total length covered by a set of possibly overlapping clips
+ */
+function unionLength(clips) {
+  const sorted = [...clips].sort((a, b) => a.start - b.start);
+  let total = 0;
+  let cursor = -Infinity;
+  for (const clip of sorted) {
+    const start = Math.max(clip.start, cursor);
+    if (clip.end > start) {
+      total += clip.end - start;
+    }
+    cursor = Math.max(cursor, clip.end);
+  }
+  return total;
+}
+
+/**
+ * Align [fromSec, toSec) of a timeline against other episodes and return the matching clips,
+ * in this episode's time. Clips that land on recurring segments on either side are dropped.
+ * `sources` is [{ epId, timeline, excluded }]; `ownExcluded` lists this episode's recurring segments.
+ */
+function collectClips(timeline, fromSec, toSec, sources, ownExcluded, alignment) {
+  const firstItem = Math.max(0, Math.floor(fromSec / FINGERPRINT_ITEM_SEC));
+  const window = timeline.slice(firstItem, Math.ceil(toSec / FINGERPRINT_ITEM_SEC));
+  const offset = firstItem * FINGERPRINT_ITEM_SEC;
+
+  const clips = [];
+  for (const source of sources) {
+    for (const region of alignEpisodePair(window, source.timeline, alignment)) {
+      const start = region.lhsStart + offset;
+      const end = region.lhsEnd + offset;
+      // Audio every episode shares is the intro or a bumper, not borrowed footage
+      if (overlapsAny(region.rhsStart, region.rhsEnd, source.excluded)) {
+        continue;
+      }
+      if (overlapsAny(start, end, ownExcluded)) {
+        continue;
+      }
+      clips.push({ start, end, sourceEpisodeId: source.epId, sourceStart: region.rhsStart });
+    }
+  }
+  return clips;
+}
+
+/**
+ * Group clips separated by short gaps and return the group with the most matched audio
+ */
+function bestClipGroup(clips, maxClipGapSec, minMatchedSec) {
+  if (clips.length === 0) {
+    return null;
+  }
+
+  const sorted = [...clips].sort((a, b) => a.start - b.start);
+  const groups = [];
+  for (const clip of sorted) {
+    const group = groups[groups.length - 1];
+    if (group && clip.start - group.end <= maxClipGapSec) {
+      group.clips.push(clip);
+      group.end = Math.max(group.end, clip.end);
+    } else {
+      groups.push({ start: clip.start, end: clip.end, clips: [clip] });
+    }
+  }
+
+  const scored = groups.map((group) => ({ ...group, matchedSec: unionLength(group.clips) }));
+  scored.sort((a, b) => b.matchedSec - a.matchedSec);
+  const best = scored[0];
+  if (best.matchedSec < minMatchedSec) {
+    return null;
+  }
+
+  const round2 = (value) => Math.round(value * 100) / 100;
+  return {
+    start: round2(best.start),
+    end: round2(best.end),
+    matchedSec: round2(best.matchedSec),
+    clipCount: best.clips.length,
+    sourceEpisodeIds: [...new Set(best.clips.map((clip) => clip.sourceEpisodeId))],
+    confidence: round2(Math.min(1, best.matchedSec / (best.end - best.start))),
+  };
+}
+
+/**
+ * Merge caller options over a default set, including the nested alignment options
+ */
+function withDefaults(defaults, options = {}) {
+  return {
+    ...defaults,
+    ...options,
+    alignment: { ...defaults.alignment, ...options.alignment },
+  };
+}
+
+/**
+ * Detect a recap in the head of one episode.
+ * `earlier` is [{ epId, timeline, excluded }] where excluded holds that episode's recurring
+ * segments (intro, credits, stingers); `ownExcluded` does the same for this episode.
+ */
+export function detectRecap(timeline, earlier, ownExcluded = [], options = {}) {
+  const opts = withDefaults(DEFAULT_RECAP_OPTIONS, options);
+  if (!timeline || timeline.length === 0 || earlier.length === 0) {
+    return null;
+  }
+
+  const clips = collectClips(timeline, 0, opts.windowSec, earlier, ownExcluded, opts.alignment);
+  return bestClipGroup(clips, opts.maxClipGapSec, opts.minMatchedSec);
+}
+
+/**
+ * Detect a next-episode preview after the credits of one episode.
+ * `next` is the following episode as { epId, timeline, excluded }.
+ */
+export function detectPreview(timeline, next, credits, ownExcluded = [], options = {}) {
+  const opts = withDefaults(DEFAULT_PREVIEW_OPTIONS, options);
+  if (!timeline || timeline.length === 0 || !next) {
+    return null;
+  }
+
+  const durationSec = timeline.length * FINGERPRINT_ITEM_SEC;
+  const fromSec = credits ? credits.end : Math.max(0, durationSec - opts.tailWindowSec);
+  const toSec = Math.min(durationSec, fromSec + opts.tailWindowSec);
+  if (toSec <= fromSec) {
+    return null;
+  }
+
+  const clips = collectClips(timeline, fromSec, toSec, [next], ownExcluded, opts.alignment);
+  return bestClipGroup(clips, opts.maxClipGapSec, opts.minMatchedSec);
+}
+
+/**
+ * Detect recaps for every episode of a season.
+ * `episodes` is [{ epId, episodeNumber, timeline }]; `getExcluded(epId)` returns that
+ * episode's recurring segments. Returns an object keyed by episode file id.
+ */
+export function detectSeasonRecaps(episodes, getExcluded, options = {}) {
+  const lookback = options.lookbackEpisodes || DEFAULT_RECAP_OPTIONS.lookbackEpisodes;
+  const sorted = [...episodes].sort((a, b) => a.episodeNumber - b.episodeNumber);
+  const recaps = {};
+
+  sorted.forEach((episode, index) => {
+    const earlier = sorted
+      .slice(Math.max(0, index - lookback), index)
+      .map((prev) => ({ epId: prev.epId, timeline: prev.timeline, excluded: getExcluded(prev.epId) }));
+    const recap = detectRecap(episode.timeline, earlier, getExcluded(episode.epId), options);
+    if (recap) {
+      recaps[episode.epId] = recap;
+    }
+  });
+
+  return recaps;
+}
+
+/**
+ * Detect next-episode previews for every episode of a season.
+ * Only the directly following episode is searched; `getCredits(epId)` returns that
+ * episode's credits (or null). Returns an object keyed by episode file id.
+ */
+export function detectSeasonPreviews(episodes, getExcluded, getCredits, options = {}) {
+  const sorted = [...episodes].sort((a, b) => a.episodeNumber - b.episodeNumber);
+  const previews = {};
+
+  sorted.forEach((episode, index) => {
+    const following = sorted[index + 1];
+    // A gap in the episode numbers means the next episode isn't imported
+    if (!following || following.episodeNumber !== episode.episodeNumber + 1) {
+      return;
+    }
+    const next = {
+      epId: following.epId,
+      timeline: following.timeline,
+      excluded: getExcluded(following.epId),
+    };
+    const preview = detectPreview(
+      episode.timeline,
+      next,
+      getCredits(episode.epId),
+      getExcluded(episode.epId),
+      options,
+    );
+    if (preview) {
+      previews[episode.epId] = preview;
+    }
+  });
+
+  return previews;
+}
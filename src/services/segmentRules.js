@@ -0,0 +1,123 @@
+// Duration-plausibility rules for labelling shared segments as intro, credits, or stingers.
+// Pure functions only, so labelling can be checked against synthetic segment lists.
+
+export const DEFAULT_SEGMENT_RULES = {
+  introMinSec: 10, // shorter shared audio is a bumper or logo sting
+  introMaxSec: 150, // longer shared audio at the head is usually a recap
+  introMaxStartSec: 600, // intros after a cold open still start within the first 10 minutes
+  creditsMinSec: 10,
+  creditsMaxSec: 600,
+  creditsMaxEndGapSec: 180, // credits must end this close to the end of the file
+};
+
+/**
+ * Merge rule overrides over the defaults, dropping anything that isn't a positive number
+ */
+export function normalizeSegmentRules(...overrides) {
+  const rules = { ...DEFAULT_SEGMENT_RULES };
+  for (const override of overrides) {
+    for (const key of Object.keys(DEFAULT_SEGMENT_RULES)) {
+      const value = parseFloat(override?.[key]);
+      if (Number.isFinite(value) && value > 0) {
+        rules[key] = value;
+      }
+    }
+  }
+  return rules;
+}
+
+/**
+ * Check a segment against the intro rules. Returns null when it passes, otherwise { reason, detail }.
+ */
+export function checkIntroRules(segment, episodeDuration, rules) {
+  const length = segment.end - segment.start;
+  if (length < rules.introMinSec) {
+    return { reason: 'intro_too_short', detail: `${length.toFixed(1)}s is shorter than ${rules.introMinSec}s` };
+  }
+  if (length > rules.introMaxSec) {
+    return { reason: 'intro_too_long', detail: `${length.toFixed(1)}s is longer than ${rules.introMaxSec}s` };
+  }
+  if (segment.start > rules.introMaxStartSec) {
+    return { reason: 'intro_starts_too_late', detail: `starts at ${segment.start.toFixed(1)}s, after ${rules.introMaxStartSec}s` };
+  }
+  // In short files the start offset alone can't tell intros from credits
+  if (episodeDuration && segment.start > episodeDuration / 2) {
+    return { reason: 'intro_starts_too_late', detail: 'starts in the second half of the episode' };
+  }
+  return null;
+}
+
+/**
+ * Check a segment against the credits rules. Returns null when it passes, otherwise { reason, detail }.
+ */
+export function checkCreditsRules(segment, episodeDuration, rules) {
+  const length = segment.end - segment.start;
+  if (length < rules.creditsMinSec) {
+    return { reason: 'credits_too_short', detail: `${length.toFixed(1)}s is shorter than ${rules.creditsMinSec}s` };
+  }
+  if (length > rules.creditsMaxSec) {
+    return { reason: 'credits_too_long', detail: `${length.toFixed(1)}s is longer than ${rules.creditsMaxSec}s` };
+  }
+  if (episodeDuration && episodeDuration - segment.end > rules.creditsMaxEndGapSec) {
+    const gap = episodeDuration - segment.end;
+    return {
+      reason: 'credits_end_too_early',
+      detail: `ends ${gap.toFixed(1)}s before the end of the file (max ${rules.creditsMaxEndGapSec}s)`,
+    };
+  }
+  if (episodeDuration && segment.start < episodeDuration / 2) {
+    return { reason: 'credits_start_too_early', detail: 'starts in the first half of the episode' };
+  }
+  return null;
+}
+
+/**
+ * Label segments (sorted by start) as intro, credits and stingers.
+ * The intro is the earliest segment passing the intro rules and the credits the latest passing
+ * the credits rules. Segments skipped on the way are demoted to stingers with the rule that
+ * rejected them in `demotion`.
+ */
+export function labelSegments(segments, episodeDuration, rules = DEFAULT_SEGMENT_RULES) {
+  const demotions = new Map();
+
+  let intro = null;
+  for (const segment of segments) {
+    const failure = checkIntroRules(segment, episodeDuration, rules);
+    if (!failure) {
+      intro = segment;
+      break;
+    }
+    // Only segments that would have been the intro by position count as demoted
+    if (!demotions.has(segment) && segment.start <= rules.introMaxStartSec) {
+      demotions.set(segment, { from: 'intro', ...failure });
+    }
+  }
+
+  let credits = null;
+  for (let i = segments.length - 1; i >= 0; i--) {
+    const segment = segments[i];
+    if (segment === intro) {
+      break;
+    }
+    const failure = checkCreditsRules(segment, episodeDuration, rules);
+    if (!failure) {
+      credits = segment;
+      break;
+    }
+    const positionalCandidate = episodeDuration ? segment.end >= episodeDuration / 2 : i === segments.length - 1;
+    if (!demotions.has(segment) && positionalCandidate) {
+      demotions.set(segment, { from: 'credits', ...failure });
+    }
+  }
+
+  const stingers = segments
+    .filter((segment) => segment !== intro && segment !== credits)
+    .map((segment) => (demotions.has(segment) ? { ...segment, demotion: demotions.get(segment) } : segment));
+
+  return {
+    intro,
+    credits,
+    stingers,
+    demoted: stingers.filter((segment) => segment.demotion),
+  };
+}
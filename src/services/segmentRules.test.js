@@ -0,0 +1,132 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_SEGMENT_RULES, normalizeSegmentRules, labelSegments } from './segmentRules.js';
+import { detectSegments } from './fingerprintPipeline.js';
+
+const EPISODE_DURATION = 2700;
+const CREDITS = { start: 2610, end: 2690 };
+
+test('demotes a 4-minute shared recap at the head to a stinger', () => {
+  const recap = { start: 0, end: 240 };
+  const intro = { start: 300, end: 360 };
+
+  const result = labelSegments([recap, intro, CREDITS], EPISODE_DURATION);
+
+  assert.equal(result.intro, intro);
+  assert.equal(result.credits, CREDITS);
+  assert.equal(result.stingers.length, 1);
+  assert.deepEqual(result.stingers[0], {
+    ...recap,
+    demotion: {
+      from: 'intro',
+      reason: 'intro_too_long',
+      detail: `240.0s is longer than ${DEFAULT_SEGMENT_RULES.introMaxSec}s`,
+    },
+  });
+  assert.deepEqual(result.demoted, result.stingers);
+});
+
+test('a per-show override over the global rules keeps a long intro', () => {
+  const longIntro = { start: 0, end: 240 };
+  const globalRules = { introMaxSec: 120, creditsMaxSec: 'not a number' };
+  const showRules = { introMaxSec: 300 };
+
+  const rules = normalizeSegmentRules(globalRules, showRules);
+  const result = labelSegments([longIntro, CREDITS], EPISODE_DURATION, rules);
+
+  assert.equal(rules.introMaxSec, 300);
+  assert.equal(rules.creditsMaxSec, DEFAULT_SEGMENT_RULES.creditsMaxSec);
+  assert.equal(result.intro, longIntro);
+  assert.equal(result.credits, CREDITS);
+  assert.deepEqual(result.stingers, []);
+
+  const globalOnly = labelSegments(
+    [longIntro, CREDITS],
+    EPISODE_DURATION,
+    normalizeSegmentRules(globalRules),
+  );
+  assert.equal(globalOnly.intro, null);
+  assert.equal(globalOnly.demoted[0].demotion.reason, 'intro_too_long');
+});
+
+/**
+ * Build a shared-region map for detectSegments: one entry per episode, each region aligned
+ * with the same region in every other episode listed for it
+ */
+function sharedRegionMap(regionsByEpisode) {
+  const map = new Map();
+  for (const [epId, regions] of Object.entries(regionsByEpisode)) {
+    map.set(Number(epId), regions.map(({ start, end, group }) => ({
+      start,
+      end,
+      bitErrorRate: 0.1,
+      links: Object.entries(regionsByEpisode)
+        .filter(([partnerId]) => partnerId !== epId)
+        .flatMap(([partnerId, partnerRegions]) => partnerRegions
+          .filter((partner) => group && partner.group === group)
+          .map((partner) => ({ partnerId: Number(partnerId), partnerStart: partner.start }))),
+    })));
+  }
+  return map;
+}
+
+test('detectSegments labels the credits and an intro at a different offset per episode', () => {
+  const map = sharedRegionMap({
+    1: [{ start: 30, end: 90, group: 'intro' }, { start: 2610, end: 2690, group: 'credits' }],
+    2: [{ start: 120, end: 180, group: 'intro' }, { start: 2612, end: 2690, group: 'credits' }],
+    3: [{ start: 60, end: 120, group: 'intro' }, { start: 2608, end: 2690, group: 'credits' }],
+  });
+
+  const result = detectSegments(map, EPISODE_DURATION);
+
+  assert.equal(result.segments.length, 2);
+  assert.deepEqual(result.intro.episodeIds, [1, 2, 3]);
+  assert.deepEqual(result.intro.occurrences, {
+    1: { start: 30, end: 90 },
+    2: { start: 120, end: 180 },
+    3: { start: 60, end: 120 },
+  });
+  assert.equal(result.credits.start, 2610);
+  assert.equal(result.credits.end, 2690);
+  assert.deepEqual(result.stingers, []);
+});
+
+test('detectSegments demotes a shared recap too long for an intro', () => {
+  const map = sharedRegionMap({
+    1: [{ start: 0, end: 240, group: 'recap' }, { start: 300, end: 360, group: 'intro' }],
+    2: [{ start: 0, end: 240, group: 'recap' }, { start: 300, end: 360, group: 'intro' }],
+  });
+
+  const result = detectSegments(map, EPISODE_DURATION);
+
+  assert.equal(result.intro.start, 300);
+  assert.equal(result.credits, null);
+  assert.equal(result.stingers.length, 1);
+  assert.equal(result.stingers[0].start, 0);
+  assert.equal(result.stingers[0].demotion.reason, 'intro_too_long');
+});
+
+test('detectSegments leaves out an episode that shares nothing with the others', () => {
+  const map = sharedRegionMap({
+    1: [{ start: 30, end: 90, group: 'intro' }],
+    2: [{ start: 30, end: 90, group: 'intro' }],
+    3: [{ start: 30, end: 90, group: 'intro' }],
+    // Matched audio that no other episode aligned with
+    4: [{ start: 1200, end: 1260 }],
+  });
+
+  const result = detectSegments(map, EPISODE_DURATION);
+
+  assert.equal(result.segments.length, 1);
+  assert.deepEqual(result.intro.episodeIds, [1, 2, 3]);
+  assert.equal(result.intro.occurrences[4], undefined);
+  assert.equal(result.credits, null);
+
+  assert.deepEqual(detectSegments(new Map(), EPISODE_DURATION), {
+    segments: [],
+    intro: null,
+    credits: null,
+    stingers: [],
+    demoted: [],
+  });
+});
@@ -0,0 +1,192 @@
+// Approved intro (and credits) templates learned from reviewed episodes.
+// New episodes are aligned against a template alone instead of re-clustering their season.
+import { workerLogger } from './logger.js';
+import { getDb } from '../database/Db_Operations.js';
+import { alignEpisodePair, stitchRawFingerprint, FINGERPRINT_ITEM_SEC } from './fingerprintAlignment.js';
+
+const DEFAULT_TEMPLATE_MATCH_OPTIONS = {
+  minCoverage: 0.6, // share of the template that must be found in the episode
+  alignment: { minMatchSec: 3 },
+};
+
+const TEMPLATE_LABELS = ['intro', 'credits'];
+const MIN_TEMPLATE_SEC = 3;
+
+const round2 = (value) => Math.round(value * 100) / 100;
+
+/**
+ * Cut a segment's raw fingerprint items out of a stitched episode timeline.
+ * Returns null when the segment is too short or falls in a hole of the timeline.
+ */
+export function sliceTemplate(timeline, segment) {
+  if (!segment || segment.end - segment.start < MIN_TEMPLATE_SEC) {
+    return null;
+  }
+  const first = Math.max(0, Math.round(segment.start / FINGERPRINT_ITEM_SEC));
+  const last = Math.min(timeline.length, Math.round(segment.end / FINGERPRINT_ITEM_SEC));
+  const items = timeline.slice(first, last);
+  const present = items.filter((item) => item !== null).length;
+  // Mostly-missing audio (e.g. outside the search windows) can't make a template
+  if (items.length === 0 || present / items.length < 0.9) {
+    return null;
+  }
+  return items;
+}
+
+/**
+ * Find a template in an episode timeline.
+ * Returns { start, end, coverage, bitErrorRate } in episode time, or null when too little matched.
+ */
+export function matchTemplate(templateItems, timeline, options = {}) {
+  const opts = {
+    ...DEFAULT_TEMPLATE_MATCH_OPTIONS,
+    ...options,
+    alignment: { ...DEFAULT_TEMPLATE_MATCH_OPTIONS.alignment, ...options.alignment },
+  };
+  if (!templateItems || templateItems.length === 0) {
+    return null;
+  }
+
+  const templateSec = templateItems.length * FINGERPRINT_ITEM_SEC;
+  const regions = alignEpisodePair(templateItems, timeline, opts.alignment);
+  if (regions.length === 0) {
+    return null;
+  }
+
+  // The longest region fixes the offset; the rest of the template follows from it
+  const best = regions.reduce((a, b) => ((b.lhsEnd - b.lhsStart) > (a.lhsEnd - a.lhsStart) ? b : a));
+  const offset = best.rhsStart - best.lhsStart;
+  const matchedSec = regions
+    .filter((region) => Math.abs((region.rhsStart - region.lhsStart) - offset) <= 1)
+    .reduce((sum, region) => sum + (region.lhsEnd - region.lhsStart), 0);
+  const coverage = Math.min(1, matchedSec / templateSec);
+  if (coverage < opts.minCoverage) {
+    return null;
+  }
+
+  const durationSec = timeline.length * FINGERPRINT_ITEM_SEC;
+  return {
+    start: round2(Math.max(0, offset)),
+    end: round2(Math.min(durationSec, offset + templateSec)),
+    coverage: round2(coverage),
+    bitErrorRate: best.bitErrorRate,
+  };
+}
+
+/**
+ * Get the templates that apply to a season: season templates win over show-wide ones.
+ * Returns { intro, credits } with { id, seasonNumber, fingerprint, duration } or null entries.
+ */
+export async function getSegmentTemplates(showId, seasonNumber) {
+  const db = await getDb();
+  const rows = db.prepare(`
+    SELECT id, season_number, label, fingerprint_data, duration
+    FROM segment_templates
+    WHERE show_id = ? AND (season_number = ? OR season_number IS NULL)
+    ORDER BY season_number IS NULL
+  `).all(showId, seasonNumber);
+
+  const templates = { intro: null, credits: null };
+  for (const row of rows) {
+    if (templates[row.label] === null) {
+      templates[row.label] = {
+        id: row.id,
+        seasonNumber: row.season_number,
+        fingerprint: JSON.parse(row.fingerprint_data),
+        duration: row.duration,
+      };
+    }
+  }
+  return templates;
+}
+
+/**
+ * List a show's templates without their fingerprint data
+ */
+export async function listSegmentTemplates(showId) {
+  const db = await getDb();
+  return db.prepare(`
+    SELECT id, season_number, label, duration, source_episode_file_id, created_at, updated_at
+    FROM segment_templates
+    WHERE show_id = ?
+    ORDER BY season_number IS NULL, season_number, label
+  `).all(showId);
+}
+
+/**
+ * Delete a show's templates, or only one season's when seasonNumber is given
+ */
+export async function deleteSegmentTemplates(showId, seasonNumber = null) {
+  const db = await getDb();
+  const result = seasonNumber === null ?
+    db.prepare('DELETE FROM segment_templates WHERE show_id = ?').run(showId) :
+    db.prepare('DELETE FROM segment_templates WHERE show_id = ? AND season_number = ?').run(showId, seasonNumber);
+  return result.changes;
+}
+
+/**
+ * Save one template, replacing any earlier one for the same show/season/label
+ */
+function saveSegmentTemplate(db, showId, seasonNumber, label, items, sourceEpisodeFileId) {
+  const now = new Date().toISOString();
+  db.prepare(`
+    DELETE FROM segment_templates
+    WHERE show_id = ? AND label = ? AND season_number IS ?
+  `).run(showId, label, seasonNumber);
+  db.prepare(`
+    INSERT INTO segment_templates
+    (show_id, season_number, label, fingerprint_data, duration, source_episode_file_id, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    showId,
+    seasonNumber,
+    label,
+    JSON.stringify(items),
+    round2(items.length * FINGERPRINT_ITEM_SEC),
+    sourceEpisodeFileId,
+    now,
+    now,
+  );
+}
+
+/**
+ * Learn season and show-wide templates from a reviewer-approved episode.
+ * `segments` is { intro, credits } with { start, end } in that episode's time.
+ * Returns the labels that were saved.
+ */
+export async function learnSegmentTemplates(episodeFileId, segments) {
+  const db = await getDb();
+  const row = db.prepare(`
+    SELECT show_id, season_number, fingerprint_data
+    FROM episode_fingerprints
+    WHERE episode_file_id = ?
+    ORDER BY updated_at DESC
+    LIMIT 1
+  `).get(episodeFileId);
+  if (!row) {
+    workerLogger.info({ episodeFileId }, 'No fingerprints for approved episode, no template learned');
+    return [];
+  }
+
+  const timeline = stitchRawFingerprint(JSON.parse(row.fingerprint_data));
+  const saved = [];
+  db.transaction(() => {
+    for (const label of TEMPLATE_LABELS) {
+      const items = sliceTemplate(timeline, segments[label]);
+      if (!items) {
+        continue;
+      }
+      saveSegmentTemplate(db, row.show_id, row.season_number, label, items, episodeFileId);
+      saveSegmentTemplate(db, row.show_id, null, label, items, episodeFileId);
+      saved.push(label);
+    }
+  })();
+
+  workerLogger.info({
+    episodeFileId,
+    showId: row.show_id,
+    seasonNumber: row.season_number,
+    labels: saved,
+  }, 'Segment templates learned from approved episode');
+  return saved;
+}
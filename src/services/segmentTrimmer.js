@@ -0,0 +1,646 @@
+// Lossless removal of approved intro/credits/recap segments from episode files.
+// Pieces between cuts are stream-copied from their first keyframe; only the few seconds
+// before that keyframe are re-encoded, so almost the whole file keeps its original quality.
+import fsp from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { execFile, spawn } from 'child_process';
+import { v4 as uuidv4 } from 'uuid';
+import { workerLogger } from './logger.js';
+import { broadcastJobUpdate } from './websocket.js';
+import {
+  getDb,
+  getSetting,
+  getProcessingJobById,
+  getProcessingProfileById,
+  updateProcessingJob,
+  updateEpisodeFilePath,
+} from '../database/Db_Operations.js';
+import {
+  selectVideoEncoder,
+  getSoftwareFallback,
+  buildEncoderArgs,
+  buildCopySpliceArgs,
+  buildEncodeSpliceArgs,
+  readHardwareInfo,
+  getProfileTargetCodec,
+  getProfileMaxHeight,
+} from './encoderSelection.js';
+import { verifyOutputFile, describeVerification, getEpisodeTimeline } from './trimVerification.js';
+import {
+  TEXT_SUBTITLE_CODECS,
+  probeSubtitleStreams,
+  getRemovedRanges,
+  retimeSubtitleText,
+  retimeSidecarSubtitles,
+} from './subtitleRetiming.js';
+import { getSkippableIdents } from './identDetection.js';
+
+const DEFAULT_TRIM_OPTIONS = {
+  minKeepSec: 0.5, // kept pieces shorter than this are dropped
+  keyframeToleranceSec: 0.05, // a cut this close to a keyframe is stream-copied as is
+  keyframeSearchSec: 20, // how far past a cut point to look for the next keyframe
+  crf: 18,
+  preset: 'fast',
+  bitrate: 0, // kbps; 0 encodes to the crf quality target instead
+  hardwareAcceleration: 'none',
+  hardwareInfo: null,
+  targetCodec: null, // re-encode every piece to this codec instead of copying the source's
+  maxHeight: null, // scale taller video down to this height, re-encoding every piece
+  audioCodec: null, // re-encode audio to this codec instead of copying it
+  container: null, // write the output as this container (mkv, mp4 or avi) instead of the source's
+  verify: true, // check the output before it replaces anything
+  sourceTimeline: null, // the source's fingerprint timeline, to prove removed audio is gone
+};
+
+// Subtitle codec each output container stores a source subtitle codec as; null drops the track
+const CONTAINER_SUBTITLE_CODECS = {
+  mkv: (codec) => (codec === 'mov_text' ? 'subrip' : codec),
+  mp4: (codec) => (TEXT_SUBTITLE_CODECS[codec] ? 'mov_text' : null),
+  avi: () => null,
+};
+
+/**
+ * Work out which parts of a file to keep once the given segments are removed.
+ * Overlapping or nearly touching segments are merged; returns [{ start, end }] in file time.
+ */
+export function planKeepRanges(duration, segments, options = {}) {
+  const { minKeepSec } = { ...DEFAULT_TRIM_OPTIONS, ...options };
+  const removed = segments
+    .filter((segment) => segment && segment.end > segment.start)
+    .map((segment) => ({ start: Math.max(0, segment.start), end: Math.min(duration, segment.end) }))
+    .sort((a, b) => a.start - b.start)
+    .reduce((merged, segment) => {
+      const last = merged[merged.length - 1];
+      if (last && segment.start - last.end < minKeepSec) {
+        last.end = Math.max(last.end, segment.end);
+      } else {
+        merged.push({ ...segment });
+      }
+      return merged;
+    }, []);
+
+  const keep = [];
+  let cursor = 0;
+  for (const segment of removed) {
+    keep.push({ start: cursor, end: segment.start });
+    cursor = segment.end;
+  }
+  keep.push({ start: cursor, end: duration });
+  return keep.filter((range) => range.end - range.start >= minKeepSec);
+}
+
+/**
+ * Split kept ranges into stream-copied and re-encoded pieces.
+ * A range that doesn't start on a keyframe is re-encoded up to the next keyframe and copied from there.
+ */
+export function planCutPieces(keepRanges, keyframes, options = {}) {
+  const { keyframeToleranceSec } = { ...DEFAULT_TRIM_OPTIONS, ...options };
+  const pieces = [];
+  for (const range of keepRanges) {
+    const keyframe = keyframes.find((time) => time >= range.start - keyframeToleranceSec && time < range.end);
+    if (keyframe === undefined) {
+      pieces.push({ start: range.start, end: range.end, mode: 'encode' });
+    } else if (keyframe - range.start <= keyframeToleranceSec) {
+      pieces.push({ start: keyframe, end: range.end, mode: 'copy' });
+    } else {
+      pieces.push({ start: range.start, end: keyframe, mode: 'encode' });
+      pieces.push({ start: keyframe, end: range.end, mode: 'copy' });
+    }
+  }
+  return pieces;
+}
+
+/**
+ * Resolve where a trimmed file goes: into the output directory when one is set (leaving the
+ * original alone), otherwise over the original, which is first moved to a backup folder if enabled.
+ * With a `container`, the output takes that extension; an original it no longer overwrites
+ * is removed.
+ */
+export function resolveOutputPaths(filePath, {
+  outputDirectory,
+  backupOriginals,
+  container = null,
+}) {
+  const extension = path.extname(filePath);
+  const name = container && extension.slice(1).toLowerCase() !== container ?
+    `${path.basename(filePath, extension)}.${container}` :
+    path.basename(filePath);
+  if (outputDirectory) {
+    return { outputPath: path.join(outputDirectory, name), backupPath: null };
+  }
+  return {
+    outputPath: path.join(path.dirname(filePath), name),
+    backupPath: backupOriginals ? path.join(path.dirname(filePath), '.cliprr-backup', path.basename(filePath)) : null,
+  };
+}
+
+/**
+ * Get the duration and first video stream's codec, pixel format, profile, level and height
+ * of a file
+ */
+export function probeVideo(filePath) {
+  return new Promise((resolve, reject) => {
+    execFile('ffprobe', [
+      '-v', 'error',
+      '-select_streams', 'v:0',
+      '-show_entries', 'stream=codec_name,pix_fmt,profile,level,height:format=duration',
+      '-of', 'json',
+      filePath,
+    ], (err, stdout) => {
+      if (err) {
+        return reject(err);
+      }
+      try {
+        const data = JSON.parse(stdout);
+        resolve({
+          duration: parseFloat(data.format?.duration) || 0,
+          codec: data.streams?.[0]?.codec_name || null,
+          pixFmt: data.streams?.[0]?.pix_fmt || null,
+          profile: data.streams?.[0]?.profile || null,
+          level: data.streams?.[0]?.level ?? null,
+          height: data.streams?.[0]?.height || null,
+        });
+      } catch (parseError) {
+        reject(parseError);
+      }
+    });
+  });
+}
+
+/**
+ * List video keyframe times near the cut points, reading only those parts of the file
+ */
+function probeKeyframes(filePath, cutPoints, searchSec) {
+  const intervals = cutPoints
+    .map((time) => `${Math.max(0, time - 1).toFixed(3)}%+${searchSec}`)
+    .join(',');
+  return new Promise((resolve, reject) => {
+    execFile('ffprobe', [
+      '-v', 'error',
+      '-select_streams', 'v:0',
+      '-read_intervals', intervals,
+      '-show_entries', 'packet=pts_time,flags',
+      '-of', 'csv=p=0',
+      filePath,
+    ], { maxBuffer: 16 * 1024 * 1024 }, (err, stdout) => {
+      if (err) {
+        return reject(err);
+      }
+      const keyframes = stdout.split('\n')
+        .map((line) => line.split(','))
+        .filter(([time, flags]) => flags && flags.includes('K') && time !== 'N/A')
+        .map(([time]) => parseFloat(time));
+      resolve([...new Set(keyframes)].sort((a, b) => a - b));
+    });
+  });
+}
+
+/**
+ * Run ffmpeg to completion, rejecting with the head of stderr on failure
+ */
+export function runFfmpeg(args) {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn('ffmpeg', args);
+    let stderr = '';
+    ffmpeg.stderr.on('data', (data) => {
+      stderr += data.toString();
+    });
+    ffmpeg.on('close', (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        const truncatedStderr = stderr ? stderr.split('\n').slice(-5).join('\n') : '';
+        reject(new Error(`ffmpeg exited with code ${code}: ${truncatedStderr || 'Unknown error'}`));
+      }
+    });
+    ffmpeg.on('error', reject);
+  });
+}
+
+/**
+ * Move a file, copying when source and target are on different filesystems
+ */
+export async function moveFile(source, target) {
+  await fsp.mkdir(path.dirname(target), { recursive: true });
+  try {
+    await fsp.rename(source, target);
+  } catch (error) {
+    if (error.code !== 'EXDEV') {
+      throw error;
+    }
+    await fsp.copyFile(source, target);
+    await fsp.unlink(source);
+  }
+}
+
+/**
+ * Move the original to its backup path. A backup already there is kept: it holds the untouched
+ * original from an earlier run, while the file being replaced has been processed before.
+ */
+export async function backupOriginal(filePath, backupPath) {
+  try {
+    await fsp.access(backupPath);
+    workerLogger.info({ filePath, backupPath }, 'Keeping the existing backup of the original');
+  } catch {
+    await moveFile(filePath, backupPath);
+  }
+}
+
+/**
+ * Render one piece of the output, re-encoding its video with the selected encoder when it isn't a copy.
+ * Every piece carries its parameter sets in-band, and cut points re-encoded in the source codec
+ * match its profile and level, so the concatenated pieces decode across each join.
+ */
+async function renderPiece(filePath, piece, piecePath, video, opts, selection) {
+  const streamArgs = ['-map', '0:v:0', '-map', '0:a?', ...opts.subtitleMaps];
+  let inputArgs = [];
+  let outputArgs = buildCopySpliceArgs(video.codec);
+  if (piece.mode !== 'copy') {
+    const encoderArgs = buildEncoderArgs(selection, {
+      crf: opts.crf,
+      preset: opts.preset,
+      bitrate: opts.bitrate,
+      pixFmt: video.pixFmt,
+      scaleHeight: opts.scaleHeight,
+    });
+    inputArgs = encoderArgs.inputArgs;
+    outputArgs = [
+      ...encoderArgs.outputArgs,
+      ...buildEncodeSpliceArgs(selection, opts.codec, opts.transcode ? {} : video),
+    ];
+  }
+  const timeArgs = ['-ss', piece.start.toFixed(3), '-i', filePath, '-t', (piece.end - piece.start).toFixed(3)];
+  await runFfmpeg([
+    '-v', 'error', ...inputArgs, ...timeArgs, ...streamArgs, '-c', 'copy', ...outputArgs,
+    '-avoid_negative_ts', 'make_zero', '-y', piecePath,
+  ]);
+}
+
+/**
+ * Extract the text subtitle streams and retime them to the cut. Returns the retimed files by
+ * subtitle index; streams that are bitmaps or fail to extract are left for the pieces to copy.
+ */
+async function retimeEmbeddedSubtitles(filePath, subtitles, removedRanges, workDir, warnings) {
+  const retimed = new Map();
+  for (const stream of subtitles) {
+    if (!stream.text) {
+      warnings.push(`${stream.codec} subtitle track ${stream.index + 1} is a bitmap format, copied without retiming`);
+      continue;
+    }
+    const { format } = TEXT_SUBTITLE_CODECS[stream.codec];
+    const subtitlePath = path.join(workDir, `subtitle_${stream.index}.${format}`);
+    try {
+      await runFfmpeg([
+        '-v', 'error', '-i', filePath, '-map', `0:s:${stream.index}`,
+        '-c:s', format === 'vtt' ? 'webvtt' : format, '-y', subtitlePath,
+      ]);
+      const text = await fsp.readFile(subtitlePath, 'utf8');
+      await fsp.writeFile(subtitlePath, retimeSubtitleText(text, format, removedRanges));
+      retimed.set(stream.index, subtitlePath);
+    } catch (error) {
+      warnings.push(`${stream.codec} subtitle track ${stream.index + 1} could not be retimed, copied as is`);
+      workerLogger.warn({ filePath, subtitle: stream.index, error: error.message }, 'Subtitle extraction failed');
+    }
+  }
+  return retimed;
+}
+
+/**
+ * Mux retimed subtitle files back in, keeping the source's subtitle order, languages and titles.
+ * The trimmed file holds the copied subtitle tracks in source order.
+ */
+async function muxRetimedSubtitles(trimmedPath, subtitles, retimed, outputPath) {
+  const inputArgs = ['-i', trimmedPath];
+  const mapArgs = ['-map', '0:v', '-map', '0:a?'];
+  const codecArgs = ['-c', 'copy'];
+  let copiedIndex = 0;
+  for (const [outputIndex, stream] of subtitles.entries()) {
+    if (!retimed.has(stream.index)) {
+      mapArgs.push('-map', `0:s:${copiedIndex}`);
+      copiedIndex += 1;
+      continue;
+    }
+    inputArgs.push('-i', retimed.get(stream.index));
+    mapArgs.push('-map', `${inputArgs.length / 2 - 1}:0`);
+    codecArgs.push(
+      `-c:s:${outputIndex}`, TEXT_SUBTITLE_CODECS[stream.codec].encoder,
+      `-disposition:s:${outputIndex}`, stream.disposition.join('+') || '0',
+      ...(stream.language ? [`-metadata:s:s:${outputIndex}`, `language=${stream.language}`] : []),
+      ...(stream.title ? [`-metadata:s:s:${outputIndex}`, `title=${stream.title}`] : []),
+    );
+  }
+  await runFfmpeg(['-v', 'error', ...inputArgs, ...mapArgs, '-map_metadata', '0', '-map_chapters', '0', ...codecArgs, '-y', outputPath]);
+}
+
+/**
+ * Remux the trimmed file into another container. Subtitle tracks are converted to the codec the
+ * container stores them as, and dropped with a warning when it can't hold them.
+ */
+async function remuxToContainer(trimmedPath, subtitles, container, outputPath, warnings) {
+  const mapArgs = ['-map', '0:v', '-map', '0:a?'];
+  const codecArgs = ['-c', 'copy'];
+  let outputIndex = 0;
+  for (const stream of subtitles) {
+    const codec = CONTAINER_SUBTITLE_CODECS[container](stream.codec);
+    if (!codec) {
+      warnings.push(
+        `${stream.codec} subtitle track ${stream.index + 1} can't be stored in ${container}, dropped`,
+      );
+      continue;
+    }
+    mapArgs.push('-map', `0:s:${stream.index}`);
+    if (codec !== stream.codec) {
+      codecArgs.push(`-c:s:${outputIndex}`, TEXT_SUBTITLE_CODECS[codec].encoder);
+    }
+    outputIndex += 1;
+  }
+  await runFfmpeg([
+    '-v', 'error', '-i', trimmedPath, ...mapArgs, '-map_metadata', '0', '-map_chapters', '0',
+    ...codecArgs, '-y', outputPath,
+  ]);
+}
+
+/**
+ * Remove segments ({ start, end } in seconds) from a video file.
+ * `options` takes outputDirectory, backupOriginals and tempDir besides the trim tuning options.
+ * A profile's max height re-encodes every piece of taller video; its audio codec and container
+ * are applied when the pieces are joined.
+ * Text subtitles, embedded and sidecar, are retimed to the cut; bitmap subtitles are copied with a warning.
+ * The output is verified first; a failed verification throws and leaves the original untouched.
+ * Returns { outputPath, backupPath, pieces, removedSec, encoder, hardware, encoderFallback, verification,
+ * subtitles, warnings }.
+ */
+export async function trimEpisodeFile(filePath, segments, options = {}) {
+  const opts = { ...DEFAULT_TRIM_OPTIONS, ...options };
+  const video = await probeVideo(filePath);
+  if (!video.duration) {
+    throw new Error(`Could not read the duration of ${filePath}`);
+  }
+
+  const keepRanges = planKeepRanges(video.duration, segments, opts);
+  const keptSec = keepRanges.reduce((sum, range) => sum + (range.end - range.start), 0);
+  const removedSec = video.duration - keptSec;
+  if (removedSec < opts.minKeepSec) {
+    throw new Error('No segments to remove');
+  }
+  if (keepRanges.length === 0) {
+    throw new Error('Removing these segments would leave nothing of the file');
+  }
+
+  // A profile asking for another codec or a lower resolution re-encodes everything; otherwise
+  // cut points are re-encoded in the source codec so the pieces concatenate with the copied parts
+  const scaleHeight = opts.maxHeight && video.height > opts.maxHeight ? opts.maxHeight : null;
+  const transcode = (Boolean(opts.targetCodec) && opts.targetCodec !== video.codec) ||
+    scaleHeight !== null;
+  const codec = opts.targetCodec || video.codec;
+  let selection = selectVideoEncoder(codec, opts.hardwareAcceleration, opts.hardwareInfo);
+  if (selection.fallbackReason) {
+    workerLogger.warn({ filePath, codec, reason: selection.fallbackReason }, 'Using software encoder');
+  }
+  if (transcode && !selection.encoder) {
+    throw new Error(`No encoder available for ${codec}`);
+  }
+
+  // Without a matching encoder, cut at the keyframe before each range instead; that keeps
+  // up to one GOP of the removed segment rather than dropping episode content
+  const keyframes = transcode ?
+    [] :
+    await probeKeyframes(filePath, keepRanges.map((range) => range.start), opts.keyframeSearchSec);
+  let pieces;
+  if (transcode) {
+    pieces = keepRanges.map((range) => ({ ...range, mode: 'encode' }));
+  } else if (selection.encoder) {
+    pieces = planCutPieces(keepRanges, keyframes, opts);
+  } else {
+    pieces = keepRanges.map((range) => {
+      const before = keyframes.filter((time) => time <= range.start + opts.keyframeToleranceSec);
+      return { start: before.length ? before[before.length - 1] : range.start, end: range.end, mode: 'copy' };
+    });
+  }
+
+  const removedRanges = getRemovedRanges(video.duration, pieces);
+  const subtitles = await probeSubtitleStreams(filePath);
+  const warnings = [];
+
+  const workDir = path.join(opts.tempDir || path.join(os.tmpdir(), 'cliprr'), `trim-${uuidv4()}`);
+  await fsp.mkdir(workDir, { recursive: true });
+  try {
+    // Retimed text subtitles are muxed back after the concat; only the rest travel with the pieces
+    const retimed = await retimeEmbeddedSubtitles(filePath, subtitles, removedRanges, workDir, warnings);
+    const renderOpts = {
+      ...opts,
+      codec,
+      transcode,
+      scaleHeight,
+      subtitleMaps: subtitles
+        .filter((stream) => !retimed.has(stream.index))
+        .flatMap((stream) => ['-map', `0:s:${stream.index}`]),
+    };
+
+    const piecePaths = [];
+    for (const [index, piece] of pieces.entries()) {
+      const piecePath = path.join(workDir, `piece_${String(index).padStart(3, '0')}.mkv`);
+      try {
+        await renderPiece(filePath, piece, piecePath, video, renderOpts, selection);
+      } catch (error) {
+        if (piece.mode !== 'encode' || selection.hardware === 'none') {
+          throw error;
+        }
+        // Hardware encoders can fail at runtime (driver, session limits); finish the file in software
+        const reason = `${selection.encoder} failed: ${error.message.split('\n')[0]}`;
+        workerLogger.warn({ filePath, encoder: selection.encoder, error: error.message }, 'Hardware encode failed, retrying in software');
+        selection = getSoftwareFallback(codec, reason);
+        if (!selection.encoder) {
+          throw error;
+        }
+        await renderPiece(filePath, piece, piecePath, video, renderOpts, selection);
+      }
+      piecePaths.push(piecePath);
+    }
+
+    const listPath = path.join(workDir, 'pieces.txt');
+    await fsp.writeFile(listPath, piecePaths.map((p) => `file '${p.replace(/'/g, '\'\\\'\'')}'`).join('\n'));
+    const concatPath = path.join(workDir, `concat${path.extname(filePath)}`);
+    await runFfmpeg([
+      '-v', 'error', '-f', 'concat', '-safe', '0', '-i', listPath, '-map', '0', '-c', 'copy',
+      ...(opts.audioCodec ? ['-c:a', opts.audioCodec] : []), '-y', concatPath,
+    ]);
+    let trimmedPath = concatPath;
+    if (retimed.size > 0) {
+      trimmedPath = path.join(workDir, `trimmed${path.extname(filePath)}`);
+      await muxRetimedSubtitles(concatPath, subtitles, retimed, trimmedPath);
+    }
+    const { outputPath, backupPath } = resolveOutputPaths(filePath, opts);
+    const remux = path.extname(outputPath) !== path.extname(filePath);
+    if (remux) {
+      const remuxedPath = path.join(workDir, `remuxed${path.extname(outputPath)}`);
+      await remuxToContainer(trimmedPath, subtitles, opts.container, remuxedPath, warnings);
+      trimmedPath = remuxedPath;
+    }
+
+    let verification = null;
+    if (opts.verify) {
+      // Output time of each join between pieces, where a bad splice shows up as decode errors
+      const joins = pieces.slice(0, -1).reduce((times, piece) =>
+        [...times, (times[times.length - 1] || 0) + (piece.end - piece.start)], []);
+      verification = await verifyOutputFile(filePath, trimmedPath, {
+        expectedSec: pieces.reduce((sum, piece) => sum + (piece.end - piece.start), 0),
+        joins,
+        removedSegments: segments.filter((segment) => segment.label),
+        sourceTimeline: opts.sourceTimeline,
+        ...(remux && { subtitleCodec: CONTAINER_SUBTITLE_CODECS[opts.container] }),
+      });
+      if (!verification.passed) {
+        throw new Error(`Output verification failed, original kept: ${describeVerification(verification)}`);
+      }
+    }
+
+    if (backupPath) {
+      await backupOriginal(filePath, backupPath);
+    }
+    await moveFile(trimmedPath, outputPath);
+    if (remux && !opts.outputDirectory && !backupPath) {
+      await fsp.unlink(filePath);
+    }
+    const sidecars = await retimeSidecarSubtitles(filePath, removedRanges, { outputPath, backupPath });
+    for (const warning of warnings) {
+      workerLogger.warn({ filePath }, warning);
+    }
+
+    workerLogger.info({
+      filePath,
+      outputPath,
+      backupPath,
+      removedSec: Math.round(removedSec * 100) / 100,
+      copiedPieces: pieces.filter((piece) => piece.mode === 'copy').length,
+      encodedPieces: pieces.filter((piece) => piece.mode === 'encode').length,
+      encoder: selection.encoder || 'none (keyframe cuts)',
+      encoderFallback: selection.fallbackReason,
+      verification: verification && describeVerification(verification),
+      retimedSubtitles: retimed.size,
+      sidecarSubtitles: sidecars.length,
+    }, 'Episode trimmed');
+    return {
+      outputPath,
+      backupPath,
+      pieces,
+      removedSec,
+      encoder: selection.encoder,
+      hardware: selection.hardware,
+      encoderFallback: selection.fallbackReason,
+      verification,
+      subtitles: { retimed: retimed.size, copied: subtitles.length - retimed.size, sidecars },
+      warnings,
+    };
+  } finally {
+    await fsp.rm(workDir, { recursive: true, force: true }).catch((error) => {
+      workerLogger.debug({ workDir, error: error.message }, 'Failed to remove trim work directory');
+    });
+  }
+}
+
+/**
+ * Check that a processing job's file may be trimmed or have chapters written: the job must be
+ * approved, and neither processed already (restoring the original reopens it) nor in progress.
+ * Returns null when it may, otherwise the reason it may not.
+ */
+export function getJobOutputError(job) {
+  if (!job.manual_verified && job.status !== 'verified') {
+    return `Processing job ${job.id} has not been approved`;
+  }
+  if (job.status === 'completed') {
+    return `Processing job ${job.id} was already processed; restore the original to process it again`;
+  }
+  if (job.status === 'processing') {
+    return `Processing job ${job.id} is already being processed`;
+  }
+  return null;
+}
+
+/**
+ * Check whether processing a job would trim its file in place: trim output mode (the profile's,
+ * else the global one) and no output directory. Segment times exported for it stop applying then.
+ */
+export function trimsInPlace(db, job) {
+  const profile = job.profile_id ? getProcessingProfileById(db, job.profile_id) : null;
+  const outputMode = profile?.output_mode || getSetting(db, 'output_mode', 'trim');
+  return outputMode === 'trim' && !getSetting(db, 'output_directory', '');
+}
+
+/**
+ * Trim the file of an approved processing job using its reviewed intro/credits/recap times,
+ * plus its detected idents when skip_idents is on, following the output_directory and
+ * backup_originals settings
+ */
+export async function trimApprovedJob(dbJobId) {
+  const db = await getDb();
+  const job = getProcessingJobById(db, dbJobId);
+  if (!job) {
+    throw new Error(`Processing job not found: ${dbJobId}`);
+  }
+  const outputError = getJobOutputError(job);
+  if (outputError) {
+    throw new Error(outputError);
+  }
+
+  const segments = [
+    { label: 'intro', start: job.intro_start, end: job.intro_end },
+    { label: 'credits', start: job.credits_start, end: job.credits_end },
+    { label: 'recap', start: job.recap_start, end: job.recap_end },
+    ...(await getSkippableIdents(job.media_file_id)).map((ident) => ({ label: 'ident', ...ident })),
+  ].filter((segment) => segment.start !== null && segment.end !== null && segment.end > segment.start);
+  const labels = [...new Set(segments.map((segment) => segment.label))];
+
+  // The job's profile picks the encoder, any target codec, resolution and audio codec, and the
+  // container; without one, cut points use software and the file keeps its streams and container
+  const profile = job.profile_id ? getProcessingProfileById(db, job.profile_id) : null;
+  const outputDirectory = getSetting(db, 'output_directory', '');
+
+  updateProcessingJob(db, dbJobId, { status: 'processing', processing_notes: 'Trimming approved segments...' });
+  broadcastJobUpdate({ type: 'job_update', dbJobId, status: 'processing', message: 'Trimming approved segments...' });
+  try {
+    const result = await trimEpisodeFile(job.file_path, segments, {
+      outputDirectory,
+      backupOriginals: getSetting(db, 'backup_originals', '1') === '1',
+      tempDir: getSetting(db, 'temp_dir', null),
+      sourceTimeline: await getEpisodeTimeline(job.media_file_id),
+      ...(profile && {
+        hardwareAcceleration: profile.hardware_acceleration,
+        hardwareInfo: await readHardwareInfo(),
+        targetCodec: getProfileTargetCodec(profile),
+        preset: profile.quality_preset,
+        bitrate: profile.target_bitrate,
+        maxHeight: getProfileMaxHeight(profile),
+        audioCodec: profile.audio_codec === 'copy' ? null : profile.audio_codec,
+        container: profile.container,
+      }),
+    });
+    // A new container gives a file trimmed in place a new name
+    if (!outputDirectory && result.outputPath !== job.file_path) {
+      updateEpisodeFilePath(db, job.media_file_id, result.outputPath);
+    }
+    const encodedWith = result.pieces.some((piece) => piece.mode === 'encode') ?
+      `. Encoded with ${result.encoder}${result.encoderFallback ? ` (software fallback: ${result.encoderFallback})` : ''}` :
+      '';
+    const notes = `Removed ${labels.join(', ')} ` +
+      `(${result.removedSec.toFixed(1)}s). Output: ${result.outputPath}` +
+      `${result.backupPath ? `. Original backed up to ${result.backupPath}` : ''}${encodedWith}` +
+      `${result.verification ? `. Verified: ${describeVerification(result.verification)}` : ''}` +
+      `${result.subtitles.sidecars.length ? `. Retimed ${result.subtitles.sidecars.length} sidecar subtitle file(s)` : ''}` +
+      `${result.warnings.length ? `. Warnings: ${result.warnings.join('; ')}` : ''}`;
+    updateProcessingJob(db, dbJobId, {
+      status: 'completed',
+      processing_notes: notes,
+      output_path: result.outputPath,
+      output_mode: 'trim',
+    });
+    broadcastJobUpdate({ type: 'job_update', dbJobId, status: 'completed', progress: 100, message: notes });
+    return { ...result, segments: labels };
+  } catch (error) {
+    workerLogger.error({ dbJobId, filePath: job.file_path, error: error.message }, 'Trimming failed');
+    updateProcessingJob(db, dbJobId, { status: 'failed', processing_notes: `Trimming failed: ${error.message}` });
+    broadcastJobUpdate({ type: 'job_update', dbJobId, status: 'failed', message: error.message });
+    throw error;
+  }
+}
@@ -0,0 +1,52 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  installFakeMediaTools,
+  writeFakeMedia,
+  readFakeMedia,
+} from '../testUtils/fakeMediaTools.js';
+import { trimEpisodeFile } from './segmentTrimmer.js';
+
+let tmpDir;
+let readCalls;
+
+before(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cliparr-trimmer-'));
+  fs.mkdirSync(path.join(tmpDir, 'bin'));
+  readCalls = installFakeMediaTools(path.join(tmpDir, 'bin'));
+});
+
+after(() => {
+  delete process.env.FAKE_FFMPEG_FAIL_ENCODER;
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+test('a hardware encoder that fails mid-trim is retried in software', async () => {
+  const filePath = path.join(tmpDir, 'media', 'episode.mkv');
+  writeFakeMedia(filePath);
+  process.env.FAKE_FFMPEG_FAIL_ENCODER = 'h264_nvenc';
+
+  // Keyframes fall every 2s, so keeping 31s onwards re-encodes 31-32s and copies the rest
+  const result = await trimEpisodeFile(filePath, [{ start: 0, end: 31, label: 'intro' }], {
+    hardwareAcceleration: 'nvidia_nvenc',
+    hardwareInfo: { nvenc_support: true },
+    outputDirectory: path.join(tmpDir, 'output'),
+    tempDir: path.join(tmpDir, 'work'),
+  });
+
+  assert.deepEqual(result.pieces.map((piece) => piece.mode), ['encode', 'copy']);
+  assert.equal(result.encoder, 'libx264');
+  assert.equal(result.hardware, 'none');
+  assert.match(result.encoderFallback, /^h264_nvenc failed: .*Error while opening encoder/);
+
+  const encoders = readCalls()
+    .filter((call) => call.tool === 'ffmpeg' && call.args.includes('-c:v:0'))
+    .map((call) => call.args[call.args.indexOf('-c:v:0') + 1]);
+  assert.deepEqual(encoders, ['h264_nvenc', 'libx264']);
+  const output = readFakeMedia(result.outputPath);
+  assert.equal(output.duration, 69);
+  assert.deepEqual(output.encoders, ['libx264']);
+});
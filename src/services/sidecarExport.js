@@ -0,0 +1,243 @@
+// Sidecar export of approved skip segments: Kodi/MPlayer .edl, a Cliparr JSON segment file
+// and optionally Matroska chapters.xml, written beside each episode so the video is never touched.
+import fsp from 'fs/promises';
+import path from 'path';
+import { workerLogger } from './logger.js';
+import { getDb, getSetting } from '../database/Db_Operations.js';
+import { probeVideo } from './segmentTrimmer.js';
+import { buildChapterList } from './chapterWriter.js';
+import { getSkippableIdents } from './identDetection.js';
+
+// EDL action codes: 0 cuts the segment (MPlayer/mpv skip), 3 marks a commercial break (Kodi skip)
+export const EDL_ACTIONS = { cut: 0, mute: 1, scene: 2, commercial: 3 };
+
+export const SIDECAR_FORMATS = ['edl', 'json', 'chapters'];
+
+const DEFAULT_SIDECAR_OPTIONS = {
+  formats: ['edl', 'json'],
+  edlAction: EDL_ACTIONS.commercial,
+};
+
+const round3 = (value) => Math.round(value * 1000) / 1000;
+
+/**
+ * Read the sidecar settings: which formats to write, the EDL action code and auto-export on approval
+ */
+export function getSidecarSettings(db) {
+  const formats = (getSetting(db, 'sidecar_formats', DEFAULT_SIDECAR_OPTIONS.formats.join(',')) || '')
+    .split(',')
+    .map((format) => format.trim())
+    .filter((format) => SIDECAR_FORMATS.includes(format));
+  const edlAction = parseInt(getSetting(db, 'sidecar_edl_action', String(DEFAULT_SIDECAR_OPTIONS.edlAction)), 10);
+  return {
+    formats,
+    edlAction: Object.values(EDL_ACTIONS).includes(edlAction) ? edlAction : DEFAULT_SIDECAR_OPTIONS.edlAction,
+    autoExport: getSetting(db, 'sidecar_auto_export', '0') === '1',
+  };
+}
+
+/**
+ * Collect the skippable segments of an approved episode, using the reviewed times from its processing job.
+ * `idents` ([{ start, end }]) are added as ident segments.
+ */
+export function collectEpisodeSegments(episode, idents = []) {
+  return [
+    { type: 'recap', start: episode.recap_start, end: episode.recap_end },
+    { type: 'intro', start: episode.intro_start, end: episode.intro_end },
+    { type: 'credits', start: episode.credits_start, end: episode.credits_end },
+    { type: 'preview', start: episode.preview_start, end: episode.preview_end },
+    ...idents.map((ident) => ({ type: 'ident', start: ident.start, end: ident.end })),
+  ]
+    .filter((segment) => segment.start !== null && segment.start !== undefined && segment.end > segment.start)
+    .map((segment) => ({ ...segment, start: round3(segment.start), end: round3(segment.end) }))
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Render segments as an EDL: one `start end action` line per segment, in seconds
+ */
+export function formatEdl(segments, action = DEFAULT_SIDECAR_OPTIONS.edlAction) {
+  return segments.map((segment) => `${segment.start.toFixed(3)}\t${segment.end.toFixed(3)}\t${action}`).join('\n') + '\n';
+}
+
+/**
+ * Render the Cliparr JSON segment file
+ */
+export function formatSegmentJson(episode, segments) {
+  return JSON.stringify({
+    version: 1,
+    generator: 'cliparr',
+    show: episode.show_title,
+    season: episode.season_number,
+    episode: episode.episode_number,
+    segments,
+    exported_at: new Date().toISOString(),
+  }, null, 2) + '\n';
+}
+
+const formatChapterTime = (seconds) => {
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = (seconds % 60).toFixed(3).padStart(6, '0');
+  return `${String(hours).padStart(2, '0')}:${String(mins).padStart(2, '0')}:${secs}`;
+};
+
+/**
+ * Render chapters ({ title, start, end }) as a Matroska chapters.xml document
+ */
+export function formatChaptersXml(chapters) {
+  const atoms = chapters.map((chapter) => [
+    '    <ChapterAtom>',
+    `      <ChapterTimeStart>${formatChapterTime(chapter.start)}</ChapterTimeStart>`,
+    `      <ChapterTimeEnd>${formatChapterTime(chapter.end)}</ChapterTimeEnd>`,
+    '      <ChapterDisplay>',
+    `        <ChapterString>${chapter.title}</ChapterString>`,
+    '        <ChapterLanguage>eng</ChapterLanguage>',
+    '      </ChapterDisplay>',
+    '    </ChapterAtom>',
+  ].join('\n'));
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE Chapters SYSTEM "matroskachapters.dtd">',
+    '<Chapters>',
+    '  <EditionEntry>',
+    ...atoms,
+    '  </EditionEntry>',
+    '</Chapters>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Sidecar file paths for an episode file, named after the video so players pick them up
+ */
+export function getSidecarPaths(filePath) {
+  const base = path.join(path.dirname(filePath), path.basename(filePath, path.extname(filePath)));
+  return {
+    edl: `${base}.edl`,
+    json: `${base}.cliparr.json`,
+    chapters: `${base}.chapters.xml`,
+  };
+}
+
+/**
+ * Find approved episodes, optionally limited to a show, a season or a single episode file.
+ * `filePath`, or `showTitle` with season and episode numbers, identify an episode the way media servers do.
+ * An episode is approved when its processing job was verified or its detection was auto-approved.
+ * Episodes trimmed in place are left out: their segments were removed and the times no longer apply.
+ */
+export async function getApprovedEpisodes({
+  showId = null,
+  seasonNumber = null,
+  episodeFileId = null,
+  filePath = null,
+  showTitle = null,
+  episodeNumber = null,
+} = {}) {
+  const db = await getDb();
+  let sql = `
+    SELECT
+      ef.id AS episode_file_id, ef.file_path,
+      e.episode_number, s.season_number, sh.id AS show_id, sh.title AS show_title,
+      pj.intro_start, pj.intro_end, pj.credits_start, pj.credits_end, pj.recap_start, pj.recap_end,
+      dr.preview_start, dr.preview_end
+    FROM processing_jobs pj
+    JOIN episode_files ef ON pj.media_file_id = ef.id
+    JOIN episodes e ON ef.episode_id = e.id
+    JOIN seasons s ON e.season_id = s.id
+    JOIN shows sh ON s.show_id = sh.id
+    LEFT JOIN detection_results dr ON dr.episode_file_id = ef.id
+    WHERE (pj.manual_verified = 1 OR pj.status = 'verified' OR dr.approval_status = 'auto_approved')
+      AND NOT (pj.status = 'completed' AND pj.output_mode = 'trim' AND pj.output_path = ef.file_path)
+  `;
+  const params = [];
+  if (showId !== null) {
+    sql += ' AND sh.id = ?';
+    params.push(showId);
+  }
+  if (seasonNumber !== null) {
+    sql += ' AND s.season_number = ?';
+    params.push(seasonNumber);
+  }
+  if (episodeFileId !== null) {
+    sql += ' AND ef.id = ?';
+    params.push(episodeFileId);
+  }
+  if (filePath !== null) {
+    sql += ' AND ef.file_path = ?';
+    params.push(filePath);
+  }
+  if (showTitle !== null) {
+    sql += ' AND sh.title = ? COLLATE NOCASE';
+    params.push(showTitle);
+  }
+  if (episodeNumber !== null) {
+    sql += ' AND e.episode_number = ?';
+    params.push(episodeNumber);
+  }
+  sql += ' ORDER BY sh.id, s.season_number, e.episode_number';
+  return db.prepare(sql).all(...params);
+}
+
+/**
+ * Write the chosen sidecar formats beside one episode file, with its idents when skip_idents is on.
+ * Returns the paths written; chapters.xml is skipped with a warning when the file can't be probed.
+ */
+export async function exportEpisodeSidecars(episode, options = {}) {
+  const opts = { ...DEFAULT_SIDECAR_OPTIONS, ...options };
+  // Stored file paths are already mapped to this host when episodes are imported
+  const filePath = episode.file_path;
+  const idents = await getSkippableIdents(episode.episode_file_id);
+  const segments = collectEpisodeSegments(episode, idents);
+  if (segments.length === 0) {
+    return [];
+  }
+  const paths = getSidecarPaths(filePath);
+  const written = [];
+
+  if (opts.formats.includes('edl')) {
+    await fsp.writeFile(paths.edl, formatEdl(segments, opts.edlAction));
+    written.push(paths.edl);
+  }
+  if (opts.formats.includes('json')) {
+    await fsp.writeFile(paths.json, formatSegmentJson(episode, segments));
+    written.push(paths.json);
+  }
+  if (opts.formats.includes('chapters')) {
+    try {
+      const { duration } = await probeVideo(filePath);
+      if (duration) {
+        await fsp.writeFile(paths.chapters, formatChaptersXml(buildChapterList(duration, episode, { idents })));
+        written.push(paths.chapters);
+      }
+    } catch (error) {
+      workerLogger.warn({ filePath, error: error.message }, 'Skipping chapters.xml, could not probe file');
+    }
+  }
+  return written;
+}
+
+/**
+ * Export sidecars for every approved episode in scope ({ showId, seasonNumber, episodeFileId }).
+ * Formats and the EDL action come from settings unless given in `options`.
+ */
+export async function exportSidecars(scope = {}, options = {}) {
+  const db = await getDb();
+  const opts = { ...getSidecarSettings(db), ...options };
+  const episodes = await getApprovedEpisodes(scope);
+  const files = [];
+  const failed = [];
+
+  for (const episode of episodes) {
+    try {
+      files.push(...await exportEpisodeSidecars(episode, opts));
+    } catch (error) {
+      workerLogger.warn({ episodeFileId: episode.episode_file_id, error: error.message }, 'Sidecar export failed');
+      failed.push({ episodeFileId: episode.episode_file_id, error: error.message });
+    }
+  }
+
+  workerLogger.info({ ...scope, episodes: episodes.length, files: files.length, failed: failed.length },
+    'Sidecar export completed');
+  return { success: true, episodes: episodes.length, files, failed };
+}
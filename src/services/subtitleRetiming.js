@@ -0,0 +1,241 @@
+// Subtitle retiming for trimmed episodes: cues are shifted back by the time removed before them
+// and dropped when they fall inside a removed range. Handles SRT, WebVTT and ASS/SSA text.
+import fsp from 'fs/promises';
+import path from 'path';
+import { execFile } from 'child_process';
+import { workerLogger } from './logger.js';
+
+const DEFAULT_RETIME_OPTIONS = {
+  minCueSec: 0.2, // cues cut shorter than this are dropped
+};
+
+// Embedded text subtitle codecs, the file format they are extracted to and the encoder that muxes them back
+export const TEXT_SUBTITLE_CODECS = {
+  subrip: { format: 'srt', encoder: 'srt' },
+  ass: { format: 'ass', encoder: 'ass' },
+  ssa: { format: 'ass', encoder: 'ssa' },
+  webvtt: { format: 'vtt', encoder: 'webvtt' },
+  mov_text: { format: 'srt', encoder: 'mov_text' },
+};
+
+const SIDECAR_FORMATS = { '.srt': 'srt', '.vtt': 'vtt', '.ass': 'ass', '.ssa': 'ass' };
+
+/**
+ * The ranges a cut removed, given the kept pieces ({ start, end } in source time)
+ */
+export function getRemovedRanges(duration, pieces) {
+  const removed = [];
+  let cursor = 0;
+  for (const piece of [...pieces].sort((a, b) => a.start - b.start)) {
+    if (piece.start > cursor) {
+      removed.push({ start: cursor, end: piece.start });
+    }
+    cursor = Math.max(cursor, piece.end);
+  }
+  if (duration > cursor) {
+    removed.push({ start: cursor, end: duration });
+  }
+  return removed;
+}
+
+/**
+ * Map a source time to output time by subtracting the removed time before it.
+ * Times inside a removed range collapse onto the cut.
+ */
+export function shiftTime(time, removedRanges) {
+  let shift = 0;
+  for (const range of removedRanges) {
+    shift += Math.max(0, Math.min(time, range.end) - range.start);
+  }
+  return time - shift;
+}
+
+/**
+ * Retime one cue. Returns { start, end } in output time, or null when too little of it survives.
+ */
+export function retimeCue(start, end, removedRanges, options = {}) {
+  const { minCueSec } = { ...DEFAULT_RETIME_OPTIONS, ...options };
+  const newStart = shiftTime(start, removedRanges);
+  const newEnd = shiftTime(end, removedRanges);
+  return newEnd - newStart >= minCueSec ? { start: newStart, end: newEnd } : null;
+}
+
+const TIMESTAMP = /(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})/;
+
+const parseTimestamp = (text) => {
+  const [, hours = 0, mins, secs, fraction] = text.match(TIMESTAMP);
+  return Number(hours) * 3600 + Number(mins) * 60 + Number(secs) + Number(fraction.padEnd(3, '0')) / 1000;
+};
+
+const formatTimestamp = (seconds, separator) => {
+  const ms = Math.round(seconds * 1000);
+  const pad = (value, length = 2) => String(value).padStart(length, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}` +
+    `${separator}${pad(ms % 1000, 3)}`;
+};
+
+const formatAssTimestamp = (seconds) => {
+  const cs = Math.round(seconds * 100);
+  const pad = (value) => String(value).padStart(2, '0');
+  return `${Math.floor(cs / 360000)}:${pad(Math.floor(cs / 6000) % 60)}:${pad(Math.floor(cs / 100) % 60)}.${pad(cs % 100)}`;
+};
+
+/**
+ * Retime SRT or WebVTT text. Blocks without a timing line (the WebVTT header, NOTE and STYLE blocks)
+ * are kept as they are; SRT cues are renumbered.
+ */
+export function retimeTimedText(text, format, removedRanges, options = {}) {
+  const separator = format === 'srt' ? ',' : '.';
+  const blocks = text.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  const kept = [];
+  let number = 0;
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1) {
+      if (block.trim()) {
+        kept.push(block);
+      }
+      continue;
+    }
+    const [from, rest] = lines[timingIndex].split('-->');
+    const toMatch = rest.match(TIMESTAMP);
+    if (!TIMESTAMP.test(from) || !toMatch) {
+      kept.push(block);
+      continue;
+    }
+    const cue = retimeCue(parseTimestamp(from), parseTimestamp(toMatch[0]), removedRanges, options);
+    if (!cue) {
+      continue;
+    }
+    // WebVTT cue settings follow the end time
+    const settings = rest.slice(rest.indexOf(toMatch[0]) + toMatch[0].length);
+    lines[timingIndex] = `${formatTimestamp(cue.start, separator)} --> ${formatTimestamp(cue.end, separator)}${settings}`;
+    number += 1;
+    if (format === 'srt' && timingIndex === 1 && /^\d+$/.test(lines[0].trim())) {
+      lines[0] = String(number);
+    }
+    kept.push(lines.join('\n'));
+  }
+  return `${kept.join('\n\n')}\n`;
+}
+
+/**
+ * Retime ASS/SSA text: Dialogue and Comment events are shifted or dropped, everything else is kept
+ */
+export function retimeAss(text, removedRanges, options = {}) {
+  let startField = 1;
+  let endField = 2;
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const kept = [];
+  for (const line of lines) {
+    const formatMatch = line.match(/^Format:\s*(.*)$/i);
+    if (formatMatch && /\bStart\b/i.test(formatMatch[1])) {
+      const fields = formatMatch[1].split(',').map((field) => field.trim().toLowerCase());
+      startField = fields.indexOf('start');
+      endField = fields.indexOf('end');
+      kept.push(line);
+      continue;
+    }
+    const eventMatch = line.match(/^(Dialogue|Comment):\s*(.*)$/i);
+    if (!eventMatch) {
+      kept.push(line);
+      continue;
+    }
+    // Only the fields before Text can be split on commas; Text is always last
+    const fields = eventMatch[2].split(',');
+    const cue = retimeCue(parseTimestamp(fields[startField]), parseTimestamp(fields[endField]), removedRanges, options);
+    if (!cue) {
+      continue;
+    }
+    fields[startField] = formatAssTimestamp(cue.start);
+    fields[endField] = formatAssTimestamp(cue.end);
+    kept.push(`${eventMatch[1]}: ${fields.join(',')}`);
+  }
+  return kept.join('\n');
+}
+
+/**
+ * Retime subtitle text in the given format ('srt', 'vtt' or 'ass')
+ */
+export function retimeSubtitleText(text, format, removedRanges, options = {}) {
+  return format === 'ass' ?
+    retimeAss(text, removedRanges, options) :
+    retimeTimedText(text, format, removedRanges, options);
+}
+
+/**
+ * List a file's subtitle streams: { index (among subtitles), codec, language, title, disposition, text }
+ */
+export function probeSubtitleStreams(filePath) {
+  return new Promise((resolve, reject) => {
+    execFile('ffprobe', [
+      '-v', 'error',
+      '-select_streams', 's',
+      '-show_entries', 'stream=codec_name:stream_tags=language,title:stream_disposition=default,forced',
+      '-of', 'json',
+      filePath,
+    ], (err, stdout) => {
+      if (err) {
+        return reject(err);
+      }
+      try {
+        const streams = JSON.parse(stdout).streams || [];
+        resolve(streams.map((stream, index) => ({
+          index,
+          codec: stream.codec_name || null,
+          language: stream.tags?.language || null,
+          title: stream.tags?.title || null,
+          disposition: ['default', 'forced'].filter((flag) => stream.disposition?.[flag] === 1),
+          text: Boolean(TEXT_SUBTITLE_CODECS[stream.codec_name]),
+        })));
+      } catch (parseError) {
+        reject(parseError);
+      }
+    });
+  });
+}
+
+/**
+ * Find subtitle files next to a video that belong to it, e.g. Episode.srt or Episode.en.forced.srt
+ */
+export async function findSidecarSubtitles(filePath) {
+  const dir = path.dirname(filePath);
+  const base = path.basename(filePath, path.extname(filePath));
+  const entries = await fsp.readdir(dir).catch(() => []);
+  return entries
+    .filter((name) => name.startsWith(`${base}.`) && SIDECAR_FORMATS[path.extname(name).toLowerCase()])
+    .map((name) => path.join(dir, name));
+}
+
+/**
+ * Retime the sidecar subtitles of a trimmed video. With an output directory they are written next to
+ * the output; otherwise they are rewritten in place, after copying the originals beside the video's backup.
+ * Returns the paths written.
+ */
+export async function retimeSidecarSubtitles(filePath, removedRanges, { outputPath, backupPath }, options = {}) {
+  const written = [];
+  for (const sidecarPath of await findSidecarSubtitles(filePath)) {
+    const name = path.basename(sidecarPath);
+    try {
+      const text = await fsp.readFile(sidecarPath, 'utf8');
+      const retimed = retimeSubtitleText(text, SIDECAR_FORMATS[path.extname(name).toLowerCase()], removedRanges, options);
+      const targetPath = path.join(path.dirname(outputPath), name);
+      if (targetPath === sidecarPath && backupPath) {
+        // Like the video, an existing backup is the untouched original and is kept
+        await fsp.mkdir(path.dirname(backupPath), { recursive: true });
+        await fsp.copyFile(sidecarPath, path.join(path.dirname(backupPath), name), fsp.constants.COPYFILE_EXCL)
+          .catch((error) => {
+            if (error.code !== 'EEXIST') {
+              throw error;
+            }
+          });
+      }
+      await fsp.writeFile(targetPath, retimed);
+      written.push(targetPath);
+    } catch (error) {
+      workerLogger.warn({ sidecarPath, error: error.message }, 'Failed to retime sidecar subtitles');
+    }
+  }
+  return written;
+}
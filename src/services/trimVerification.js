@@ -0,0 +1,216 @@
+// Verification of rewritten episode files before they replace the original.
+// Checks the output's duration and streams against the source and re-fingerprints it to prove removed audio is gone.
+import { execFile } from 'child_process';
+import { getDb } from '../database/Db_Operations.js';
+import { fingerprintAudioFile } from './chromaprint.js';
+import { stitchRawFingerprint } from './fingerprintAlignment.js';
+import { sliceTemplate, matchTemplate } from './segmentTemplates.js';
+
+const DEFAULT_VERIFY_OPTIONS = {
+  durationToleranceSec: 1, // container rounding and keyframe-aligned pieces drift a little
+  joinWindowSec: 4, // seconds of video decoded around each join between concatenated pieces
+  match: { minCoverage: 0.6, alignment: { minMatchSec: 3 } },
+};
+
+/**
+ * Get a file's duration and streams ({ type, codec, language, attachedPic })
+ */
+export function probeStreams(filePath) {
+  return new Promise((resolve, reject) => {
+    execFile('ffprobe', [
+      '-v', 'error',
+      '-show_entries', 'stream=codec_type,codec_name:stream_tags=language:stream_disposition=attached_pic:format=duration',
+      '-of', 'json',
+      filePath,
+    ], (err, stdout) => {
+      if (err) {
+        return reject(err);
+      }
+      try {
+        const data = JSON.parse(stdout);
+        resolve({
+          duration: parseFloat(data.format?.duration) || 0,
+          streams: (data.streams || []).map((stream) => ({
+            type: stream.codec_type,
+            codec: stream.codec_name || null,
+            language: stream.tags?.language || 'und',
+            attachedPic: stream.disposition?.attached_pic === 1,
+          })),
+        });
+      } catch (parseError) {
+        reject(parseError);
+      }
+    });
+  });
+}
+
+const countStreams = (streams, type) => streams.filter((stream) => stream.type === type && !stream.attachedPic).length;
+
+/**
+ * Compare output streams with the source's. The output keeps the first video stream and
+ * every audio and subtitle stream, so those counts and the subtitle codecs/languages must match.
+ * `subtitleCodec` maps a source subtitle codec to the one the output stores it as (null when the
+ * output container drops the track). Returns { name, passed, detail }.
+ */
+export function compareStreams(sourceStreams, outputStreams, subtitleCodec = (codec) => codec) {
+  const problems = [];
+  if (countStreams(sourceStreams, 'video') > 0 && countStreams(outputStreams, 'video') === 0) {
+    problems.push('video stream missing');
+  }
+  const sourceAudio = countStreams(sourceStreams, 'audio');
+  const outputAudio = countStreams(outputStreams, 'audio');
+  if (outputAudio !== sourceAudio) {
+    problems.push(`${outputAudio} of ${sourceAudio} audio streams`);
+  }
+  const describeSubtitles = (streams) => streams
+    .filter((stream) => stream.type === 'subtitle')
+    .map((stream) => `${stream.codec}/${stream.language}`);
+  const sourceSubs = describeSubtitles(sourceStreams
+    .map((stream) => (stream.type === 'subtitle' ?
+      { ...stream, codec: subtitleCodec(stream.codec) } :
+      stream))
+    .filter((stream) => stream.codec));
+  const outputSubs = describeSubtitles(outputStreams);
+  if (sourceSubs.join(',') !== outputSubs.join(',')) {
+    problems.push(`subtitles ${outputSubs.join(', ') || 'none'} instead of ${sourceSubs.join(', ')}`);
+  }
+  return {
+    name: 'streams',
+    passed: problems.length === 0,
+    detail: problems.length ? problems.join('; ') : `${outputStreams.length} streams preserved`,
+  };
+}
+
+/**
+ * Check the output duration against the expected kept duration. Returns { name, passed, detail }.
+ */
+export function checkDuration(outputSec, expectedSec, toleranceSec = DEFAULT_VERIFY_OPTIONS.durationToleranceSec) {
+  const drift = outputSec - expectedSec;
+  return {
+    name: 'duration',
+    passed: Math.abs(drift) <= toleranceSec,
+    detail: `${outputSec.toFixed(2)}s, expected ${expectedSec.toFixed(2)}s (${drift >= 0 ? '+' : ''}${drift.toFixed(2)}s)`,
+  };
+}
+
+/**
+ * Decode a window of a file's first video stream, resolving with ffmpeg's errors ('' when clean)
+ */
+function decodeVideoWindow(filePath, start, durationSec) {
+  return new Promise((resolve) => {
+    execFile('ffmpeg', [
+      '-v', 'error',
+      '-ss', start.toFixed(3), '-t', durationSec.toFixed(3), '-i', filePath,
+      '-map', '0:v:0', '-f', 'null', '-',
+    ], (err, stdout, stderr) => {
+      resolve((stderr || '').trim() || (err ? err.message : ''));
+    });
+  });
+}
+
+/**
+ * Decode the video around each join (output seconds) of a concatenated file. Any decoder error
+ * near a join means the pieces were spliced badly. Returns { name, passed, detail }.
+ */
+export async function checkJoins(outputPath, joins, windowSec = DEFAULT_VERIFY_OPTIONS.joinWindowSec) {
+  const failed = [];
+  for (const join of joins) {
+    const errors = await decodeVideoWindow(outputPath, Math.max(0, join - windowSec / 2), windowSec);
+    if (errors) {
+      failed.push(`${join.toFixed(1)}s: ${errors.split('\n')[0]}`);
+    }
+  }
+  return {
+    name: 'joins',
+    passed: failed.length === 0,
+    detail: failed.length ?
+      `decode errors at ${failed.join('; ')}` :
+      `${joins.length} joins decode cleanly`,
+  };
+}
+
+/**
+ * Look for removed segments' audio in the output timeline.
+ * Segments that can't be cut from the source timeline (holes, too short) are skipped.
+ * Returns { name, passed, detail }.
+ */
+export function checkSegmentsRemoved(sourceTimeline, outputTimeline, segments, options = {}) {
+  const matchOptions = { ...DEFAULT_VERIFY_OPTIONS.match, ...options };
+  const found = [];
+  const checked = [];
+  for (const segment of segments) {
+    const template = sliceTemplate(sourceTimeline, segment);
+    if (!template) {
+      continue;
+    }
+    checked.push(segment.label);
+    const match = matchTemplate(template, outputTimeline, matchOptions);
+    if (match) {
+      found.push(`${segment.label} still heard at ${match.start.toFixed(1)}s`);
+    }
+  }
+  if (checked.length === 0) {
+    return { name: 'fingerprint', passed: true, detail: 'skipped, no fingerprinted segment to compare' };
+  }
+  return {
+    name: 'fingerprint',
+    passed: found.length === 0,
+    detail: found.length ? found.join('; ') : `${checked.join(', ')} not found in output`,
+  };
+}
+
+/**
+ * The stitched fingerprint timeline stored for an episode file, or null when it has none
+ */
+export async function getEpisodeTimeline(episodeFileId) {
+  const db = await getDb();
+  const row = db.prepare(`
+    SELECT fingerprint_data
+    FROM episode_fingerprints
+    WHERE episode_file_id = ? AND is_valid = 1
+    ORDER BY updated_at DESC
+    LIMIT 1
+  `).get(episodeFileId);
+  return row ? stitchRawFingerprint(JSON.parse(row.fingerprint_data)) : null;
+}
+
+/**
+ * Verify a rewritten file before it replaces the source.
+ * `expectedSec` is the duration the output should have; `removedSegments` ({ label, start, end } in
+ * source time) are looked for in the output's audio when `sourceTimeline` is given, and the video
+ * around each of `joins` (output seconds) must decode without errors. `subtitleCodec` is passed
+ * on to compareStreams when the output is in another container.
+ * Returns { passed, checks: [{ name, passed, detail }] }.
+ */
+export async function verifyOutputFile(sourcePath, outputPath, {
+  expectedSec,
+  removedSegments = [],
+  sourceTimeline = null,
+  joins = [],
+  subtitleCodec,
+  ...options
+} = {}) {
+  const opts = { ...DEFAULT_VERIFY_OPTIONS, ...options };
+  const [source, output] = await Promise.all([probeStreams(sourcePath), probeStreams(outputPath)]);
+  const checks = [
+    checkDuration(output.duration, expectedSec ?? source.duration, opts.durationToleranceSec),
+    compareStreams(source.streams, output.streams, subtitleCodec),
+  ];
+  if (joins.length > 0) {
+    checks.push(await checkJoins(outputPath, joins, opts.joinWindowSec));
+  }
+  if (sourceTimeline && removedSegments.length > 0) {
+    const { fingerprint } = await fingerprintAudioFile(outputPath);
+    const outputTimeline = stitchRawFingerprint([{ start: 0, fingerprint }]);
+    checks.push(checkSegmentsRemoved(sourceTimeline, outputTimeline, removedSegments, opts.match));
+  }
+  return { passed: checks.every((check) => check.passed), checks };
+}
+
+/**
+ * One-line summary of a verification's failed checks, or of all checks when it passed
+ */
+export function describeVerification(verification) {
+  const shown = verification.passed ? verification.checks : verification.checks.filter((check) => !check.passed);
+  return shown.map((check) => `${check.name}: ${check.detail}`).join('; ');
+}
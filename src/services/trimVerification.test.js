@@ -0,0 +1,117 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { compareStreams, checkDuration, checkSegmentsRemoved } from './trimVerification.js';
+import { FINGERPRINT_ITEM_SEC } from './fingerprintAlignment.js';
+
+const SOURCE_STREAMS = [
+  { type: 'video', codec: 'h264', language: 'und', attachedPic: false },
+  { type: 'video', codec: 'mjpeg', language: 'und', attachedPic: true },
+  { type: 'audio', codec: 'aac', language: 'eng', attachedPic: false },
+  { type: 'audio', codec: 'ac3', language: 'jpn', attachedPic: false },
+  { type: 'subtitle', codec: 'subrip', language: 'eng', attachedPic: false },
+  { type: 'subtitle', codec: 'hdmv_pgs_subtitle', language: 'jpn', attachedPic: false },
+];
+
+/**
+ * A stitched timeline of `seconds` of pseudo-random sub-fingerprints, the same for the same seed
+ */
+function randomTimeline(seconds, seed = 1) {
+  let state = seed;
+  return Array.from({ length: Math.round(seconds / FINGERPRINT_ITEM_SEC) }, () => {
+    state = (Math.imul(state, 1664525) + 1013904223) | 0;
+    return state;
+  });
+}
+
+/**
+ * Remove [start, end) seconds from a timeline, as trimming the file would
+ */
+function cutTimeline(timeline, { start, end }) {
+  return [
+    ...timeline.slice(0, Math.round(start / FINGERPRINT_ITEM_SEC)),
+    ...timeline.slice(Math.round(end / FINGERPRINT_ITEM_SEC)),
+  ];
+}
+
+test('compareStreams passes an output that kept every stream but the cover art', () => {
+  const output = SOURCE_STREAMS.filter((stream) => !stream.attachedPic);
+
+  assert.deepEqual(compareStreams(SOURCE_STREAMS, output), {
+    name: 'streams',
+    passed: true,
+    detail: '5 streams preserved',
+  });
+});
+
+test('compareStreams reports missing video, audio and subtitle streams', () => {
+  const output = [
+    { type: 'audio', codec: 'aac', language: 'eng', attachedPic: false },
+    { type: 'subtitle', codec: 'subrip', language: 'eng', attachedPic: false },
+  ];
+
+  const result = compareStreams(SOURCE_STREAMS, output);
+
+  assert.equal(result.passed, false);
+  assert.equal(result.detail, 'video stream missing; 1 of 2 audio streams; ' +
+    'subtitles subrip/eng instead of subrip/eng, hdmv_pgs_subtitle/jpn');
+});
+
+test('compareStreams expects subtitles as the output container stores them', () => {
+  // An MP4 output turns text subtitles into mov_text and drops bitmap ones
+  const toMp4 = (codec) => (codec === 'subrip' ? 'mov_text' : null);
+  const output = [
+    ...SOURCE_STREAMS.filter((stream) => stream.type !== 'subtitle' && !stream.attachedPic),
+    { type: 'subtitle', codec: 'mov_text', language: 'eng', attachedPic: false },
+  ];
+
+  assert.equal(compareStreams(SOURCE_STREAMS, output, toMp4).passed, true);
+  assert.equal(compareStreams(SOURCE_STREAMS, output).passed, false);
+});
+
+test('checkDuration allows drift up to the tolerance', () => {
+  assert.deepEqual(checkDuration(1290.4, 1290), {
+    name: 'duration',
+    passed: true,
+    detail: '1290.40s, expected 1290.00s (+0.40s)',
+  });
+  assert.deepEqual(checkDuration(1287.5, 1290), {
+    name: 'duration',
+    passed: false,
+    detail: '1287.50s, expected 1290.00s (-2.50s)',
+  });
+  assert.equal(checkDuration(1287.5, 1290, 3).passed, true);
+});
+
+test('checkSegmentsRemoved only passes when the removed audio is gone', () => {
+  const source = randomTimeline(120);
+  const intro = { label: 'intro', start: 10, end: 40 };
+  const credits = { label: 'credits', start: 100, end: 118 };
+  const trimmed = cutTimeline(cutTimeline(source, credits), intro);
+
+  assert.deepEqual(checkSegmentsRemoved(source, trimmed, [intro, credits]), {
+    name: 'fingerprint',
+    passed: true,
+    detail: 'intro, credits not found in output',
+  });
+
+  const creditsKept = cutTimeline(source, intro);
+  const result = checkSegmentsRemoved(source, creditsKept, [intro, credits]);
+  assert.equal(result.passed, false);
+  assert.match(result.detail, /^credits still heard at 7\d\.\ds$/);
+});
+
+test('checkSegmentsRemoved skips segments it has no source audio for', () => {
+  const source = randomTimeline(60);
+  // The intro falls in a hole of the source timeline; the stinger is too short to match
+  source.fill(null, 0, Math.round(30 / FINGERPRINT_ITEM_SEC));
+  const segments = [
+    { label: 'intro', start: 5, end: 25 },
+    { label: 'stinger', start: 40, end: 41 },
+  ];
+
+  assert.deepEqual(checkSegmentsRemoved(source, source, segments), {
+    name: 'fingerprint',
+    passed: true,
+    detail: 'skipped, no fingerprinted segment to compare',
+  });
+});
@@ -0,0 +1,377 @@
+// Video-based credits detector that looks for text-on-dark frames near the end of an episode.
+// Samples the final portion of the file with ffmpeg and merges its estimate with the audio detection.
+import { execFile, spawn } from 'child_process';
+import { workerLogger } from './logger.js';
+import { getDb, updateProcessingJob } from '../database/Db_Operations.js';
+import { withVideoCreditsAdjustment } from './confidenceBreakdown.js';
+
+const FRAME_WIDTH = 160;
+const FRAME_HEIGHT = 90;
+const FRAME_BYTES = FRAME_WIDTH * FRAME_HEIGHT;
+
+const DEFAULT_VIDEO_CREDITS_OPTIONS = {
+  maxWindowSec: 480, // never sample more than the last 8 minutes
+  windowFraction: 0.3, // or the last 30% of shorter files
+  sampleFps: 1, // frames sampled per second
+  minCreditsSec: 20, // shortest run of credit-like frames accepted
+  maxGapSec: 4, // non-credit frames tolerated inside a run (title cards, logos)
+};
+
+// Share of the merged confidence contributed by the video detector
+const VIDEO_CONFIDENCE_WEIGHT = 0.3;
+// Video estimates below this confidence never override the audio result
+const MIN_VIDEO_CONFIDENCE = 0.3;
+// Video estimates at or above this confidence replace the audio credits start
+const VIDEO_OVERRIDE_CONFIDENCE = 0.6;
+// Audio and video starts closer than this are treated as agreeing
+const AGREEMENT_TOLERANCE_SEC = 10;
+
+/**
+ * Get media duration in seconds using ffprobe
+ */
+function probeDuration(filePath) {
+  return new Promise((resolve, reject) => {
+    execFile('ffprobe', [
+      '-v', 'error',
+      '-show_entries', 'format=duration',
+      '-of', 'default=noprint_wrappers=1:nokey=1',
+      filePath,
+    ], (err, stdout) => {
+      if (err) {
+        return reject(err);
+      }
+      resolve(parseFloat(stdout.trim()) || 0);
+    });
+  });
+}
+
+/**
+ * Decode the sampled window as small grayscale frames
+ */
+function sampleFrames(filePath, from, duration, fps) {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn('ffmpeg', [
+      '-hide_banner',
+      '-loglevel', 'error',
+      '-ss', String(from),
+      '-t', String(duration),
+      '-i', filePath,
+      '-an',
+      '-vf', `fps=${fps},scale=${FRAME_WIDTH}:${FRAME_HEIGHT},format=gray`,
+      '-f', 'rawvideo',
+      '-pix_fmt', 'gray',
+      '-',
+    ]);
+
+    const chunks = [];
+    let stderr = '';
+    ffmpeg.stdout.on('data', (data) => chunks.push(data));
+    ffmpeg.stderr.on('data', (data) => {
+      stderr += data.toString();
+    });
+    ffmpeg.on('error', reject);
+    ffmpeg.on('close', (code) => {
+      if (code !== 0) {
+        return reject(new Error(`ffmpeg frame sampling failed: ${stderr.trim() || `exit code ${code}`}`));
+      }
+      const buffer = Buffer.concat(chunks);
+      const frames = [];
+      for (let offset = 0; offset + FRAME_BYTES <= buffer.length; offset += FRAME_BYTES) {
+        frames.push(buffer.subarray(offset, offset + FRAME_BYTES));
+      }
+      resolve(frames);
+    });
+  });
+}
+
+/**
+ * Score one grayscale frame for credits-like content.
+ * Credits are mostly dark with sharp text edges and change little (or only by scrolling)
+ * between samples, so the frame-difference histogram has low entropy.
+ */
+export function scoreFrame(frame, previousFrame) {
+  let dark = 0;
+  let edges = 0;
+  for (let y = 0; y < FRAME_HEIGHT - 1; y++) {
+    for (let x = 0; x < FRAME_WIDTH - 1; x++) {
+      const i = y * FRAME_WIDTH + x;
+      if (frame[i] < 40) {
+        dark++;
+      }
+      const gradient = Math.abs(frame[i + 1] - frame[i]) + Math.abs(frame[i + FRAME_WIDTH] - frame[i]);
+      if (gradient > 60) {
+        edges++;
+      }
+    }
+  }
+  const inner = (FRAME_WIDTH - 1) * (FRAME_HEIGHT - 1);
+  const darkFraction = dark / inner;
+  const edgeDensity = edges / inner;
+
+  // Entropy of the 16-bin absolute difference histogram, normalised to 0-1
+  let motionEntropy = 1;
+  if (previousFrame) {
+    const histogram = new Array(16).fill(0);
+    for (let i = 0; i < FRAME_BYTES; i++) {
+      histogram[Math.abs(frame[i] - previousFrame[i]) >> 4]++;
+    }
+    motionEntropy = -histogram.reduce((sum, count) => {
+      const p = count / FRAME_BYTES;
+      return p > 0 ? sum + p * Math.log2(p) : sum;
+    }, 0) / 4;
+  }
+
+  const darkScore = Math.min(1, darkFraction / 0.7);
+  let edgeScore = 0;
+  if (edgeDensity > 0.3) {
+    edgeScore = 0.2; // busy picture, not text
+  } else if (edgeDensity >= 0.005) {
+    edgeScore = Math.min(1, edgeDensity / 0.02);
+  }
+  const stillScore = 1 - motionEntropy;
+  const score = darkScore * 0.4 + edgeScore * 0.35 + stillScore * 0.25;
+
+  return {
+    darkFraction,
+    edgeDensity,
+    motionEntropy,
+    score,
+    creditLike: score >= 0.6 && darkScore >= 0.7 && edgeScore >= 0.5,
+  };
+}
+
+/**
+ * Find the last run of credit-like frames long enough to be credits.
+ * Frame i is at windowStart + i / sampleFps.
+ */
+export function findCreditsRun(frameScores, windowStart, options = {}) {
+  const opts = { ...DEFAULT_VIDEO_CREDITS_OPTIONS, ...options };
+  const step = 1 / opts.sampleFps;
+  const maxGapFrames = Math.round(opts.maxGapSec * opts.sampleFps);
+
+  const runs = [];
+  let run = null;
+  frameScores.forEach((frame, index) => {
+    if (!frame.creditLike) {
+      return;
+    }
+    if (run && index - run.last > maxGapFrames) {
+      runs.push(run);
+      run = null;
+    }
+    if (!run) {
+      run = { first: index, last: index };
+    }
+    run.last = index;
+  });
+  if (run) {
+    runs.push(run);
+  }
+
+  const accepted = runs.filter((r) => (r.last - r.first + 1) * step >= opts.minCreditsSec);
+  if (accepted.length === 0) {
+    return null;
+  }
+
+  const best = accepted[accepted.length - 1];
+  const runFrames = frameScores.slice(best.first, best.last + 1);
+  const meanScore = runFrames.reduce((sum, frame) => sum + frame.score, 0) / runFrames.length;
+  const runSec = (best.last - best.first + 1) * step;
+
+  return {
+    start: Math.round((windowStart + best.first * step) * 100) / 100,
+    end: Math.round((windowStart + (best.last + 1) * step) * 100) / 100,
+    confidence: Math.round(meanScore * Math.min(1, runSec / 45) * 100) / 100,
+    framesAnalyzed: frameScores.length,
+  };
+}
+
+/**
+ * Estimate credits_start for one file from its video track
+ */
+export async function detectVideoCredits(filePath, options = {}) {
+  const opts = { ...DEFAULT_VIDEO_CREDITS_OPTIONS, ...options };
+  const duration = await probeDuration(filePath);
+  if (!duration) {
+    throw new Error(`Could not determine duration of ${filePath}`);
+  }
+
+  const windowSec = Math.min(opts.maxWindowSec, duration * opts.windowFraction);
+  const windowStart = Math.max(0, duration - windowSec);
+  const t0 = Date.now();
+  const frames = await sampleFrames(filePath, windowStart, windowSec, opts.sampleFps);
+
+  const frameScores = frames.map((frame, index) => scoreFrame(frame, frames[index - 1]));
+  const result = findCreditsRun(frameScores, windowStart, opts);
+
+  workerLogger.info({
+    filePath,
+    windowStart,
+    framesSampled: frames.length,
+    creditLikeFrames: frameScores.filter((frame) => frame.creditLike).length,
+    result,
+    durationMs: Date.now() - t0,
+  }, 'Video credits detection complete');
+
+  return result;
+}
+
+/**
+ * Merge audio and video credits estimates.
+ * `audio` is { credits, confidence } from the fingerprint pipeline, `video` is a stored video result.
+ * Returns the merged credits, the merged confidence, and a record of both inputs.
+ */
+export function mergeCreditsDetection(audio, video) {
+  const audioRecord = {
+    start: audio.credits?.start ?? null,
+    end: audio.credits?.end ?? null,
+    confidence: audio.confidence,
+  };
+  const unchanged = {
+    credits: audio.credits,
+    confidence: audio.confidence,
+    record: { source: 'audio', audio: audioRecord, video: video || null },
+  };
+
+  if (!video || video.start === null || video.confidence < MIN_VIDEO_CONFIDENCE) {
+    return unchanged;
+  }
+
+  const blended = audio.confidence * (1 - VIDEO_CONFIDENCE_WEIGHT) + video.confidence * VIDEO_CONFIDENCE_WEIGHT;
+  const round2 = (value) => Math.round(value * 100) / 100;
+
+  if (!audio.credits) {
+    return {
+      credits: { start: video.start, end: video.end, source: 'video' },
+      confidence: round2(blended),
+      record: { source: 'video', audio: audioRecord, video, weight: VIDEO_CONFIDENCE_WEIGHT },
+    };
+  }
+
+  const agrees = Math.abs(audio.credits.start - video.start) <= AGREEMENT_TOLERANCE_SEC;
+  if (agrees) {
+    // Independent agreement never lowers the audio confidence
+    return {
+      credits: audio.credits,
+      confidence: round2(Math.max(audio.confidence, blended)),
+      record: { source: 'audio+video', audio: audioRecord, video, weight: VIDEO_CONFIDENCE_WEIGHT },
+    };
+  }
+
+  if (video.confidence >= VIDEO_OVERRIDE_CONFIDENCE) {
+    // Audio most likely matched a shared stinger rather than the per-episode credits
+    return {
+      credits: { ...audio.credits, start: video.start, end: Math.max(video.end, audio.credits.end) },
+      confidence: round2(blended),
+      record: { source: 'video', audio: audioRecord, video, weight: VIDEO_CONFIDENCE_WEIGHT },
+    };
+  }
+
+  return {
+    ...unchanged,
+    record: { ...unchanged.record, note: 'video disagreed with low confidence' },
+  };
+}
+
+/**
+ * Get the stored video credits result for an episode file
+ */
+export async function getVideoCreditsResult(episodeFileId) {
+  const db = await getDb();
+  const row = db.prepare(`
+    SELECT credits_start, credits_end, confidence, frames_analyzed
+    FROM video_credits_results
+    WHERE episode_file_id = ?
+  `).get(episodeFileId);
+
+  if (!row) {
+    return null;
+  }
+  return {
+    start: row.credits_start,
+    end: row.credits_end,
+    confidence: row.confidence,
+    framesAnalyzed: row.frames_analyzed,
+  };
+}
+
+/**
+ * Run the video credits stage for one episode file: detect, store, and merge into
+ * an existing detection_results row and the episode's processing job, unless that job is
+ * completed. Later season detections re-apply the stored result.
+ */
+export async function runVideoCreditsStage(episodeFileId, filePath) {
+  const db = await getDb();
+  const now = new Date().toISOString();
+  const video = await detectVideoCredits(filePath);
+
+  db.prepare(`
+    INSERT OR REPLACE INTO video_credits_results
+    (episode_file_id, credits_start, credits_end, confidence, frames_analyzed, created_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(
+    episodeFileId,
+    video?.start ?? null,
+    video?.end ?? null,
+    video?.confidence ?? 0,
+    video?.framesAnalyzed ?? 0,
+    now,
+  );
+
+  const row = db.prepare('SELECT * FROM detection_results WHERE episode_file_id = ?').get(episodeFileId);
+  if (!row) {
+    workerLogger.info({ episodeFileId }, 'No detection results yet, video credits stored for the next season detection');
+    return { video, merged: null };
+  }
+
+  // Always merge against the original audio estimate so repeated runs don't compound
+  const previous = row.credits_merge_data ? JSON.parse(row.credits_merge_data) : null;
+  const audio = previous?.audio ? {
+    credits: previous.audio.start !== null ? { start: previous.audio.start, end: previous.audio.end } : null,
+    confidence: previous.audio.confidence,
+  } : {
+    credits: row.credits_start !== null ? { start: row.credits_start, end: row.credits_end } : null,
+    confidence: row.confidence_score,
+  };
+
+  const merged = mergeCreditsDetection(audio, video);
+  const breakdown = row.confidence_breakdown ? withVideoCreditsAdjustment(
+    JSON.parse(row.confidence_breakdown),
+    merged.confidence,
+    merged.record.source,
+  ) : null;
+  db.prepare(`
+    UPDATE detection_results
+    SET credits_start = ?, credits_end = ?, confidence_score = ?, credits_merge_data = ?,
+        confidence_breakdown = ?, updated_at = ?
+    WHERE id = ?
+  `).run(
+    merged.credits?.start ?? null,
+    merged.credits?.end ?? null,
+    merged.confidence,
+    JSON.stringify(merged.record),
+    breakdown ? JSON.stringify(breakdown) : null,
+    now,
+    row.id,
+  );
+
+  // Trimming, chapters and sidecars read the job's times; a completed job's file no longer has them
+  const job = db.prepare('SELECT id, status FROM processing_jobs WHERE media_file_id = ?')
+    .get(episodeFileId);
+  if (job && job.status !== 'completed') {
+    await updateProcessingJob(db, job.id, {
+      credits_start: merged.credits?.start ?? null,
+      credits_end: merged.credits?.end ?? null,
+      confidence_score: merged.confidence,
+    });
+  }
+
+  workerLogger.info({
+    episodeFileId,
+    source: merged.record.source,
+    credits: merged.credits ? `${merged.credits.start}s-${merged.credits.end}s` : 'none',
+    confidence: merged.confidence,
+  }, 'Video credits merged into detection results');
+
+  return { video, merged };
+}
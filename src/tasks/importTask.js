@@ -8,6 +8,7 @@ import {
   getImportedShows,
   processShowData,
   getSetting,
+  getPathMappings,
 } from '../database/Db_Operations.js';
 import { mapSonarrPath } from '../utils/pathMap.js';
 import WebSocket from 'ws';
@@ -202,6 +203,7 @@ export class ImportTaskManager {
 
       let episodesWithFile = episodes.filter((ep) => ep.hasFile);
 
+      const pathRules = getPathMappings(db, 'sonarr');
       const files = episodeFiles
         .map((file) => {
           let epId = null;
@@ -240,7 +242,7 @@ export class ImportTaskManager {
           if (!epId) {
             return null;
           }
-          const hostPath = mapSonarrPath(file.path || file.relativePath || '');
+          const hostPath = mapSonarrPath(file.path || file.relativePath || '', pathRules);
           return {
             episodeId: epId,
             path: hostPath,
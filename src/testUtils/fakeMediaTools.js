@@ -0,0 +1,120 @@
+// Stand-ins for ffmpeg and ffprobe, so trimming runs in tests on machines without them.
+// Fake media files are JSON descriptions of their streams; the fake ffmpeg writes one for
+// every output it is asked for, and the fake ffprobe answers from them.
+import fs from 'fs';
+import path from 'path';
+
+// The tools themselves, written out as CommonJS so they run outside this package
+const FAKE_TOOL_SOURCE = `
+const fs = require('fs');
+const [tool, ...args] = process.argv.slice(2);
+const readMedia = (file) => JSON.parse(fs.readFileSync(file, 'utf8'));
+const valueOf = (flag) => (args.includes(flag) ? args[args.indexOf(flag) + 1] : undefined);
+if (process.env.FAKE_MEDIA_LOG) {
+  fs.appendFileSync(process.env.FAKE_MEDIA_LOG, JSON.stringify({ tool, args }) + '\\n');
+}
+
+if (tool === 'ffprobe') {
+  let media;
+  try {
+    media = readMedia(args[args.length - 1]);
+  } catch {
+    process.stderr.write('Invalid data found when processing input\\n');
+    process.exit(1);
+  }
+  const format = { duration: String(media.duration) };
+  if (args.includes('packet=pts_time,flags')) {
+    process.stdout.write(media.keyframes.map((time) => time.toFixed(6) + ',K__').join('\\n'));
+  } else if (valueOf('-select_streams') === 's') {
+    process.stdout.write(JSON.stringify({ streams: media.subtitles }));
+  } else if (valueOf('-select_streams') === 'v:0') {
+    process.stdout.write(JSON.stringify({ streams: [media.video], format }));
+  } else {
+    process.stdout.write(JSON.stringify({
+      streams: [
+        { codec_type: 'video', ...media.video },
+        ...media.audio.map((stream) => ({ codec_type: 'audio', ...stream })),
+        ...media.subtitles.map((stream) => ({ codec_type: 'subtitle', ...stream })),
+      ],
+      format,
+    }));
+  }
+  process.exit(0);
+}
+
+const encoder = valueOf('-c:v:0');
+if (encoder && encoder === process.env.FAKE_FFMPEG_FAIL_ENCODER) {
+  process.stderr.write('Error while opening encoder for output stream #0:0\\n');
+  process.exit(1);
+}
+const output = args[args.length - 1];
+if (output === '-') {
+  process.exit(0);
+}
+const inputs = args.filter((arg, index) => args[index - 1] === '-i');
+let media;
+let duration;
+if (valueOf('-f') === 'concat') {
+  const pieces = fs.readFileSync(inputs[0], 'utf8').split('\\n')
+    .map((line) => readMedia(line.slice(6, -1).replace(/'\\\\''/g, "'")));
+  media = pieces[0];
+  duration = pieces.reduce((sum, piece) => sum + piece.duration, 0);
+} else {
+  media = readMedia(inputs[0]);
+  duration = valueOf('-t') !== undefined ? parseFloat(valueOf('-t')) : media.duration;
+}
+const scale = /scale=-2:(\\d+)/.exec(valueOf('-vf') || '');
+const audioCodec = valueOf('-c:a');
+fs.writeFileSync(output, JSON.stringify({
+  ...media,
+  duration,
+  video: { ...media.video, ...(scale && { height: Number(scale[1]) }) },
+  audio: audioCodec ?
+    media.audio.map((stream) => ({ ...stream, codec_name: audioCodec })) :
+    media.audio,
+  encoders: [...new Set([...(media.encoders || []), ...(encoder ? [encoder] : [])])],
+}));
+`;
+
+// A 100s 1080p H.264 episode with one AAC track and a keyframe every 2s
+const DEFAULT_FAKE_MEDIA = {
+  duration: 100,
+  video: { codec_name: 'h264', pix_fmt: 'yuv420p', profile: 'High', level: 40, height: 1080 },
+  audio: [{ codec_name: 'aac', tags: { language: 'eng' } }],
+  subtitles: [],
+  keyframes: Array.from({ length: 50 }, (_, index) => index * 2),
+};
+
+/**
+ * Put fake ffmpeg and ffprobe executables in `dir` and ahead of everything else on PATH.
+ * Every call is appended to `dir`/calls.log; returns a function that reads the calls back.
+ */
+export function installFakeMediaTools(dir) {
+  const scriptPath = path.join(dir, 'fake-media-tool.cjs');
+  fs.writeFileSync(scriptPath, FAKE_TOOL_SOURCE);
+  for (const tool of ['ffmpeg', 'ffprobe']) {
+    const wrapper = `#!/bin/sh\nexec node "${scriptPath}" ${tool} "$@"\n`;
+    fs.writeFileSync(path.join(dir, tool), wrapper, { mode: 0o755 });
+  }
+  const logPath = path.join(dir, 'calls.log');
+  process.env.PATH = `${dir}${path.delimiter}${process.env.PATH}`;
+  process.env.FAKE_MEDIA_LOG = logPath;
+  return () => (fs.existsSync(logPath) ?
+    fs.readFileSync(logPath, 'utf8').trim().split('\n').map((line) => JSON.parse(line)) :
+    []);
+}
+
+/**
+ * Write a fake media file, overriding the default episode's fields
+ */
+export function writeFakeMedia(filePath, media = {}) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify({ ...DEFAULT_FAKE_MEDIA, ...media }));
+}
+
+/**
+ * Read a fake media file back
+ */
+export function readFakeMedia(filePath) {
+  return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+}
@@ -1,12 +1,99 @@
-// Path mapping utility to convert Sonarr container paths to host system paths.
-// Uses environment variables to map between Docker container and host file system paths.
-export function mapSonarrPath(absPath) {
-  const from = process.env.SONARR_PATH_PREFIX || '';
+// Path mapping utility to convert Sonarr and media server paths to the paths Cliparr sees.
+// Ordered rules from the path_mappings table are tried first; the env prefix pair is the fallback.
+import path from 'path';
+
+export const PATH_MAPPING_INTEGRATIONS = ['sonarr', 'jellyfin', 'plex', 'emby'];
+
+// Env prefix each integration falls back to; media servers usually mount the library where Sonarr does
+const ENV_PREFIXES = {
+  sonarr: ['SONARR_PATH_PREFIX'],
+  jellyfin: ['JELLYFIN_PATH_PREFIX', 'SONARR_PATH_PREFIX'],
+  plex: ['PLEX_PATH_PREFIX', 'SONARR_PATH_PREFIX'],
+  emby: ['EMBY_PATH_PREFIX', 'SONARR_PATH_PREFIX'],
+};
+
+const trimSlashes = (prefix) => (prefix.length > 1 ? prefix.replace(/[\\/]+$/, '') : prefix);
+
+/**
+ * Replace `from` with `to` when the path starts with it on a directory boundary,
+ * so /mnt/media never matches /mnt/media2. Returns null when the prefix doesn't apply.
+ */
+function replacePrefix(absPath, from, to) {
+  const prefix = trimSlashes(from);
+  if (!prefix || !absPath.startsWith(prefix)) {
+    return null;
+  }
+  let rest = absPath.slice(prefix.length);
+  if (/[\\/]$/.test(prefix)) {
+    // A root prefix such as / or C:\ keeps its separator
+    rest = rest ? prefix.slice(-1) + rest : rest;
+  } else if (rest && !/^[\\/]/.test(rest)) {
+    return null;
+  }
+  const target = trimSlashes(to);
+  if (target.startsWith('/')) {
+    // Windows paths from Sonarr land on a POSIX mount
+    rest = rest.replace(/\\/g, '/');
+  }
+  return /[\\/]$/.test(target) && /^[\\/]/.test(rest) ? target + rest.slice(1) : target + rest;
+}
+
+/**
+ * Map a path with the first matching rule ({ from_prefix, to_prefix }, in order).
+ * Returns { path, rule }, with rule null when nothing matched.
+ */
+export function applyPathMappings(absPath, rules = []) {
+  for (const rule of rules) {
+    const mapped = replacePrefix(absPath, rule.from_prefix, rule.to_prefix);
+    if (mapped !== null) {
+      return { path: mapped, rule };
+    }
+  }
+  return { path: absPath, rule: null };
+}
+
+/**
+ * Map a path seen by an integration to Cliparr's path, trying its rules and then its env prefixes
+ */
+export function mapIntegrationPath(integration, absPath, rules = []) {
+  const result = applyPathMappings(absPath, rules);
+  if (result.rule) {
+    return result;
+  }
+
   const to = process.env.HOST_PATH_PREFIX || '';
+  const fromVar = (ENV_PREFIXES[integration] || []).find((name) => process.env[name]);
+  if (!fromVar || !to) {
+    return result; // no mapping configured
+  }
+  const mapped = replacePrefix(absPath, process.env[fromVar], to);
+  return mapped !== null ?
+    { path: mapped, rule: { integration, from_prefix: process.env[fromVar], to_prefix: to, source: 'env' } } :
+    result;
+}
+
+export function mapSonarrPath(absPath, rules = []) {
+  return mapIntegrationPath('sonarr', absPath, rules).path;
+}
 
+export function mapJellyfinPath(absPath, rules = []) {
+  return mapIntegrationPath('jellyfin', absPath, rules).path;
+}
+
+/**
+ * Check a rule before storing it: both prefixes must be absolute paths
+ */
+export function validatePathMapping(rule) {
+  const from = String(rule?.from_prefix || '').trim();
+  const to = String(rule?.to_prefix || '').trim();
   if (!from || !to) {
-    return absPath; // no mapping configured
+    return 'Both prefixes are required';
   }
-
-  return absPath.startsWith(from) ? absPath.replace(from, to) : absPath;
+  if (!path.isAbsolute(from) && !path.win32.isAbsolute(from)) {
+    return `Not an absolute path: ${from}`;
+  }
+  if (!path.isAbsolute(to)) {
+    return `Not an absolute path: ${to}`;
+  }
+  return null;
 }
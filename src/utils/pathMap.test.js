@@ -0,0 +1,94 @@
+import { test, beforeEach, after } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  applyPathMappings,
+  mapIntegrationPath,
+  mapJellyfinPath,
+  validatePathMapping,
+} from './pathMap.js';
+
+const ENV_NAMES = ['HOST_PATH_PREFIX', 'SONARR_PATH_PREFIX', 'JELLYFIN_PATH_PREFIX'];
+const savedEnv = Object.fromEntries(ENV_NAMES.map((name) => [name, process.env[name]]));
+
+beforeEach(() => {
+  for (const name of ENV_NAMES) {
+    delete process.env[name];
+  }
+});
+
+after(() => {
+  for (const [name, value] of Object.entries(savedEnv)) {
+    if (value === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = value;
+    }
+  }
+});
+
+test('applyPathMappings uses the first rule that matches on a directory boundary', () => {
+  const rules = [
+    { from_prefix: '/mnt/media2', to_prefix: '/data/other' },
+    { from_prefix: '/mnt/media/', to_prefix: '/data/tv' },
+    { from_prefix: '/mnt', to_prefix: '/never' },
+  ];
+
+  assert.deepEqual(applyPathMappings('/mnt/media/Show/ep.mkv', rules), {
+    path: '/data/tv/Show/ep.mkv',
+    rule: rules[1],
+  });
+  assert.equal(applyPathMappings('/mnt/media2/Show/ep.mkv', rules).path, '/data/other/Show/ep.mkv');
+  assert.equal(applyPathMappings('/mnt/media', rules).path, '/data/tv');
+  assert.deepEqual(applyPathMappings('/srv/Show/ep.mkv', rules), {
+    path: '/srv/Show/ep.mkv',
+    rule: null,
+  });
+});
+
+test('applyPathMappings handles root prefixes and Windows paths onto a POSIX mount', () => {
+  const windowsRules = [{ from_prefix: 'D:\\TV', to_prefix: '/data/tv' }];
+  assert.equal(
+    applyPathMappings('/Show/ep.mkv', [{ from_prefix: '/', to_prefix: '/data/' }]).path,
+    '/data/Show/ep.mkv',
+  );
+  assert.equal(
+    applyPathMappings('D:\\TV\\Show\\ep.mkv', windowsRules).path,
+    '/data/tv/Show/ep.mkv',
+  );
+  assert.equal(
+    applyPathMappings('D:\\TVShows\\ep.mkv', windowsRules).rule,
+    null,
+  );
+});
+
+test('mapIntegrationPath falls back to the env prefixes when no rule matches', () => {
+  process.env.HOST_PATH_PREFIX = '/data/tv';
+  process.env.SONARR_PATH_PREFIX = '/tv';
+
+  // Jellyfin falls back to Sonarr's prefix until it has its own
+  assert.deepEqual(mapIntegrationPath('jellyfin', '/tv/Show/ep.mkv'), {
+    path: '/data/tv/Show/ep.mkv',
+    rule: { integration: 'jellyfin', from_prefix: '/tv', to_prefix: '/data/tv', source: 'env' },
+  });
+  process.env.JELLYFIN_PATH_PREFIX = '/media/tv';
+  assert.equal(mapJellyfinPath('/media/tv/Show/ep.mkv'), '/data/tv/Show/ep.mkv');
+  assert.equal(mapJellyfinPath('/tv/Show/ep.mkv'), '/tv/Show/ep.mkv');
+
+  // Rules win over the env prefixes
+  const rules = [{ from_prefix: '/media/tv', to_prefix: '/library' }];
+  assert.equal(mapJellyfinPath('/media/tv/Show/ep.mkv', rules), '/library/Show/ep.mkv');
+});
+
+test('validatePathMapping wants two absolute prefixes', () => {
+  assert.equal(validatePathMapping({ from_prefix: '/tv', to_prefix: '/data/tv' }), null);
+  assert.equal(validatePathMapping({ from_prefix: 'D:\\TV', to_prefix: '/data/tv' }), null);
+  assert.equal(validatePathMapping({ from_prefix: '/tv' }), 'Both prefixes are required');
+  assert.equal(
+    validatePathMapping({ from_prefix: 'tv', to_prefix: '/data/tv' }),
+    'Not an absolute path: tv',
+  );
+  assert.equal(
+    validatePathMapping({ from_prefix: '/tv', to_prefix: 'C:\\TV' }),
+    'Not an absolute path: C:\\TV',
+  );
+});